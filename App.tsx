@@ -1,72 +1,488 @@
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useMemo, useRef, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { Crosshair, Menu, Terminal } from 'lucide-react';
+import { Crosshair, Menu, Terminal, Globe, Focus, Map as MapIcon, Search } from 'lucide-react';
 
 import EarthScene from './components/EarthScene';
-import { StatusPanel, AlertFeed, ManeuverPanel, AnalyticsPanel } from './components/DashboardComponents';
+import EncounterScene from './components/EncounterScene';
+import GroundTrackMap from './components/GroundTrackMap';
+import { StatusPanel, AlertFeed, ManeuverPanel, AnalyticsPanel, CatalogImportPanel, CdmImportPanel, SimClockPanel, GroundStationPanel, WorkspacePanel, AlertRulesPanel, AssetInspectorPanel, CatalogSearchPanel, ObjectInspectorPanel } from './components/DashboardComponents';
 
-import { OrbitalObject, Conjunction, Maneuver } from './types';
-import { generateMockObjects, checkConjunctions, calculateManeuver } from './services/orbitalPhysics';
+import { OrbitalObject, CatalogUpdate, Conjunction, ConjunctionEvent, Maneuver, ManeuverDecision, OperatorNote, PropagatorKind, BurnModel, GroundStation, HealthLevel, AlertRule, NotificationChannel, RiskLevel, AssetMetadata } from './types';
+import { generateMockObjects, DEFAULT_SCREENING_WINDOW } from './services/orbitalPhysics';
+import { api } from './services/apiClient';
+import { applyCatalogUpdates, connectCatalogFeed, initialFeedStatus, mergeIncrementalScreening, FeedStatus, FEED_URL, FEED_FLUSH_INTERVAL } from './services/catalogFeed';
+import { ManeuverPlanOptions, ManeuverScreening } from './services/maneuverPlanner';
+import { TleParseResult } from './services/tleParser';
+import { applyMetadata } from './services/objectMetadata';
+import { compareModels, getPropagator } from './services/propagators';
+import { CdmParseResult } from './services/cdm';
+import { buildEncounterView } from './services/encounterView';
+import { DEFAULT_GROUND_STATIONS, computeContactWindows, checkUplink } from './services/groundStations';
+import { updateEvents, retierEvents, isEventOpen } from './services/conjunctionEvents';
+import { classifyConjunctions, findEscalations, DEFAULT_ALERT_RULES } from './services/alertRules';
+import { dispatchNotifications, toNotification, testNotification, DeliveryResult, DEFAULT_CHANNELS } from './services/notifications';
+import { assessSystemStatus, summarizeCatalog, ScreeningRecord, SCREENING_POLL_INTERVAL } from './services/systemStatus';
+import { loadWorkspace, saveWorkspaceStore, Workspace, WorkspaceStore } from './services/workspaceStore';
+import { advanceClock, clampTime, formatUtc, DEFAULT_WARP, STEP_SECONDS } from './services/simClock';
+
+// The model comparison is re-run when simulation time moves by this much
+const MODEL_COMPARISON_REFRESH = 10; // s
+
+const HEALTH_BANNER_STYLES: Record<HealthLevel, string> = {
+  NOMINAL: 'text-cyan-500/80 border-cyan-500/20',
+  DEGRADED: 'text-orange-400 border-orange-500/50',
+  FAILED: 'text-red-400 border-red-500/60 animate-pulse',
+};
 
 const App: React.FC = () => {
   // State
   const [objects, setObjects] = useState<OrbitalObject[]>([]);
-  const [time, setTime] = useState<number>(0); // Simulation time
-  const [alerts, setAlerts] = useState<Conjunction[]>([]);
-  const [selectedAlert, setSelectedAlert] = useState<Conjunction | null>(null);
+  const [startTime] = useState<number>(() => Date.now() / 1000); // Scenario start (s since Unix epoch)
+  const [time, setTime] = useState<number>(startTime); // Simulation time (s since Unix epoch)
+  const [playing, setPlaying] = useState(true);
+  const [warp, setWarp] = useState(DEFAULT_WARP);
+  const [screenEpoch, setScreenEpoch] = useState<number>(startTime); // Start of the screened window (s since Unix epoch)
+  const [events, setEvents] = useState<ConjunctionEvent[]>([]); // Screened and CDM conjunctions tracked over time
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [maneuver, setManeuver] = useState<Maneuver | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [burnModel, setBurnModel] = useState<BurnModel>('FINITE');
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [showSearch, setShowSearch] = useState(false); // Catalog search and object inspector
+  const [inspectedId, setInspectedId] = useState<string | null>(null); // Object open in the inspectors; the globe camera follows it
+  const [showEncounter, setShowEncounter] = useState(false); // Close-up of the selected conjunction
+  const [showMap, setShowMap] = useState(false); // 2D ground-track map instead of the globe
+  const [stations, setStations] = useState<GroundStation[]>(DEFAULT_GROUND_STATIONS);
+  const [screenProgress, setScreenProgress] = useState<number | null>(null); // Catalog screening in flight (0..1)
+  const [screenError, setScreenError] = useState<string | null>(null);
+  const [screenStartedAt, setScreenStartedAt] = useState<number | null>(null); // Wall clock; upload or screening in flight
+  const [lastScreen, setLastScreen] = useState<ScreeningRecord | null>(null);
+  const [decisions, setDecisions] = useState<ManeuverDecision[]>([]); // Planned and executed burns
+  const [notes, setNotes] = useState<OperatorNote[]>([]);
+  const [hydrated, setHydrated] = useState(false); // Stored workspace loaded; saving may start
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [catalogRevision, setCatalogRevision] = useState<number | null>(null); // Catalog as held by the screening backend
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>(() => initialFeedStatus());
+  const [planning, setPlanning] = useState(false);
+  const [screening, setScreening] = useState<ManeuverScreening | null>(null); // Secondary screening of the planned burn
+  const [screeningError, setScreeningError] = useState<string | null>(null);
+  const [screeningPending, setScreeningPending] = useState(false);
+  const [rules, setRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [channels, setChannels] = useState<NotificationChannel[]>(DEFAULT_CHANNELS);
+  const [deliveries, setDeliveries] = useState<DeliveryResult[]>([]); // Last delivery per channel
+  const [belowTier, setBelowTier] = useState(0); // Screened approaches no rule placed above LOW
+
+  // Read by the polling interval without restarting it on every frame
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const playingRef = useRef(playing);
+  playingRef.current = playing;
+  const screenJob = useRef(0);
+  const screenBusy = useRef(false);
+  const objectsRef = useRef(objects);
+  objectsRef.current = objects;
+  const revisionRef = useRef<number | null>(null); // Backend catalog revision
+  const lastScreening = useRef<Conjunction[]>([]); // Latest complete result, base for incremental ones
+  const lastScreeningEpoch = useRef(startTime);
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const announcedEvents = useRef<ConjunctionEvent[]>([]); // Events as of the last escalation check
+  const pendingAffected = useRef(new Set<string>()); // Changed objects whose pairs are not yet re-screened
+  const feedQueue = useRef<CatalogUpdate[]>([]); // Received, not yet applied
+  const feedPatch = useRef<CatalogUpdate[] | null>(null); // Applied to objects, not yet sent to the backend
+  const planJob = useRef(0);
   
-  // Initialization
+  const applyWorkspace = (workspace: Workspace) => {
+    setObjects(workspace.objects);
+    setEvents(workspace.events);
+    setDecisions(workspace.maneuvers);
+    setNotes(workspace.notes);
+    if (workspace.stations.length > 0) setStations(workspace.stations);
+    setRules(workspace.rules);
+    setChannels(workspace.channels);
+    // Loaded events are not news
+    announcedEvents.current = workspace.events;
+  };
+
+  // Initialization: resume the stored workspace, or start from mock TLE/object data.
+  // The risk assessment runs once the catalog is set
   useEffect(() => {
-    // Generate Mock TLE/Object Data
-    const objs = generateMockObjects();
-    setObjects(objs);
-    
-    // Initial Risk Assessment
-    const initialAlerts = checkConjunctions(objs, 0);
-    setAlerts(initialAlerts);
+    loadWorkspace()
+      .then(workspace => {
+        if (workspace) applyWorkspace(workspace);
+        else setObjects(generateMockObjects(startTime * 1000));
+      })
+      .catch(e => {
+        setStorageError((e as Error).message);
+        setObjects(generateMockObjects(startTime * 1000));
+      })
+      .finally(() => setHydrated(true));
   }, []);
 
-  // Simulation Loop
+  // Persistence: each part of the workspace is written back when it changes
+  const persist = <K extends WorkspaceStore>(name: K, records: Workspace[K]) => {
+    saveWorkspaceStore(name, records)
+      .then(() => {
+        setSavedAt(Date.now());
+        setStorageError(null);
+      })
+      .catch(e => setStorageError((e as Error).message));
+  };
+  useEffect(() => { if (hydrated) persist('objects', objects); }, [objects, hydrated]);
+  useEffect(() => { if (hydrated) persist('events', events); }, [events, hydrated]);
+  useEffect(() => { if (hydrated) persist('maneuvers', decisions); }, [decisions, hydrated]);
+  useEffect(() => { if (hydrated) persist('notes', notes); }, [notes, hydrated]);
+  useEffect(() => { if (hydrated) persist('stations', stations); }, [stations, hydrated]);
+  useEffect(() => { if (hydrated) persist('rules', rules); }, [rules, hydrated]);
+  useEffect(() => { if (hydrated) persist('channels', channels); }, [channels, hydrated]);
+
+  // Screening results are tiered by the alert rules; approaches left at LOW are not tracked
+  const publishScreening = (conjunctions: Conjunction[], epoch: number) => {
+    const classified = classifyConjunctions(conjunctions, rulesRef.current, epoch, objectsRef.current);
+    const alerts = classified.filter(c => c.riskLevel !== RiskLevel.LOW);
+    setBelowTier(classified.length - alerts.length);
+    setEvents(prev => updateEvents(prev, alerts, epoch, { sweep: true, objects: objectsRef.current }));
+  };
+
+  // Edited rules re-tier the open events right away, also while the clock is paused
   useEffect(() => {
+    if (lastScreening.current.length === 0) return;
+    const classified = classifyConjunctions(lastScreening.current, rules, lastScreeningEpoch.current, objectsRef.current);
+    setBelowTier(classified.filter(c => c.riskLevel === RiskLevel.LOW).length);
+    setEvents(prev => retierEvents(prev, classified));
+  }, [rules]);
+
+  // Escalations go out on every enabled channel
+  useEffect(() => {
+    const escalated = findEscalations(announcedEvents.current, events);
+    announcedEvents.current = events;
+    if (!hydrated || escalated.length === 0) return;
+    dispatchNotifications(escalated.map(e => toNotification(e, rules)), channels)
+      .then(results => setDeliveries(prev => [...prev.filter(d => !results.some(r => r.channelId === d.channelId)), ...results]));
+  }, [events]);
+
+  const handleTestChannel = (channelId: string) => {
+    const channel = channels.find(c => c.id === channelId);
+    if (!channel) return;
+    dispatchNotifications([testNotification()], [{ ...channel, enabled: true }])
+      .then(results => setDeliveries(prev => [...prev.filter(d => d.channelId !== channelId), ...results]));
+  };
+
+  // Simulation Loop: advance by real frame time scaled by the warp factor
+  useEffect(() => {
+    if (!playing) return;
     let animationFrame: number;
-    const loop = () => {
-      setTime(t => t + 10); // Accelerate time (10s per frame)
+    let last = performance.now();
+    const loop = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      setTime(t => advanceClock(t, delta, warp));
       animationFrame = requestAnimationFrame(loop);
     };
     animationFrame = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationFrame);
+  }, [playing, warp]);
+
+  // Live catalog feed: updates are buffered and applied in batches, so a burst becomes one
+  // catalog patch and one incremental re-screen
+  useEffect(() => {
+    const disconnect = connectCatalogFeed(FEED_URL, {
+      onMessage: message => feedQueue.current.push(message.update),
+      onStatus: setFeedStatus,
+    });
+    const flush = setInterval(() => {
+      // Wait for the catalog, and for the previous batch to reach the screening effect
+      if (feedQueue.current.length === 0 || objectsRef.current.length === 0 || feedPatch.current) return;
+      const updates = feedQueue.current;
+      feedQueue.current = [];
+      feedPatch.current = updates;
+      setObjects(applyCatalogUpdates(objectsRef.current, updates).objects);
+    }, FEED_FLUSH_INTERVAL);
+    return () => {
+      disconnect();
+      clearInterval(flush);
+    };
   }, []);
 
-  // Periodic Risk Re-assessment (Simulating ML Inference Poll)
+  // Periodic Risk Re-assessment: a replaced catalog is uploaded to the screening backend and
+  // screened all-vs-all; feed updates and local single-object edits are sent as a patch and only
+  // the pairs of the changed objects are re-screened. Full screenings then repeat on every poll
+  // while the clock runs and the previous run finished. A failed upload is retried on the next poll.
+  // A catalog change supersedes the screening in flight: its results and completion are ignored
   useEffect(() => {
-    const interval = setInterval(() => {
-      const newAlerts = checkConjunctions(objects, time);
-      // Only update if significant change to avoid UI flicker
-      if (newAlerts.length > 0) {
-        setAlerts(prev => {
-            // Merge logic simplified for prototype: just replace
-            return newAlerts;
+    if (objects.length === 0) return;
+    let cancelled = false;
+    const updates = feedPatch.current;
+    feedPatch.current = null;
+
+    const screen = (objectIds?: string[]) => {
+      const job = ++screenJob.current;
+      const epoch = timeRef.current;
+      const startedAt = Date.now();
+      screenBusy.current = true;
+      setScreenProgress(0);
+      setScreenStartedAt(prev => prev ?? startedAt);
+      api.screen({ revision: revisionRef.current!, time: epoch, objectIds, options: { includeLow: true } }, progress => {
+        if (job === screenJob.current) setScreenProgress(progress);
+      })
+        .then(result => {
+          // Results from a superseded catalog are dropped; their changed objects stay pending
+          if (job !== screenJob.current) return;
+          const conjunctions = objectIds
+            ? mergeIncrementalScreening(lastScreening.current, result.conjunctions, objectIds)
+            : result.conjunctions;
+          lastScreening.current = conjunctions;
+          lastScreeningEpoch.current = epoch;
+          if (objectIds) objectIds.forEach(id => pendingAffected.current.delete(id));
+          else pendingAffected.current.clear();
+          publishScreening(conjunctions, epoch);
+          if (!objectIds) setScreenEpoch(epoch);
+          setScreenError(null);
+          const completedAt = Date.now();
+          setLastScreen({ completedAt, durationMs: completedAt - startedAt, incremental: !!objectIds, stats: result.stats });
+        })
+        .catch(e => {
+          if (job === screenJob.current) setScreenError((e as Error).message);
+        })
+        .finally(() => {
+          if (job !== screenJob.current) return;
+          screenBusy.current = false;
+          setScreenProgress(null);
+          setScreenStartedAt(null);
         });
-      }
-    }, 5000);
-    return () => clearInterval(interval);
-  }, [objects, time]);
-
-  const handleGenerateManeuver = () => {
-      if (selectedAlert) {
-          // Simulate API delay
-          setTimeout(() => {
-              const plan = calculateManeuver(selectedAlert);
+    };
+
+    const upload = () => {
+      screenBusy.current = true;
+      revisionRef.current = null;
+      setCatalogRevision(null);
+      setScreenStartedAt(prev => prev ?? Date.now());
+      api.putCatalog(objects)
+        .then(result => {
+          if (cancelled) return;
+          revisionRef.current = result.revision;
+          setCatalogRevision(result.revision);
+          screen();
+        })
+        .catch(e => {
+          if (cancelled) return;
+          screenBusy.current = false;
+          setScreenStartedAt(null);
+          setScreenError(`Catalog upload failed: ${(e as Error).message}`);
+        });
+    };
+
+    // A rejected patch (e.g. the backend restarted) falls back to a full upload
+    const patch = (catalogUpdates: CatalogUpdate[]) => {
+      screenBusy.current = true;
+      api.patchCatalog({ revision: revisionRef.current!, updates: catalogUpdates })
+        .then(result => {
+          if (cancelled) return;
+          revisionRef.current = result.revision;
+          setCatalogRevision(result.revision);
+          result.affectedIds.forEach(id => pendingAffected.current.add(id));
+          screen(Array.from(pendingAffected.current));
+        })
+        .catch(() => {
+          if (!cancelled) upload();
+        });
+    };
+
+    if (updates && revisionRef.current !== null) patch(updates);
+    else upload();
+    const interval = setInterval(() => {
+      if (screenBusy.current) return;
+      if (revisionRef.current === null) upload();
+      // A paused or scrubbed clock keeps the last screening window
+      else if (playingRef.current) screen();
+    }, SCREENING_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      screenJob.current++;
+      clearInterval(interval);
+    };
+  }, [objects]);
+
+  // Local edits of single objects are patched into the backend catalog like feed updates
+  const applyLocalUpdates = (updates: CatalogUpdate[]) => {
+      feedPatch.current = [...(feedPatch.current ?? []), ...updates];
+      setObjects(prev => applyCatalogUpdates(prev, updates).objects);
+  };
+
+  // Plans are made from the screening epoch, not the (possibly scrubbed) view time
+  const handleGenerateManeuver = (options: Partial<ManeuverPlanOptions>) => {
+      if (!selectedAlert) return;
+      const job = ++planJob.current;
+      setPlanning(true);
+      setPlanError(null);
+      api.planManeuver({ conjunction: selectedAlert, time: screenEpoch, options })
+          .then(plan => {
+              // A plan for an alert that is no longer selected is dropped
+              if (job !== planJob.current) return;
               setManeuver(plan);
-          }, 1200);
+              setDecisions(prev => [...prev, {
+                  id: `${plan.conjunctionId}-${Date.now()}`,
+                  maneuver: plan,
+                  burnModel,
+                  status: 'PLANNED',
+                  decidedAt: Date.now(),
+              }]);
+          })
+          .catch(e => {
+              if (job === planJob.current) setPlanError((e as Error).message);
+          })
+          .finally(() => {
+              if (job === planJob.current) setPlanning(false);
+          });
+  };
+
+  // Commit the planned burn to the asset's trajectory; the next screening re-evaluates its events
+  const handleExecuteManeuver = () => {
+      if (!maneuver) return;
+      const burn = { deltaV: maneuver.deltaV, burnEpoch: maneuver.burnEpoch, duration: maneuver.duration, model: burnModel };
+      applyLocalUpdates([{ kind: 'MANEUVER', objectId: maneuver.targetId, burn }]);
+      setDecisions(prev => {
+          const planned = prev.find(d => d.maneuver === maneuver);
+          const executed: ManeuverDecision = {
+              id: planned?.id ?? `${maneuver.conjunctionId}-${Date.now()}`,
+              maneuver,
+              burnModel,
+              status: 'EXECUTED',
+              decidedAt: Date.now(),
+          };
+          return planned ? prev.map(d => d === planned ? executed : d) : [...prev, executed];
+      });
+      setManeuver(null);
+  };
+
+  // Replace the whole workspace with a handover bundle
+  const handleImportWorkspace = (workspace: Workspace) => {
+      applyWorkspace(workspace);
+      setSelectedEventId(null);
+      setManeuver(null);
+  };
+
+  const handleAddNote = (text: string, eventId?: string) => {
+      setNotes(prev => [...prev, { id: `note-${Date.now()}-${prev.length}`, eventId, text, createdAt: Date.now() }]);
+  };
+
+  // Replace the mock catalog with ingested element sets
+  const handleImportCatalog = (result: TleParseResult) => {
+      setObjects(result.objects);
+      // Screened events refer to the old catalog; imported CDMs stand on their own
+      lastScreening.current = [];
+      setEvents(prev => prev.filter(e => e.latest.source === 'CDM'));
+      setSelectedEventId(null);
+      setManeuver(null);
+  };
+
+  // Add CDM conjunctions to the feed; a newer message for a tracked event extends its history
+  const handleImportCdm = (result: CdmParseResult) => {
+      const classified = classifyConjunctions(result.conjunctions, rules, screenEpoch, objects);
+      setEvents(prev => updateEvents(prev, classified, screenEpoch, { sweep: false }));
+  };
+
+  // Re-screen the post-maneuver orbit against the catalog before it can be executed
+  useEffect(() => {
+      setScreening(null);
+      setScreeningError(null);
+      if (!maneuver || catalogRevision === null) {
+          setScreeningPending(false);
+          return;
       }
+      let cancelled = false;
+      setScreeningPending(true);
+      api.screenManeuver({ revision: catalogRevision, maneuver, burnModel })
+          .then(result => { if (!cancelled) setScreening(result); })
+          .catch(e => { if (!cancelled) setScreeningError((e as Error).message); })
+          .finally(() => { if (!cancelled) setScreeningPending(false); });
+      return () => { cancelled = true; };
+  }, [maneuver, burnModel, catalogRevision]);
+
+  // Feed: everything not yet closed, highest Pc first; only open events are alerts
+  const feedEvents = useMemo(
+      () => events.filter(e => e.status !== 'CLOSED').sort((a, b) => b.latest.probability - a.latest.probability),
+      [events]
+  );
+  const allAlerts = useMemo(() => feedEvents.filter(isEventOpen).map(e => e.latest), [feedEvents]);
+
+  // The selection follows its event, so it always shows the latest estimate
+  const selectedAlert = useMemo(
+      () => events.find(e => e.id === selectedEventId)?.latest ?? null,
+      [events, selectedEventId]
+  );
+
+  // Switch the propagation model of a single object
+  const handleSelectModel = (objectId: string, kind: PropagatorKind) => {
+      const obj = objects.find(o => o.id === objectId);
+      if (!obj) return;
+      applyLocalUpdates([{ kind: 'ELEMENTS_UPDATED', object: { ...obj, propagator: kind } }]);
+      setManeuver(null);
   };
 
+  // Metadata edits (HBR, A/m, class, ...) change the Pc and drag, so the object's pairs are re-screened
+  const handleUpdateAsset = (objectId: string, metadata: AssetMetadata) => {
+      const obj = objects.find(o => o.id === objectId);
+      if (!obj) return;
+      applyLocalUpdates([{ kind: 'ELEMENTS_UPDATED', object: applyMetadata(obj, metadata) }]);
+      setManeuver(null);
+  };
+
+  const targetObject = selectedAlert ? objects.find(o => o.id === selectedAlert.objectA) ?? null : null;
+  const inspectedObject = inspectedId ? objects.find(o => o.id === inspectedId) ?? null : null;
+
+  // Ground contacts of the selected asset over the screening window
+  const contacts = useMemo(
+      () => targetObject ? computeContactWindows(targetObject, stations, screenEpoch, screenEpoch + DEFAULT_SCREENING_WINDOW) : [],
+      [targetObject, stations, screenEpoch]
+  );
+  const uplink = useMemo(
+      () => maneuver ? checkUplink(contacts, screenEpoch, maneuver.burnEpoch) : null,
+      [contacts, maneuver, screenEpoch]
+  );
+
+  const windowEnd = screenEpoch + DEFAULT_SCREENING_WINDOW;
+  const seek = (t: number) => setTime(clampTime(t, screenEpoch, windowEnd));
+
+  // Every model of the selected asset, at a coarse time so NUMERICAL is not re-run on every frame
+  const modelEpoch = Math.floor(time / MODEL_COMPARISON_REFRESH) * MODEL_COMPARISON_REFRESH;
+  const models = useMemo(() => targetObject ? compareModels(targetObject, modelEpoch) : [], [targetObject, modelEpoch]);
+
+  const encounterView = useMemo(() => selectedAlert ? buildEncounterView(selectedAlert) : null, [selectedAlert]);
+
+  const catalogSummary = useMemo(() => summarizeCatalog(objects), [objects]);
+  const systemStatus = assessSystemStatus({
+      catalog: catalogSummary,
+      catalogLoaded: hydrated,
+      time,
+      now: Date.now(),
+      screening: lastScreen,
+      inFlightSince: screenStartedAt,
+      screenError,
+      feed: feedStatus,
+      storageError,
+  });
+  const encounterActive = showEncounter && encounterView !== null;
+
+  // Selecting an alert pauses the clock at its TCA and opens the encounter close-up
   const handleSelectAlert = (alert: Conjunction) => {
-      setSelectedAlert(alert);
+      planJob.current++;
+      setPlanning(false);
+      setSelectedEventId(alert.id);
+      setShowEncounter(true);
+      setPlaying(false);
+      seek(alert.tca / 1000);
       setManeuver(null); // Reset maneuver when changing selection
+      setPlanError(null);
+  };
+
+  // Inspecting an object switches to the globe so the camera can fly to it
+  const handleInspectObject = (objectId: string) => {
+      setInspectedId(objectId);
+      setShowEncounter(false);
+      setShowMap(false);
   };
 
   return (
@@ -74,19 +490,32 @@ const App: React.FC = () => {
       
       {/* 3D Background Layer */}
       <div className="absolute inset-0 z-0">
-        <Canvas camera={{ position: [18, 0, 10], fov: 45 }}>
-          <Suspense fallback={null}>
-            <EarthScene objects={objects} time={time} maneuver={maneuver} alerts={alerts} />
-            <OrbitControls 
-                enablePan={false} 
-                enableZoom={true} 
-                minDistance={12} 
-                maxDistance={40}
-                autoRotate={true}
-                autoRotateSpeed={0.5}
-            />
-          </Suspense>
-        </Canvas>
+        {encounterActive && selectedAlert ? (
+          // Separate canvas so the camera starts centred on the primary for every encounter
+          <Canvas key={`encounter-${selectedAlert.id}`} camera={{ position: [9, 6, 12], fov: 45 }}>
+            <Suspense fallback={null}>
+              <EncounterScene conjunction={selectedAlert} view={encounterView!} />
+              <OrbitControls target={[0, 0, 0]} enablePan={false} enableZoom={true} minDistance={3} maxDistance={40} />
+            </Suspense>
+          </Canvas>
+        ) : showMap ? (
+          <GroundTrackMap objects={objects} time={time} alerts={allAlerts} stations={stations} selectedAlert={selectedAlert} />
+        ) : (
+          <Canvas camera={{ position: [18, 0, 10], fov: 45 }}>
+            <Suspense fallback={null}>
+              <EarthScene objects={objects} time={time} maneuver={maneuver} burnModel={burnModel} alerts={allAlerts} focusId={inspectedObject?.id} />
+              <OrbitControls 
+                  makeDefault
+                  enablePan={false} 
+                  enableZoom={true} 
+                  minDistance={12} 
+                  maxDistance={40}
+                  autoRotate={!inspectedObject}
+                  autoRotateSpeed={0.5}
+              />
+            </Suspense>
+          </Canvas>
+        )}
       </div>
 
       {/* UI Overlay Layer */}
@@ -105,40 +534,153 @@ const App: React.FC = () => {
             </div>
             <div className="flex items-center gap-4">
                 <div className="text-right font-mono text-xs text-slate-400 hidden md:block">
-                    <div>SIMULATION TIME</div>
-                    <div className="text-cyan-400">T+{Math.floor(time)}s</div>
+                    <div>SIMULATION TIME (UTC)</div>
+                    <div className="text-cyan-400">{formatUtc(time * 1000)}</div>
                 </div>
-                <button className="p-2 border border-slate-700 rounded hover:bg-slate-800 text-slate-300">
+                <button
+                    onClick={() => { setShowMap(v => !v); setShowEncounter(false); }}
+                    className={`p-2 border rounded hover:bg-slate-800 text-slate-300 ${showMap ? 'border-cyan-500' : 'border-slate-700'}`}
+                    title={showMap ? '3D globe' : '2D ground-track map'}
+                >
+                    {showMap ? <Globe size={20} /> : <MapIcon size={20} />}
+                </button>
+                <button
+                    onClick={() => { setShowSearch(v => !v); setShowCatalog(false); }}
+                    className={`p-2 border rounded hover:bg-slate-800 text-slate-300 ${showSearch ? 'border-cyan-500' : 'border-slate-700'}`}
+                    title="Catalog search"
+                >
+                    <Search size={20} />
+                </button>
+                <button 
+                    onClick={() => { setShowCatalog(v => !v); setShowSearch(false); }}
+                    className={`p-2 border rounded hover:bg-slate-800 text-slate-300 ${showCatalog ? 'border-cyan-500' : 'border-slate-700'}`}
+                >
                     <Menu size={20} />
                 </button>
             </div>
         </header>
 
+        {showCatalog && (
+            <div className="absolute top-20 right-4 w-96 z-20 pointer-events-auto flex flex-col gap-4 max-h-[calc(100vh-6rem)] overflow-y-auto custom-scrollbar">
+                <CatalogImportPanel onImport={handleImportCatalog} />
+                <AssetInspectorPanel
+                    objects={objects}
+                    objectId={inspectedId ?? selectedAlert?.objectA ?? null}
+                    onSelect={setInspectedId}
+                    onApply={handleUpdateAsset}
+                />
+                <CdmImportPanel time={screenEpoch} onImport={handleImportCdm} />
+                <GroundStationPanel stations={stations} onChange={setStations} />
+                <AlertRulesPanel
+                    rules={rules}
+                    channels={channels}
+                    objects={objects}
+                    deliveries={deliveries}
+                    belowTier={belowTier}
+                    onChangeRules={setRules}
+                    onChangeChannels={setChannels}
+                    onTestChannel={handleTestChannel}
+                />
+                <WorkspacePanel
+                    workspace={{ objects, events, maneuvers: decisions, notes, stations, rules, channels }}
+                    selectedAlert={selectedAlert}
+                    savedAt={savedAt}
+                    storageError={storageError}
+                    onImport={handleImportWorkspace}
+                    onAddNote={handleAddNote}
+                    onDeleteNote={id => setNotes(prev => prev.filter(n => n.id !== id))}
+                />
+            </div>
+        )}
+
+        {showSearch && (
+            <div className="absolute top-20 right-4 w-96 z-20 pointer-events-auto flex flex-col gap-4 max-h-[calc(100vh-6rem)] overflow-y-auto custom-scrollbar">
+                <CatalogSearchPanel objects={objects} selectedId={inspectedId} onSelect={handleInspectObject} />
+                {inspectedObject && (
+                    <ObjectInspectorPanel
+                        object={inspectedObject}
+                        time={time}
+                        events={events}
+                        onSelectEvent={handleSelectAlert}
+                        onClose={() => setInspectedId(null)}
+                    />
+                )}
+            </div>
+        )}
+
         {/* Main Dashboard Grid */}
         <main className="flex-1 grid grid-cols-1 md:grid-cols-12 gap-4 pointer-events-none">
             
             {/* Left Column - Stats & Alerts */}
             <div className="md:col-span-3 flex flex-col gap-4 pointer-events-auto">
                 <div className="h-1/3">
-                    <StatusPanel 
-                        activeCount={objects.filter(o => o.type === 'SATELLITE').length} 
-                        debrisCount={objects.filter(o => o.type === 'DEBRIS').length} 
-                    />
+                    <StatusPanel status={systemStatus} feed={feedStatus} />
                 </div>
                 <div className="h-2/3">
-                    <AlertFeed alerts={alerts} onSelect={handleSelectAlert} />
+                    <AlertFeed events={feedEvents} selectedId={selectedAlert?.id} onSelect={handleSelectAlert} />
                 </div>
             </div>
 
             {/* Center - Viewport (Empty mainly to see Earth) */}
             <div className="md:col-span-6 relative">
+                {encounterView && selectedAlert && (
+                    <div className="absolute top-0 left-0 right-0 flex justify-center pointer-events-none">
+                        <div className="glass-panel px-4 py-2 rounded-lg flex items-center gap-4 text-xs font-mono text-slate-300 pointer-events-auto">
+                            {encounterActive ? (
+                                <>
+                                    <span className="text-cyan-400">{selectedAlert.nameA}</span>
+                                    <span className="text-slate-500">×</span>
+                                    <span className="text-orange-400">{selectedAlert.nameB}</span>
+                                    <span className="text-slate-500">ELLIPSOIDS 3σ · B-PLANE 1σ/3σ</span>
+                                </>
+                            ) : (
+                                <span className="text-slate-400">SELECTED: {selectedAlert.nameA} × {selectedAlert.nameB}</span>
+                            )}
+                            <button
+                                onClick={() => setShowEncounter(v => !v)}
+                                className="flex items-center gap-1 px-2 py-1 border border-cyan-500/50 rounded text-cyan-400 hover:bg-cyan-500 hover:text-black"
+                            >
+                                {encounterActive ? <><Globe size={12} /> GLOBAL VIEW</> : <><Focus size={12} /> ENCOUNTER VIEW</>}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Center HUD Elements */}
-                <div className="absolute bottom-0 left-0 right-0 flex justify-center pb-8 pointer-events-none">
-                   <div className="glass-panel px-6 py-2 rounded-full flex items-center gap-4 text-xs font-mono text-cyan-500/80 border-cyan-500/20">
+                <div className="absolute bottom-0 left-0 right-0 flex flex-col items-center gap-3 pb-8 pointer-events-none">
+                   <SimClockPanel
+                       time={time}
+                       playing={playing}
+                       warp={warp}
+                       windowStart={screenEpoch}
+                       windowEnd={windowEnd}
+                       markers={allAlerts}
+                       selectedId={selectedAlert?.id}
+                       contacts={contacts}
+                       burnEpoch={maneuver?.burnEpoch}
+                       onTogglePlay={() => setPlaying(p => !p)}
+                       onSetWarp={setWarp}
+                       onStep={dir => seek(time + dir * STEP_SECONDS)}
+                       onSeek={seek}
+                       onLive={() => setTime(Date.now() / 1000)}
+                   />
+                   <div className={`glass-panel px-6 py-2 rounded-full flex items-center gap-4 text-xs font-mono ${HEALTH_BANNER_STYLES[systemStatus.health]}`}>
                        <Terminal size={14} />
-                       <span>ORBIT PROPAGATION: NOMINAL</span>
+                       <span title={systemStatus.issues.map(i => `${i.component}: ${i.message}`).join('\n') || undefined}>
+                           ORBIT PROPAGATION: {systemStatus.health}
+                       </span>
                        <span className="w-px h-3 bg-cyan-900"></span>
-                       <span>ML INFERENCE: ACTIVE</span>
+                       <span className={api.mode === 'REMOTE' ? 'text-cyan-300' : undefined}>ENGINE: {api.mode}</span>
+                       <span className="w-px h-3 bg-cyan-900"></span>
+                       {screenError ? (
+                           <span className="text-red-400" title={screenError}>SCREENING: FAULT</span>
+                       ) : catalogRevision === null ? (
+                           <span>CATALOG SYNC...</span>
+                       ) : screenProgress !== null ? (
+                           <span>SCREENING: {api.mode === 'REMOTE' ? 'IN PROGRESS' : `${Math.round(screenProgress * 100)}%`}</span>
+                       ) : (
+                           <span>SCREENING: {objects.length} OBJ ALL-VS-ALL</span>
+                       )}
                    </div>
                 </div>
             </div>
@@ -146,13 +688,36 @@ const App: React.FC = () => {
             {/* Right Column - Analytics & Maneuver */}
             <div className="md:col-span-3 flex flex-col gap-4 pointer-events-auto">
                  <div className="h-1/3">
-                    <AnalyticsPanel />
+                    <AnalyticsPanel
+                        alerts={allAlerts}
+                        epoch={screenEpoch}
+                        asset={targetObject}
+                        selectedId={selectedAlert?.id}
+                        onSelect={id => {
+                            const alert = allAlerts.find(a => a.id === id);
+                            if (alert) handleSelectAlert(alert);
+                        }}
+                    />
                 </div>
                 <div className="h-2/3">
                     <ManeuverPanel 
                         alert={selectedAlert} 
                         maneuver={maneuver} 
                         onGenerate={handleGenerateManeuver} 
+                        planError={planError}
+                        burnModel={burnModel}
+                        onSelectBurnModel={setBurnModel}
+                        screening={screening}
+                        screeningError={screeningError}
+                        planning={planning}
+                        screeningPending={screeningPending}
+                        uplink={uplink}
+                        models={models}
+                        activeModel={targetObject ? getPropagator(targetObject).kind : undefined}
+                        onSelectModel={kind => selectedAlert && handleSelectModel(selectedAlert.objectA, kind)}
+                        decisions={selectedAlert ? decisions.filter(d => d.maneuver.conjunctionId === selectedAlert.id) : []}
+                        onExecute={handleExecuteManeuver}
+                        asset={targetObject}
                     />
                 </div>
             </div>
@@ -1,7 +1,21 @@
 import React from 'react';
-import { Activity, AlertTriangle, Crosshair, Shield, Radio, Zap, Database } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
-import { Conjunction, RiskLevel, Maneuver } from '../types';
+import { Activity, AlertTriangle, Crosshair, Shield, Radio, Zap, Database, Upload, Download, FileText, Play, Pause, SkipBack, SkipForward, Clock, Satellite, Trash2, Plus, Bell, Search } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, TooltipContentProps, ResponsiveContainer, AreaChart, Area, ComposedChart, Scatter, Cell, ReferenceLine } from 'recharts';
+import { Conjunction, ConjunctionEvent, ConjunctionEventStatus, RiskLevel, Maneuver, ManeuverDecision, PropagatorKind, BurnModel, GroundStation, HealthLevel, SystemStatus, AlertRule, AlertRuleScope, AlertThresholds, NotificationChannel, NotificationChannelKind, OrbitalObject, AssetMetadata, ObjectClass, RcsSize } from '../types';
+import { parseTleCatalog, parseTleFile, TleParseResult } from '../services/tleParser';
+import { ModelComparison } from '../services/propagators';
+import { parseCdm, parseCdmFile, formatCdm, cdmFileName, CdmFormat, CdmParseResult } from '../services/cdm';
+import { formatUtc, formatOffset, WARP_FACTORS } from '../services/simClock';
+import { exportWorkspace, parseWorkspaceFile, workspaceFileName, Workspace, WorkspaceImportResult, WORKSPACE_SCHEMA_VERSION } from '../services/workspaceStore';
+import { FeedConnectionState, FeedStatus } from '../services/catalogFeed';
+import { DEFAULT_SCREENING_WINDOW } from '../services/orbitalPhysics';
+import { buildRiskForecast, ForecastPoint, FORECAST_HORIZON } from '../services/riskForecast';
+import { ContactWindow, UplinkCheck, DEFAULT_UPLINK_MARGIN } from '../services/groundStations';
+import { DEFAULT_MANEUVER_OPTIONS, ManeuverPlanOptions, ManeuverScreening, SecondaryConjunctionStatus, assetPlanOptions } from '../services/maneuverPlanner';
+import { hardBodyRadiusOf, isManeuverable, objectClassOf, objectTypeForClass, pickMetadata, validateMetadata, OBJECT_CLASSES, RCS_SIZES } from '../services/objectMetadata';
+import { newAlertRule, validateRule } from '../services/alertRules';
+import { catalogOwners, filterCatalog, orbitHistory, orbitSummary, snapshotObject, upcomingEvents, CatalogFilter, ALTITUDE_BANDS, DEFAULT_CATALOG_FILTER, ORBIT_HISTORY_SPAN } from '../services/catalogSearch';
+import { requestNotificationPermission, DeliveryResult } from '../services/notifications';
 
 interface GlassCardProps {
   children: React.ReactNode;
@@ -22,53 +36,145 @@ export const GlassCard: React.FC<GlassCardProps> = ({ children, className = '',
   </div>
 );
 
-export const StatusPanel = ({ activeCount, debrisCount }: { activeCount: number, debrisCount: number }) => (
-    <GlassCard title="System Status" icon={<Activity size={16} />} className="h-full">
+const FEED_STATE_STYLES: Record<FeedConnectionState, string> = {
+    DISABLED: 'text-slate-500',
+    CONNECTING: 'text-orange-400 animate-pulse',
+    OPEN: 'text-green-400',
+    RECONNECTING: 'text-orange-400 animate-pulse',
+    CLOSED: 'text-red-400',
+};
+
+const HEALTH_STYLES: Record<HealthLevel, { card: string, text: string }> = {
+    NOMINAL: { card: '', text: 'text-green-400' },
+    DEGRADED: { card: 'border-orange-500/60', text: 'text-orange-400' },
+    FAILED: { card: 'border-red-500/70', text: 'text-red-400 animate-pulse' },
+};
+
+const formatAge = (seconds: number) => {
+    const abs = Math.abs(seconds);
+    const text = abs < 3600 ? `${Math.round(abs / 60)} MIN` : abs < 2 * 86400 ? `${(abs / 3600).toFixed(1)} H` : `${(abs / 86400).toFixed(1)} D`;
+    return seconds < 0 ? `-${text}` : text;
+};
+
+export const StatusPanel = ({ status, feed }: { status: SystemStatus, feed: FeedStatus }) => (
+    <GlassCard title="System Status" icon={<Activity size={16} />} className={`h-full ${HEALTH_STYLES[status.health].card}`}>
         <div className="grid grid-cols-2 gap-4">
             <div className="text-center p-2 bg-slate-900/50 rounded">
                 <div className="text-xs text-slate-400 mb-1">ACTIVE ASSETS</div>
-                <div className="text-2xl font-mono font-bold text-cyan-400">{activeCount}</div>
+                <div className="text-2xl font-mono font-bold text-cyan-400">{status.activeSatellites}</div>
             </div>
             <div className="text-center p-2 bg-slate-900/50 rounded">
                 <div className="text-xs text-slate-400 mb-1">TRACKED DEBRIS</div>
-                <div className="text-2xl font-mono font-bold text-red-400">{debrisCount}</div>
+                <div className="text-2xl font-mono font-bold text-red-400">{status.trackedDebris}</div>
             </div>
         </div>
-        <div className="mt-4 space-y-2 text-xs font-mono text-cyan-600">
+        <div className="mt-4 space-y-2 text-xs font-mono text-cyan-600 flex-1 overflow-y-auto pr-2 custom-scrollbar">
+            <div className="flex justify-between">
+                <span>HEALTH</span>
+                <span className={HEALTH_STYLES[status.health].text}>{status.health}</span>
+            </div>
+            {status.issues.map((issue, k) => (
+                <div key={k} className={`pl-2 border-l ${issue.level === 'FAILED' ? 'border-red-500 text-red-400' : 'border-orange-500 text-orange-400'}`}>
+                    {issue.component}: {issue.message}
+                </div>
+            ))}
+            <div className="flex justify-between">
+                <span>LAST SCAN</span>
+                <span>
+                    {status.lastScan !== null ? formatUtc(status.lastScan).slice(11, 19) : '—'}
+                    {status.scanDuration !== null && <span className="text-slate-500"> ({status.scanDuration}ms{status.incremental ? ', INCR' : ''})</span>}
+                </span>
+            </div>
+            <div className="flex justify-between">
+                <span>PAIRS SCREENED</span>
+                <span title="Pairs in scope / close approaches within reach">
+                    {status.pairsScreened !== null ? status.pairsScreened.toLocaleString() : '—'}
+                    {status.candidatePairs !== null && <span className="text-slate-500"> / {status.candidatePairs.toLocaleString()}</span>}
+                </span>
+            </div>
+            <div className="flex justify-between">
+                <span>WORKER LOAD</span>
+                <span className={status.workerLoad !== null && status.workerLoad > 1 ? 'text-orange-400' : undefined}>
+                    {status.workerLoad !== null ? `${Math.round(status.workerLoad * 100)}%` : '—'}
+                </span>
+            </div>
+            <div className="flex justify-between">
+                <span>CATALOG AGE</span>
+                <span title={status.oldestElementId ? `Oldest element set: ${status.oldestElementId}` : undefined}>
+                    {status.newestElementAge !== null ? formatAge(status.newestElementAge) : '—'}
+                    {status.oldestElementAge !== null && <span className="text-slate-500"> … {formatAge(status.oldestElementAge)}</span>}
+                </span>
+            </div>
             <div className="flex justify-between">
-                <span>UPLINK</span>
-                <span className="text-green-400">ESTABLISHED</span>
+                <span>PROPAGATOR</span>
+                <span>
+                    {(Object.keys(status.propagators) as PropagatorKind[])
+                        .filter(kind => status.propagators[kind] > 0)
+                        .map(kind => `${kind} ${status.propagators[kind]}`)
+                        .join(' · ') || '—'}
+                </span>
+            </div>
+            <div className="flex justify-between">
+                <span>CATALOG FEED</span>
+                <span className={FEED_STATE_STYLES[feed.state]} title={feed.error ?? feed.url}>{feed.state}</span>
             </div>
             <div className="flex justify-between">
                 <span>LATENCY</span>
-                <span>12ms</span>
+                <span>{feed.latency !== null ? `${feed.latency}ms` : '—'}</span>
+            </div>
+            <div className="flex justify-between">
+                <span>UPDATES</span>
+                <span>
+                    {feed.messages}
+                    {feed.missed > 0 && <span className="text-orange-400"> ({feed.missed} MISSED)</span>}
+                    {feed.lastMessageAt !== null && <span className="text-slate-500"> @ {formatUtc(feed.lastMessageAt).slice(11, 19)}</span>}
+                </span>
             </div>
             <div className="flex justify-between">
                 <span>PREDICTION</span>
-                <span>+72H WINDOW</span>
+                <span>+{DEFAULT_SCREENING_WINDOW / 3600}H WINDOW</span>
             </div>
         </div>
     </GlassCard>
 );
 
-export const AlertFeed = ({ alerts, onSelect }: { alerts: Conjunction[], onSelect: (c: Conjunction) => void }) => (
+// Sparkline floor: Pc history is plotted as decades above this, on the same scale for every card
+const PC_FLOOR = 1e-12;
+const PC_DECADES = 12;
+
+const EVENT_STATUS_STYLES: Record<ConjunctionEventStatus, string> = {
+    NEW: 'border border-cyan-500/50 text-cyan-300',
+    UPDATED: 'border border-slate-600 text-slate-400',
+    ESCALATED: 'bg-red-600/80 text-white animate-pulse',
+    MITIGATED: 'border border-green-500/50 text-green-400',
+    DROPPED: 'border border-slate-600 text-slate-500',
+    CLOSED: 'border border-slate-700 text-slate-500',
+};
+
+interface AlertFeedProps {
+    events: ConjunctionEvent[];
+    selectedId?: string;
+    onSelect: (c: Conjunction) => void;
+}
+
+// Brings the selected event into view when it is picked elsewhere (forecast, timeline)
+const scrollIntoView = (el: HTMLDivElement | null) => {
+    el?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+};
+
+export const AlertFeed = ({ events, selectedId, onSelect }: AlertFeedProps) => (
     <GlassCard title="Conjunction Alerts" icon={<AlertTriangle size={16} />} className="h-full">
         <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
-            {alerts.length === 0 ? (
+            {events.length === 0 ? (
                 <div className="text-slate-500 text-sm text-center py-10">No critical conjunctions detected.</div>
             ) : (
-                alerts.map((alert) => {
-                    // Generate synthetic trend data for the sparkline
-                    // Higher risk = more volatile curve ending high
-                    const data = [];
-                    const base = alert.probability;
-                    for(let i=0; i<12; i++) {
-                         // Create a somewhat random curve that generally trends towards the current probability
-                         const noise = (Math.random() - 0.5) * 0.1;
-                         const trend = (i / 12) * base; 
-                         const val = Math.max(0, Math.min(1, trend + noise + 0.1));
-                         data.push({ val });
-                    }
+                events.map((event) => {
+                    const alert = event.latest;
+                    const mitigated = event.status === 'MITIGATED';
+                    // Pc per screening on a log scale; a single estimate is drawn as a flat line
+                    const history = event.history.length > 1 ? event.history : [event.history[0], event.history[0]];
+                    const data = history.map(h => ({ val: Math.log10(Math.max(h.probability, PC_FLOOR) / PC_FLOOR) }));
+                    const color = mitigated ? '#22c55e' : alert.riskLevel === RiskLevel.HIGH ? '#ef4444' : '#f97316';
 
                     // Format Time to Impact
                     const hours = Math.floor(alert.timeToImpact / 3600);
@@ -76,38 +182,49 @@ export const AlertFeed = ({ alerts, onSelect }: { alerts: Conjunction[], onSelec
 
                     return (
                         <div 
-                            key={alert.id} 
+                            key={event.id} 
+                            ref={event.id === selectedId ? scrollIntoView : undefined}
                             onClick={() => onSelect(alert)}
-                            className={`p-3 rounded border cursor-pointer transition-all hover:translate-x-1 ${
-                                alert.riskLevel === RiskLevel.HIGH 
+                            className={`p-3 rounded border cursor-pointer transition-all hover:translate-x-1 ${event.id === selectedId ? 'ring-1 ring-white/70 ' : ''}${
+                                mitigated
+                                ? 'bg-green-950/20 border-green-700/40 hover:bg-green-900/30 opacity-70'
+                                : alert.riskLevel === RiskLevel.HIGH 
                                 ? 'bg-red-950/30 border-red-500/50 hover:bg-red-900/50' 
                                 : 'bg-orange-950/30 border-orange-500/50 hover:bg-orange-900/50'
                             }`}
                         >
                             <div className="flex justify-between items-start mb-2">
-                                <span className="font-bold font-mono text-sm text-slate-200">{alert.objectA} vs {alert.objectB}</span>
-                                <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wider ${
-                                    alert.riskLevel === RiskLevel.HIGH ? 'bg-red-600 text-white' : 'bg-orange-500 text-black'
-                                }`}>{alert.riskLevel}</span>
+                                <span className="font-bold font-mono text-sm text-slate-200">{alert.nameA} vs {alert.nameB}</span>
+                                <div className="flex gap-1">
+                                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wider ${EVENT_STATUS_STYLES[event.status]}`}>{event.status}</span>
+                                    {alert.source === 'CDM' && (
+                                        <span className="text-[10px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wider border border-cyan-500/50 text-cyan-300">CDM</span>
+                                    )}
+                                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wider ${
+                                        alert.riskLevel === RiskLevel.HIGH ? 'bg-red-600 text-white' : 'bg-orange-500 text-black'
+                                    }`}>{alert.riskLevel}</span>
+                                </div>
                             </div>
                             
-                            <div className="flex gap-3 mb-1 h-16">
+                            <div className="flex gap-3 mb-1 h-20">
                                 {/* Mini Chart Sparkline */}
                                 <div className="w-1/3 bg-slate-900/50 rounded overflow-hidden relative border border-slate-800">
                                     <ResponsiveContainer width="100%" height="100%">
-                                        <AreaChart data={data}>
+                                        <AreaChart data={data} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
                                             <defs>
-                                                <linearGradient id={`grad-${alert.id}`} x1="0" y1="0" x2="0" y2="1">
-                                                    <stop offset="0%" stopColor={alert.riskLevel === RiskLevel.HIGH ? "#ef4444" : "#f97316"} stopOpacity={0.8}/>
-                                                    <stop offset="100%" stopColor={alert.riskLevel === RiskLevel.HIGH ? "#ef4444" : "#f97316"} stopOpacity={0}/>
+                                                <linearGradient id={`grad-${event.id}`} x1="0" y1="0" x2="0" y2="1">
+                                                    <stop offset="0%" stopColor={color} stopOpacity={0.8}/>
+                                                    <stop offset="100%" stopColor={color} stopOpacity={0}/>
                                                 </linearGradient>
                                             </defs>
+                                            <YAxis hide domain={[0, PC_DECADES]} />
                                             <Area 
                                                 type="monotone" 
                                                 dataKey="val" 
-                                                stroke={alert.riskLevel === RiskLevel.HIGH ? "#ef4444" : "#f97316"} 
+                                                stroke={color} 
                                                 strokeWidth={1.5}
-                                                fill={`url(#grad-${alert.id})`} 
+                                                fill={`url(#grad-${event.id})`} 
+                                                isAnimationActive={false}
                                             />
                                         </AreaChart>
                                     </ResponsiveContainer>
@@ -115,11 +232,20 @@ export const AlertFeed = ({ alerts, onSelect }: { alerts: Conjunction[], onSelec
 
                                 {/* Metrics Grid */}
                                 <div className="flex-1 grid grid-cols-2 gap-x-2 gap-y-1 text-[10px] font-mono text-slate-400 content-center">
-                                    <div>PROBABILITY</div>
-                                    <div className="text-right text-white font-bold">{(alert.probability * 100).toFixed(1)}%</div>
+                                    <div>Pc (FOSTER)</div>
+                                    <div className="text-right text-white font-bold">{alert.pc.foster.toExponential(2)}</div>
+
+                                    <div>Pc MAX</div>
+                                    <div className="text-right text-white">{alert.pc.alfanoMax.toExponential(2)}</div>
                                     
                                     <div>MISS DIST</div>
-                                    <div className="text-right text-white">{alert.missDistance.toFixed(1)} km</div>
+                                    <div className="text-right text-white">{alert.missDistance.toFixed(3)} km</div>
+
+                                    <div>REL VEL</div>
+                                    <div className="text-right text-white">{alert.relativeVelocity.toFixed(2)} km/s</div>
+
+                                    <div>ESTIMATES</div>
+                                    <div className="text-right text-white">{event.history.length}</div>
 
                                     <div>IMPACT IN</div>
                                     <div className="text-right text-cyan-300 font-bold animate-pulse">T-{hours}h {mins}m</div>
@@ -133,7 +259,56 @@ export const AlertFeed = ({ alerts, onSelect }: { alerts: Conjunction[], onSelec
     </GlassCard>
 );
 
-export const ManeuverPanel = ({ alert, maneuver, onGenerate }: { alert: Conjunction | null, maneuver: Maneuver | null, onGenerate: () => void }) => {
+// Saves a conjunction as a CCSDS CDM file
+const downloadCdm = (alert: Conjunction, format: CdmFormat) => {
+    const blob = new Blob([formatCdm(alert, format)], { type: format === 'XML' ? 'application/xml' : 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = cdmFileName(alert, format);
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Planner inputs edited in the panel, in display units
+const PLAN_INPUTS: { key: keyof ManeuverPlanOptions, label: string, unit: string, scale: number }[] = [
+    { key: 'massKg', label: 'MASS', unit: 'kg', scale: 1 },
+    { key: 'thrustN', label: 'THRUST', unit: 'N', scale: 1 },
+    { key: 'leadTimeS', label: 'LEAD', unit: 'h', scale: 3600 },
+    { key: 'targetMissDistance', label: 'MIN MISS', unit: 'km', scale: 1 },
+];
+
+interface ManeuverPanelProps {
+    alert: Conjunction | null;
+    maneuver: Maneuver | null;
+    onGenerate: (options: Partial<ManeuverPlanOptions>) => void;
+    planError?: string | null;
+    burnModel?: BurnModel;
+    onSelectBurnModel?: (model: BurnModel) => void;
+    screening?: ManeuverScreening | null;
+    screeningError?: string | null;
+    planning?: boolean; // Plan request in flight
+    screeningPending?: boolean; // Secondary screening in flight
+    uplink?: UplinkCheck | null;
+    models?: ModelComparison[];
+    activeModel?: PropagatorKind;
+    onSelectModel?: (kind: PropagatorKind) => void;
+    decisions?: ManeuverDecision[]; // Earlier decisions on this conjunction
+    onExecute?: () => void;
+    asset?: OrbitalObject | null; // Catalog entry of the primary, for mass, thrust and maneuverability
+}
+
+const SCREENING_STATUS_STYLE: Record<SecondaryConjunctionStatus, string> = {
+    NEW: 'bg-red-600 text-white',
+    WORSENED: 'bg-orange-500 text-black',
+    EXISTING: 'border border-slate-600 text-slate-400',
+};
+
+export const ManeuverPanel = ({ alert, maneuver, onGenerate, planError, burnModel = 'FINITE', onSelectBurnModel, screening, screeningError, planning = false, screeningPending = false, uplink, models = [], activeModel, onSelectModel, decisions = [], onExecute, asset }: ManeuverPanelProps) => {
+    const [options, setOptions] = React.useState<Partial<ManeuverPlanOptions>>({});
+    const defaults = { ...DEFAULT_MANEUVER_OPTIONS, ...assetPlanOptions(asset) };
+    const canManeuver = alert?.primary?.maneuverable !== false && (!asset || isManeuverable(asset));
+
     if (!alert) return (
         <GlassCard title="Autonomous Response" icon={<Shield size={16} />} className="h-full opacity-50">
             <div className="flex-1 flex flex-col items-center justify-center text-slate-500 text-sm">
@@ -148,17 +323,96 @@ export const ManeuverPanel = ({ alert, maneuver, onGenerate }: { alert: Conjunct
             <div className="space-y-4">
                 <div className="bg-slate-900/80 p-3 rounded border border-slate-700">
                     <div className="text-xs text-slate-400 uppercase mb-1">Target Asset</div>
-                    <div className="font-mono text-lg text-cyan-400 font-bold">{alert.objectA}</div>
+                    <div className="font-mono text-lg text-cyan-400 font-bold">{alert.nameA}</div>
+                    <div className="font-mono text-[10px] text-slate-500">
+                        ID {alert.objectA}
+                        {asset?.owner && <span> · {asset.owner}</span>}
+                        {!canManeuver && <span className="text-orange-400"> · NON-MANEUVERABLE</span>}
+                    </div>
+                    <div className="font-mono text-[10px] text-slate-400 mt-1">
+                        TCA {new Date(alert.tca).toISOString().replace('T', ' ').slice(0, 23)}Z
+                    </div>
+                    {alert.primary && alert.secondary && (
+                        <div className="flex gap-2 mt-2">
+                            {(['KVN', 'XML'] as CdmFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => downloadCdm(alert, format)}
+                                    className="flex-1 flex items-center justify-center gap-1 py-1 border border-slate-700 rounded font-mono text-[10px] text-slate-300 hover:border-cyan-500 transition-all"
+                                >
+                                    <Download size={10} />
+                                    CDM {format}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {decisions.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-slate-800 font-mono text-[10px] space-y-0.5">
+                            {decisions.map(d => (
+                                <div key={d.id} className="flex justify-between">
+                                    <span className={d.status === 'EXECUTED' ? 'text-green-400' : 'text-slate-400'}>{d.status}</span>
+                                    <span className="text-slate-500">{formatUtc(d.decidedAt).slice(5, 16)}</span>
+                                    <span className="text-slate-300">{Math.hypot(...d.maneuver.deltaV).toFixed(3)} m/s</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
+                {models.length > 0 && (
+                    <div className="bg-slate-900/80 p-3 rounded border border-slate-700">
+                        <div className="text-xs text-slate-400 uppercase mb-2">Propagation Model</div>
+                        <div className="font-mono text-[10px] space-y-1">
+                            {models.map(m => (
+                                <button
+                                    key={m.kind}
+                                    onClick={() => onSelectModel?.(m.kind)}
+                                    className={`w-full flex justify-between px-2 py-1 rounded border transition-all ${
+                                        m.kind === activeModel
+                                        ? 'border-cyan-500 bg-cyan-900/30 text-cyan-300'
+                                        : 'border-slate-800 text-slate-400 hover:border-cyan-700'
+                                    }`}
+                                >
+                                    <span>{m.label}</span>
+                                    <span>{m.kind === activeModel ? 'ACTIVE' : `\u0394 ${m.deltaKm.toFixed(3)} km`}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {!maneuver ? (
-                    <button 
-                        onClick={onGenerate}
-                        className="w-full py-6 bg-cyan-900/30 border border-cyan-500/50 text-cyan-400 font-bold tracking-widest hover:bg-cyan-500 hover:text-black transition-all rounded uppercase flex flex-col items-center gap-2"
-                    >
-                        <Zap size={20} />
-                        Calculate Avoidance
-                    </button>
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-2 gap-2 font-mono text-[10px] text-slate-400">
+                            {PLAN_INPUTS.map(input => (
+                                <label key={input.key} className="flex flex-col gap-1">
+                                    <span>{input.label} ({input.unit})</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={(options[input.key] ?? defaults[input.key]) / input.scale}
+                                        onChange={e => setOptions(prev => ({ ...prev, [input.key]: Number(e.target.value) * input.scale }))}
+                                        className="bg-slate-950/80 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-cyan-500"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        {planError && (
+                            <div className="font-mono text-[10px] text-red-400">{planError}</div>
+                        )}
+                        {!canManeuver && (
+                            <div className="font-mono text-[10px] text-orange-400">Asset cannot maneuver; coordinate with the secondary's operator.</div>
+                        )}
+                        <button 
+                            onClick={() => onGenerate({ ...assetPlanOptions(asset), ...options })}
+                            disabled={planning || !canManeuver}
+                            className="w-full py-6 bg-cyan-900/30 border border-cyan-500/50 text-cyan-400 font-bold tracking-widest hover:bg-cyan-500 hover:text-black transition-all rounded uppercase flex flex-col items-center gap-2 disabled:opacity-60 disabled:pointer-events-none"
+                        >
+                            <Zap size={20} className={planning ? 'animate-pulse' : undefined} />
+                            {planning ? 'Computing Solution...' : 'Calculate Avoidance'}
+                        </button>
+                    </div>
                 ) : (
                     <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4 duration-500">
                         <div className="p-3 bg-green-900/20 border border-green-500/30 rounded">
@@ -167,21 +421,113 @@ export const ManeuverPanel = ({ alert, maneuver, onGenerate }: { alert: Conjunct
                                 SOLUTION GENERATED
                             </div>
                             <div className="font-mono text-xs space-y-1 text-slate-300">
-                                <div className="flex justify-between border-b border-slate-700/50 pb-1">
-                                    <span>THRUST</span>
-                                    <span className="text-green-300">{maneuver.thrustN} N</span>
+                                <div className="border-b border-slate-700/50 pb-1">
+                                    <span>ΔV RTN</span>
+                                    <div className="text-green-300">[{maneuver.deltaV.map(v => v.toFixed(4)).join(', ')}] m/s</div>
+                                </div>
+                                <div className="flex justify-between border-b border-slate-700/50 pb-1 pt-1">
+                                    <span>|ΔV|</span>
+                                    <span className="text-green-300">{Math.hypot(...maneuver.deltaV).toFixed(4)} m/s</span>
+                                </div>
+                                <div className="flex justify-between border-b border-slate-700/50 pb-1 pt-1">
+                                    <span>IGNITION</span>
+                                    <span className="text-green-300">{formatUtc(maneuver.burnEpoch)}</span>
                                 </div>
                                 <div className="flex justify-between border-b border-slate-700/50 pb-1 pt-1">
                                     <span>DURATION</span>
-                                    <span className="text-green-300">{maneuver.duration} s</span>
+                                    <span className="text-green-300">{maneuver.duration.toFixed(1)} s @ {maneuver.thrustN} N</span>
                                 </div>
-                                <div className="pt-1">
-                                    <span>VECTOR</span>
-                                    <div className="text-green-300">[{maneuver.vector.join(', ')}]</div>
+                                <div className="flex justify-between border-b border-slate-700/50 pb-1 pt-1">
+                                    <span>POST MISS</span>
+                                    <span className="text-green-300">{maneuver.predictedMissDistance.toFixed(3)} km</span>
                                 </div>
+                                <div className="flex justify-between pt-1">
+                                    <span>POST Pc</span>
+                                    <span className="text-green-300">{maneuver.predictedPc.toExponential(2)}</span>
+                                </div>
+                            </div>
+                            <div className="flex gap-2 mt-2 font-mono text-[10px]">
+                                {(['IMPULSIVE', 'FINITE'] as BurnModel[]).map(model => (
+                                    <button
+                                        key={model}
+                                        onClick={() => onSelectBurnModel?.(model)}
+                                        className={`flex-1 py-1 rounded border transition-all ${
+                                            model === burnModel
+                                            ? 'border-green-500 bg-green-900/30 text-green-300'
+                                            : 'border-slate-800 text-slate-400 hover:border-green-700'
+                                        }`}
+                                    >
+                                        {model} BURN
+                                    </button>
+                                ))}
+                            </div>
+                            {!maneuver.targetMet && (
+                                <div className="mt-2 font-mono text-[10px] text-orange-400">
+                                    TARGET NOT MET WITHIN ΔV LIMIT
+                                </div>
+                            )}
+                        </div>
+                        <div className={`p-3 rounded border ${
+                            screeningPending ? 'bg-slate-900/60 border-cyan-500/30' : screening?.passed ? 'bg-green-900/20 border-green-500/30' : 'bg-red-950/30 border-red-500/50'
+                        }`}>
+                            <div className="flex justify-between items-center font-mono text-xs mb-2">
+                                <span className="text-slate-300">SECONDARY SCREEN</span>
+                                <span className={`font-bold ${screeningPending ? 'text-cyan-400 animate-pulse' : screening?.passed ? 'text-green-400' : 'text-red-400'}`}>
+                                    {screeningPending ? 'SCREENING...' : screening ? (screening.passed ? 'PASS' : 'FAIL') : 'UNAVAILABLE'}
+                                </span>
                             </div>
+                            {screeningError && (
+                                <div className="font-mono text-[10px] text-red-400">{screeningError}</div>
+                            )}
+                            {screening && (
+                                <div className="flex justify-between items-center gap-2 font-mono text-[10px] text-slate-300 pb-1 mb-1 border-b border-slate-800">
+                                    <span className="truncate" title={maneuver.secondaryId}>TARGET {alert?.nameB ?? maneuver.secondaryId}</span>
+                                    <span className="text-slate-500">
+                                        {screening.target ? `${screening.target.missDistance.toFixed(2)} km / ${screening.target.probability.toExponential(1)}` : 'NO APPROACH'}
+                                    </span>
+                                    <span className={`px-1 rounded font-bold ${screening.targetMet ? 'bg-green-600 text-black' : 'bg-red-600 text-white'}`}>
+                                        {screening.targetMet ? 'CLEARED' : 'NOT CLEARED'}
+                                    </span>
+                                </div>
+                            )}
+                            {screening && (
+                                <div className="max-h-28 overflow-y-auto custom-scrollbar space-y-1 font-mono text-[10px] text-slate-300">
+                                    {screening.conjunctions.length === 0 && (
+                                        <div className="text-slate-500">No conjunctions within {Math.round((screening.end - screening.start) / 3600000)}h of ignition</div>
+                                    )}
+                                    {screening.conjunctions.map(({ conjunction, status }) => (
+                                        <div key={conjunction.id} className="flex justify-between items-center gap-2">
+                                            <span className="truncate" title={conjunction.objectB}>{conjunction.nameB}</span>
+                                            <span className="text-slate-500">{formatUtc(conjunction.tca).slice(5, 16)}</span>
+                                            <span>{conjunction.probability.toExponential(1)}</span>
+                                            <span className={`px-1 rounded font-bold ${SCREENING_STATUS_STYLE[status]}`}>{status}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
-                        <button className="w-full py-2 bg-green-600 hover:bg-green-500 text-black font-bold uppercase text-sm rounded">
+                        <div className={`p-3 rounded border font-mono text-xs ${
+                            uplink?.window ? 'bg-green-900/20 border-green-500/30' : 'bg-red-950/30 border-red-500/50'
+                        }`}>
+                            <div className="flex justify-between items-center">
+                                <span className="text-slate-300">UPLINK</span>
+                                <span className={`font-bold ${uplink?.window ? 'text-green-400' : 'text-red-400'}`}>
+                                    {uplink?.window ? `${uplink.window.stationId} ${formatUtc(uplink.window.aos).slice(11, 20)}` : 'NO CONTACT'}
+                                </span>
+                            </div>
+                            {uplink && (
+                                <div className="text-[10px] text-slate-500 mt-1">
+                                    {uplink.window
+                                        ? `${Math.round(uplink.contactSeconds)} s usable before command cutoff ${formatUtc(uplink.deadline).slice(11, 20)}`
+                                        : `No ground contact before ${formatUtc(uplink.deadline)} (ignition - ${DEFAULT_UPLINK_MARGIN / 60} min); the burn cannot be uploaded in time`}
+                                </div>
+                            )}
+                        </div>
+                        <button
+                            onClick={onExecute}
+                            disabled={!screening?.passed || !uplink?.window}
+                            className="w-full py-2 bg-green-600 hover:bg-green-500 text-black font-bold uppercase text-sm rounded disabled:opacity-40 disabled:pointer-events-none"
+                        >
                             Execute Maneuver
                         </button>
                     </div>
@@ -191,41 +537,1062 @@ export const ManeuverPanel = ({ alert, maneuver, onGenerate }: { alert: Conjunct
     );
 }
 
-const generateChartData = () => {
-    const data = [];
-    let prob = 0.1;
-    for(let i=0; i<20; i++) {
-        prob = Math.max(0, Math.min(1, prob + (Math.random() - 0.4) * 0.1));
-        data.push({ name: `T+${i}h`, prob: prob });
-    }
-    return data;
+const formatPc = (pc: number) => pc.toExponential(1);
+
+const ForecastTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    const point = payload[0].payload as ForecastPoint;
+    return (
+        <div className="bg-slate-950/95 border border-cyan-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300">
+            <div className="text-white font-bold">{point.nameA} vs {point.nameB}</div>
+            <div>TCA {formatUtc(point.tca)} (T+{point.hoursAhead.toFixed(1)}h)</div>
+            <div>Pc <span className={point.riskLevel === RiskLevel.HIGH ? 'text-red-400' : 'text-orange-400'}>{formatPc(point.probability)}</span> · MISS {point.missDistance.toFixed(3)} km</div>
+            <div>CUMULATIVE {formatPc(point.cumulative)}</div>
+            <div className="text-cyan-500 mt-0.5">CLICK TO OPEN IN FEED</div>
+        </div>
+    );
 };
 
-export const AnalyticsPanel = () => {
-    const data = React.useMemo(() => generateChartData(), []);
+interface AnalyticsPanelProps {
+    alerts: Conjunction[];
+    epoch: number; // Forecast start (s since Unix epoch)
+    asset?: { id: string, name: string } | null; // Selected asset, for the per-asset forecast
+    selectedId?: string;
+    onSelect: (alertId: string) => void;
+}
+
+export const AnalyticsPanel = ({ alerts, epoch, asset, selectedId, onSelect }: AnalyticsPanelProps) => {
+    const [scope, setScope] = React.useState<'FLEET' | 'ASSET'>('FLEET');
+    const assetScope = scope === 'ASSET' && asset ? asset : null;
+    const forecast = React.useMemo(
+        () => buildRiskForecast(alerts, epoch, assetScope?.id ?? null),
+        [alerts, epoch, assetScope?.id]
+    );
+    const horizonHours = FORECAST_HORIZON / 3600;
 
     return (
-        <GlassCard title="Probability Forecast (72H)" icon={<Database size={16} />} className="h-full">
-            <div className="h-48 w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={data}>
-                        <defs>
-                            <linearGradient id="colorProb" x1="0" y1="0" x2="0" y2="1">
-                                <stop offset="5%" stopColor="#06b6d4" stopOpacity={0.8}/>
-                                <stop offset="95%" stopColor="#06b6d4" stopOpacity={0}/>
-                            </linearGradient>
-                        </defs>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-                        <XAxis dataKey="name" hide />
-                        <YAxis hide domain={[0, 1]} />
-                        <Tooltip 
-                            contentStyle={{ backgroundColor: '#0f172a', borderColor: '#0891b2', color: '#fff' }} 
-                            itemStyle={{ color: '#22d3ee' }}
-                        />
-                        <Area type="monotone" dataKey="prob" stroke="#06b6d4" fillOpacity={1} fill="url(#colorProb)" />
-                    </AreaChart>
-                </ResponsiveContainer>
+        <GlassCard title={`Probability Forecast (${horizonHours}H)`} icon={<Database size={16} />} className="h-full">
+            <div className="flex items-center justify-between text-[10px] font-mono mb-2">
+                <div className="flex gap-1">
+                    {(['FLEET', 'ASSET'] as const).map(s => (
+                        <button
+                            key={s}
+                            onClick={() => setScope(s)}
+                            disabled={s === 'ASSET' && !asset}
+                            className={`px-2 py-0.5 rounded border transition-all disabled:opacity-30 ${
+                                scope === s ? 'border-cyan-500 bg-cyan-900/40 text-cyan-300' : 'border-slate-700 text-slate-500 hover:text-cyan-300'
+                            }`}
+                        >
+                            {s === 'ASSET' && asset ? asset.name : s}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-slate-400">
+                    CUMULATIVE Pc <span className={`font-bold ${forecast.cumulative >= 1e-4 ? 'text-red-400' : 'text-cyan-300'}`}>{forecast.points.length ? formatPc(forecast.cumulative) : '—'}</span>
+                </div>
+            </div>
+            <div className="h-40 w-full">
+                {forecast.points.length === 0 ? (
+                    <div className="h-full flex items-center justify-center text-slate-500 text-xs font-mono">
+                        No conjunctions in the next {horizonHours}h.
+                    </div>
+                ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={forecast.points} margin={{ top: 4, right: 4, bottom: 0, left: -12 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                            <XAxis
+                                type="number"
+                                dataKey="hoursAhead"
+                                domain={[0, horizonHours]}
+                                ticks={[0, 24, 48, 72].filter(h => h <= horizonHours)}
+                                tickFormatter={h => `T+${h}h`}
+                                tick={{ fontSize: 9, fill: '#64748b' }}
+                                stroke="#334155"
+                            />
+                            <YAxis
+                                yAxisId="pc"
+                                scale="log"
+                                domain={[1e-10, 1]}
+                                allowDataOverflow
+                                ticks={[1e-10, 1e-7, 1e-4, 1]}
+                                tickFormatter={v => `1e${Math.round(Math.log10(v))}`}
+                                tick={{ fontSize: 9, fill: '#64748b' }}
+                                stroke="#334155"
+                            />
+                            <YAxis yAxisId="miss" orientation="right" hide domain={[0, 'dataMax']} />
+                            <Tooltip content={ForecastTooltip} cursor={{ stroke: '#0891b2', strokeDasharray: '2 2' }} />
+                            {/* Red-alert threshold */}
+                            <ReferenceLine yAxisId="pc" y={1e-4} stroke="#ef4444" strokeDasharray="4 2" strokeOpacity={0.6} />
+                            <Line yAxisId="pc" type="stepAfter" dataKey="cumulative" stroke="#06b6d4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                            <Scatter yAxisId="miss" dataKey="missDistance" shape="diamond" fill="#64748b" isAnimationActive={false} />
+                            <Scatter
+                                yAxisId="pc"
+                                dataKey="probability"
+                                isAnimationActive={false}
+                                cursor="pointer"
+                                onClick={point => onSelect((point.payload as ForecastPoint).eventId)}
+                            >
+                                {forecast.points.map(p => (
+                                    <Cell
+                                        key={p.eventId}
+                                        fill={p.eventId === selectedId ? '#ffffff' : p.riskLevel === RiskLevel.HIGH ? '#ef4444' : '#f97316'}
+                                    />
+                                ))}
+                            </Scatter>
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                )}
+            </div>
+            <div className="flex justify-between text-[9px] font-mono text-slate-500 mt-1">
+                <span><span className="text-orange-400">●</span> EVENT Pc <span className="text-slate-400 ml-1">◆</span> MISS DIST <span className="text-cyan-400 ml-1">━</span> CUMULATIVE</span>
+                {forecast.peak && <span>PEAK {formatPc(forecast.peak.probability)} @ T+{forecast.peak.hoursAhead.toFixed(1)}h</span>}
             </div>
         </GlassCard>
     );
-};
\ No newline at end of file
+};
+
+export const CatalogImportPanel = ({ onImport }: { onImport: (result: TleParseResult) => void }) => {
+    const [text, setText] = React.useState('');
+    const [result, setResult] = React.useState<TleParseResult | null>(null);
+
+    const apply = (parsed: TleParseResult) => {
+        setResult(parsed);
+        if (parsed.objects.length > 0) onImport(parsed);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        apply(await parseTleFile(file));
+        e.target.value = '';
+    };
+
+    return (
+        <GlassCard title="Catalog Ingestion" icon={<Upload size={16} />} className="h-full">
+            <div className="flex flex-col gap-3 text-xs font-mono">
+                <textarea
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder={'Paste 2LE / 3LE element sets\nISS (ZARYA)\n1 25544U 98067A ...\n2 25544  51.6416 ...'}
+                    className="h-40 w-full bg-slate-950/80 border border-slate-700 rounded p-2 text-slate-300 resize-none custom-scrollbar focus:outline-none focus:border-cyan-500"
+                    spellCheck={false}
+                />
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => apply(parseTleCatalog(text))}
+                        disabled={text.trim() === ''}
+                        className="flex-1 py-2 bg-cyan-900/30 border border-cyan-500/50 text-cyan-400 font-bold tracking-widest hover:bg-cyan-500 hover:text-black transition-all rounded uppercase disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Load Pasted
+                    </button>
+                    <label className="flex-1 py-2 text-center bg-slate-900/50 border border-slate-700 text-slate-300 font-bold tracking-widest hover:border-cyan-500 transition-all rounded uppercase cursor-pointer">
+                        Open File
+                        <input type="file" accept=".tle,.txt,.3le" className="hidden" onChange={handleFile} />
+                    </label>
+                </div>
+                {result && (
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-cyan-600">
+                            <span>LOADED</span>
+                            <span className="text-green-400">{result.objects.length} OBJECTS</span>
+                        </div>
+                        {result.errors.length > 0 && (
+                            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+                                {result.errors.map((err, idx) => (
+                                    <div key={idx} className="text-red-400">
+                                        L{err.line}: {err.message}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
+
+export const CdmImportPanel = ({ time, onImport }: { time: number, onImport: (result: CdmParseResult) => void }) => {
+    const [text, setText] = React.useState('');
+    const [result, setResult] = React.useState<CdmParseResult | null>(null);
+
+    const apply = (parsed: CdmParseResult) => {
+        setResult(parsed);
+        if (parsed.conjunctions.length > 0) onImport(parsed);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        apply(await parseCdmFile(file, time));
+        e.target.value = '';
+    };
+
+    return (
+        <GlassCard title="CDM Import" icon={<FileText size={16} />} className="h-full">
+            <div className="flex flex-col gap-3 text-xs font-mono">
+                <textarea
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder={'Paste a CCSDS CDM (KVN or XML)\nCCSDS_CDM_VERS = 1.0\nTCA = 2024-03-13T22:37:52.618\n...'}
+                    className="h-32 w-full bg-slate-950/80 border border-slate-700 rounded p-2 text-slate-300 resize-none custom-scrollbar focus:outline-none focus:border-cyan-500"
+                    spellCheck={false}
+                />
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => apply(parseCdm(text, time))}
+                        disabled={text.trim() === ''}
+                        className="flex-1 py-2 bg-cyan-900/30 border border-cyan-500/50 text-cyan-400 font-bold tracking-widest hover:bg-cyan-500 hover:text-black transition-all rounded uppercase disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Load Pasted
+                    </button>
+                    <label className="flex-1 py-2 text-center bg-slate-900/50 border border-slate-700 text-slate-300 font-bold tracking-widest hover:border-cyan-500 transition-all rounded uppercase cursor-pointer">
+                        Open File
+                        <input type="file" accept=".cdm,.kvn,.xml,.txt" className="hidden" onChange={handleFile} />
+                    </label>
+                </div>
+                {result && (
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-cyan-600">
+                            <span>LOADED</span>
+                            <span className="text-green-400">{result.conjunctions.length} CONJUNCTIONS</span>
+                        </div>
+                        {result.errors.length > 0 && (
+                            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+                                {result.errors.map((err, idx) => (
+                                    <div key={idx} className="text-red-400">
+                                        CDM {err.index}: {err.message}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
+
+// Saves the workspace as a JSON handover bundle
+const downloadWorkspace = (workspace: Workspace) => {
+    const blob = new Blob([exportWorkspace(workspace)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = workspaceFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+interface WorkspacePanelProps {
+    workspace: Workspace;
+    selectedAlert?: Conjunction | null; // New notes are attached to this event
+    savedAt?: number | null; // Last successful save (ms since Unix epoch)
+    storageError?: string | null;
+    onImport: (workspace: Workspace) => void;
+    onAddNote: (text: string, eventId?: string) => void;
+    onDeleteNote: (id: string) => void;
+}
+
+export const WorkspacePanel = ({ workspace, selectedAlert, savedAt, storageError, onImport, onAddNote, onDeleteNote }: WorkspacePanelProps) => {
+    const [draft, setDraft] = React.useState('');
+    const [result, setResult] = React.useState<WorkspaceImportResult | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const parsed = await parseWorkspaceFile(file);
+        setResult(parsed);
+        if (parsed.workspace) onImport(parsed.workspace);
+        e.target.value = '';
+    };
+
+    const addNote = () => {
+        onAddNote(draft.trim(), selectedAlert?.id);
+        setDraft('');
+    };
+
+    const eventLabel = (eventId: string) => {
+        const event = workspace.events.find(ev => ev.id === eventId);
+        return event ? `${event.latest.nameA} × ${event.latest.nameB}` : eventId;
+    };
+
+    const notes = [...workspace.notes].sort((a, b) => b.createdAt - a.createdAt);
+
+    return (
+        <GlassCard title="Workspace & Handover" icon={<Database size={16} />} className="h-full">
+            <div className="flex flex-col gap-3 text-xs font-mono">
+                <div className="flex justify-between text-[10px]">
+                    <span className="text-cyan-600">LOCAL STORE (v{WORKSPACE_SCHEMA_VERSION})</span>
+                    {storageError ? (
+                        <span className="text-red-400" title={storageError}>NOT SAVED</span>
+                    ) : (
+                        <span className="text-green-400">{savedAt ? `SAVED ${formatUtc(savedAt).slice(11, 19)}` : 'PENDING'}</span>
+                    )}
+                </div>
+                {storageError && <div className="text-[10px] text-red-400">{storageError}</div>}
+                <div className="grid grid-cols-3 gap-1 text-[10px] text-slate-400">
+                    <span>{workspace.objects.length} OBJ</span>
+                    <span>{workspace.events.length} EVENTS</span>
+                    <span>{workspace.maneuvers.length} MNVR</span>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => downloadWorkspace(workspace)}
+                        className="flex-1 py-2 flex items-center justify-center gap-1 bg-cyan-900/30 border border-cyan-500/50 text-cyan-400 font-bold tracking-widest hover:bg-cyan-500 hover:text-black transition-all rounded uppercase"
+                    >
+                        <Download size={12} /> Export
+                    </button>
+                    <label className="flex-1 py-2 flex items-center justify-center gap-1 bg-slate-900/50 border border-slate-700 text-slate-300 font-bold tracking-widest hover:border-cyan-500 transition-all rounded uppercase cursor-pointer">
+                        <Upload size={12} /> Import
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                    </label>
+                </div>
+                {result && (
+                    <div className="space-y-1 text-[10px]">
+                        {result.workspace && (
+                            <div className="text-green-400">LOADED {result.workspace.objects.length} OBJ, {result.workspace.events.length} EVENTS</div>
+                        )}
+                        {result.errors.map((err, idx) => (
+                            <div key={idx} className="text-red-400">{err}</div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="border-t border-slate-800 pt-2">
+                    <div className="text-[10px] text-slate-400 mb-1">
+                        OPERATOR NOTES{selectedAlert && <span className="text-cyan-400"> → {selectedAlert.nameA} × {selectedAlert.nameB}</span>}
+                    </div>
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        placeholder="Shift log, decisions, follow-ups..."
+                        className="h-16 w-full bg-slate-950/80 border border-slate-700 rounded p-2 text-slate-300 resize-none custom-scrollbar focus:outline-none focus:border-cyan-500"
+                    />
+                    <button
+                        onClick={addNote}
+                        disabled={draft.trim() === ''}
+                        className="w-full mt-1 py-1 flex items-center justify-center gap-1 border border-slate-700 text-slate-300 hover:border-cyan-500 rounded uppercase disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <Plus size={12} /> Add Note
+                    </button>
+                    <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 mt-2">
+                        {notes.map(note => (
+                            <div key={note.id} className="p-1.5 rounded bg-slate-900/60 border border-slate-800 text-[10px]">
+                                <div className="flex justify-between text-slate-500">
+                                    <span>{formatUtc(note.createdAt).slice(0, 16)}{note.eventId && <span className="text-cyan-600"> · {eventLabel(note.eventId)}</span>}</span>
+                                    <button onClick={() => onDeleteNote(note.id)} className="hover:text-red-400" title="Delete note">
+                                        <Trash2 size={10} />
+                                    </button>
+                                </div>
+                                <div className="text-slate-300 whitespace-pre-wrap">{note.text}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
+
+interface SimClockPanelProps {
+    time: number; // s since Unix epoch (UTC)
+    playing: boolean;
+    warp: number;
+    windowStart: number; // Screening window (s since Unix epoch)
+    windowEnd: number;
+    markers: Conjunction[]; // TCAs shown on the timeline
+    selectedId?: string;
+    contacts?: ContactWindow[]; // Ground contacts of the selected asset
+    burnEpoch?: number; // Planned ignition (ms since Unix epoch)
+    onTogglePlay: () => void;
+    onSetWarp: (warp: number) => void;
+    onStep: (direction: 1 | -1) => void;
+    onSeek: (time: number) => void;
+    onLive: () => void;
+}
+
+export const SimClockPanel = ({ time, playing, warp, windowStart, windowEnd, markers, selectedId, contacts = [], burnEpoch, onTogglePlay, onSetWarp, onStep, onSeek, onLive }: SimClockPanelProps) => {
+    const span = Math.max(windowEnd - windowStart, 1);
+    const position = (t: number) => `${Math.min(Math.max((t - windowStart) / span, 0), 1) * 100}%`;
+
+    return (
+        <div className="glass-panel rounded-lg px-4 py-2 w-full max-w-xl font-mono text-xs pointer-events-auto">
+            <div className="flex items-center gap-2">
+                <button onClick={() => onStep(-1)} className="p-1 text-slate-400 hover:text-cyan-400" title="Step back">
+                    <SkipBack size={14} />
+                </button>
+                <button onClick={onTogglePlay} className="p-1 text-cyan-400 hover:text-white" title={playing ? 'Pause' : 'Play'}>
+                    {playing ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button onClick={() => onStep(1)} className="p-1 text-slate-400 hover:text-cyan-400" title="Step forward">
+                    <SkipForward size={14} />
+                </button>
+                <div className="flex gap-1 ml-2">
+                    {WARP_FACTORS.map(w => (
+                        <button
+                            key={w}
+                            onClick={() => onSetWarp(w)}
+                            className={`px-1.5 py-0.5 rounded border ${warp === w ? 'border-cyan-500 text-cyan-300 bg-cyan-900/30' : 'border-slate-700 text-slate-500 hover:border-slate-500'}`}
+                        >
+                            {w}x
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onLive} className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded border border-slate-700 text-slate-400 hover:border-cyan-500 hover:text-cyan-400" title="Jump to wall-clock time">
+                    <Clock size={12} /> NOW
+                </button>
+            </div>
+            <div className="relative mt-2 h-5">
+                {contacts.map(c => (
+                    <div
+                        key={`${c.stationId}-${c.aos}`}
+                        className="absolute top-2.5 h-1 bg-green-500/70 min-w-[2px]"
+                        style={{ left: position(c.aos / 1000), width: `calc(${position(c.los / 1000)} - ${position(c.aos / 1000)})` }}
+                        title={`${c.stationName} AOS ${formatUtc(c.aos)} LOS ${formatUtc(c.los)}`}
+                    />
+                ))}
+                {burnEpoch !== undefined && (
+                    <div className="absolute top-0 w-0.5 h-3.5 bg-green-300" style={{ left: position(burnEpoch / 1000) }} title={`Ignition ${formatUtc(burnEpoch)}`} />
+                )}
+                {markers.map(m => (
+                    <div
+                        key={m.id}
+                        className={`absolute top-0 w-0.5 h-2 ${m.id === selectedId ? 'bg-white' : m.riskLevel === RiskLevel.HIGH ? 'bg-red-500' : 'bg-orange-400'}`}
+                        style={{ left: position(m.tca / 1000) }}
+                    />
+                ))}
+                <input
+                    type="range"
+                    min={windowStart}
+                    max={windowEnd}
+                    step={1}
+                    value={Math.min(Math.max(time, windowStart), windowEnd)}
+                    onChange={e => onSeek(Number(e.target.value))}
+                    className="absolute inset-x-0 bottom-0 w-full accent-cyan-500"
+                />
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-500">
+                <span>{formatUtc(windowStart * 1000)}</span>
+                {contacts.length > 0 && <span className="text-green-500">{contacts.length} CONTACTS</span>}
+                <span className="text-cyan-400">{formatOffset(time - windowStart)}</span>
+                <span>{formatUtc(windowEnd * 1000)}</span>
+            </div>
+        </div>
+    );
+};
+
+// Editable station list: lat / lon (deg), altitude (km), elevation mask (deg)
+const STATION_FIELDS: { key: 'latitude' | 'longitude' | 'altitude' | 'minElevation', label: string }[] = [
+    { key: 'latitude', label: 'LAT' },
+    { key: 'longitude', label: 'LON' },
+    { key: 'altitude', label: 'ALT' },
+    { key: 'minElevation', label: 'MASK' },
+];
+
+export const GroundStationPanel = ({ stations, onChange }: { stations: GroundStation[], onChange: (stations: GroundStation[]) => void }) => {
+    const update = (id: string, patch: Partial<GroundStation>) => {
+        onChange(stations.map(s => s.id === id ? { ...s, ...patch } : s));
+    };
+
+    const add = () => {
+        let n = stations.length + 1;
+        while (stations.some(s => s.id === `GS${n}`)) n++;
+        onChange([...stations, { id: `GS${n}`, name: `Station ${n}`, latitude: 0, longitude: 0, altitude: 0, minElevation: 5 }]);
+    };
+
+    return (
+        <GlassCard title="Ground Stations" icon={<Satellite size={16} />} className="h-full">
+            <div className="flex flex-col gap-2 text-[10px] font-mono">
+                <div className="grid grid-cols-[3rem_repeat(4,1fr)_1rem] gap-1 text-slate-500">
+                    <span>ID</span>
+                    {STATION_FIELDS.map(f => <span key={f.key}>{f.label}</span>)}
+                    <span />
+                </div>
+                <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                    {stations.map(station => (
+                        <div key={station.id} className="grid grid-cols-[3rem_repeat(4,1fr)_1rem] gap-1 items-center" title={station.name}>
+                            <span className="text-cyan-400 truncate">{station.id}</span>
+                            {STATION_FIELDS.map(f => (
+                                <input
+                                    key={f.key}
+                                    type="number"
+                                    step="any"
+                                    value={station[f.key]}
+                                    onChange={e => update(station.id, { [f.key]: Number(e.target.value) })}
+                                    className="w-full bg-slate-950/80 border border-slate-700 rounded px-1 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500"
+                                />
+                            ))}
+                            <button onClick={() => onChange(stations.filter(s => s.id !== station.id))} className="text-slate-500 hover:text-red-400">
+                                <Trash2 size={10} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={add}
+                    className="flex items-center justify-center gap-1 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 transition-all"
+                >
+                    <Plus size={10} /> ADD STATION
+                </button>
+            </div>
+        </GlassCard>
+    );
+};
+
+// Threshold inputs; time to TCA is edited in hours and stored in seconds
+const THRESHOLD_FIELDS: { key: keyof AlertThresholds, label: string, scale: number }[] = [
+    { key: 'pc', label: 'PC ≥', scale: 1 },
+    { key: 'missDistance', label: 'MISS ≤ KM', scale: 1 },
+    { key: 'radialMiss', label: 'RADIAL ≤ KM', scale: 1 },
+    { key: 'timeToTca', label: 'TCA ≤ H', scale: 3600 },
+];
+
+const CHANNEL_LABELS: Record<NotificationChannelKind, string> = {
+    BROWSER: 'BROWSER NOTIFICATION',
+    AUDIO: 'AUDIBLE ALARM',
+    WEBHOOK: 'WEBHOOK',
+    EMAIL: 'E-MAIL RELAY',
+};
+
+const inputClass = 'w-full bg-slate-950/80 border border-slate-700 rounded px-1 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+interface AlertRulesPanelProps {
+    rules: AlertRule[];
+    channels: NotificationChannel[];
+    objects: OrbitalObject[];
+    deliveries: DeliveryResult[];
+    belowTier: number; // Approaches in the last screening left at LOW
+    onChangeRules: (rules: AlertRule[]) => void;
+    onChangeChannels: (channels: NotificationChannel[]) => void;
+    onTestChannel: (channelId: string) => void;
+}
+
+export const AlertRulesPanel = ({ rules, channels, objects, deliveries, belowTier, onChangeRules, onChangeChannels, onTestChannel }: AlertRulesPanelProps) => {
+    const missions = React.useMemo(
+        () => Array.from(new Set(objects.map(o => o.mission).filter((m): m is string => !!m))).sort(),
+        [objects],
+    );
+    const assets = React.useMemo(() => objects.filter(o => o.type === 'SATELLITE'), [objects]);
+
+    const updateRule = (id: string, patch: Partial<AlertRule>) => {
+        onChangeRules(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+    };
+    const updateThreshold = (rule: AlertRule, key: keyof AlertThresholds, value: string, scale: number) => {
+        const thresholds = { ...rule.thresholds };
+        if (value === '') delete thresholds[key];
+        else thresholds[key] = Number(value) * scale;
+        updateRule(rule.id, { thresholds });
+    };
+    const updateChannel = (id: string, patch: Partial<NotificationChannel>) => {
+        onChangeChannels(channels.map(c => c.id === id ? { ...c, ...patch } : c));
+    };
+    const toggleChannel = (channel: NotificationChannel) => {
+        // Permission has to be asked for from the operator's click
+        if (channel.kind === 'BROWSER' && !channel.enabled) requestNotificationPermission();
+        updateChannel(channel.id, { enabled: !channel.enabled });
+    };
+
+    return (
+        <GlassCard title="Alert Rules" icon={<Bell size={16} />}>
+            <div className="flex flex-col gap-2 text-[10px] font-mono">
+                <div className="text-slate-500">
+                    Highest matching tier wins; unmatched approaches stay LOW and are not tracked
+                    {belowTier > 0 && <span className="text-slate-400"> ({belowTier} in the last screening)</span>}.
+                </div>
+                <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                    {rules.map(rule => {
+                        const errors = validateRule(rule);
+                        return (
+                            <div key={rule.id} className={`p-2 rounded border space-y-1 ${rule.enabled ? 'border-slate-700 bg-slate-900/50' : 'border-slate-800 opacity-60'}`}>
+                                <div className="flex items-center gap-1">
+                                    <input type="checkbox" checked={rule.enabled} onChange={() => updateRule(rule.id, { enabled: !rule.enabled })} />
+                                    <input value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className={inputClass} />
+                                    <select
+                                        value={rule.tier}
+                                        onChange={e => updateRule(rule.id, { tier: e.target.value as RiskLevel })}
+                                        className={`bg-slate-950/80 border border-slate-700 rounded px-1 py-0.5 ${rule.tier === RiskLevel.HIGH ? 'text-red-400' : 'text-orange-400'}`}
+                                    >
+                                        <option value={RiskLevel.HIGH}>HIGH</option>
+                                        <option value={RiskLevel.MEDIUM}>MEDIUM</option>
+                                    </select>
+                                    <button onClick={() => onChangeRules(rules.filter(r => r.id !== rule.id))} className="text-slate-500 hover:text-red-400">
+                                        <Trash2 size={10} />
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-[5rem_1fr] gap-1">
+                                    <select
+                                        value={rule.scope}
+                                        onChange={e => updateRule(rule.id, { scope: e.target.value as AlertRuleScope, target: undefined })}
+                                        className="bg-slate-950/80 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+                                    >
+                                        <option value="ALL">ALL</option>
+                                        <option value="ASSET">ASSET</option>
+                                        <option value="MISSION">MISSION</option>
+                                    </select>
+                                    {rule.scope === 'ASSET' ? (
+                                        <select value={rule.target ?? ''} onChange={e => updateRule(rule.id, { target: e.target.value || undefined })} className={inputClass}>
+                                            <option value="">— SELECT ASSET —</option>
+                                            {assets.map(o => <option key={o.id} value={o.id}>{o.name} ({o.id})</option>)}
+                                        </select>
+                                    ) : rule.scope === 'MISSION' ? (
+                                        <>
+                                            <input
+                                                list={`missions-${rule.id}`}
+                                                value={rule.target ?? ''}
+                                                placeholder="MISSION"
+                                                onChange={e => updateRule(rule.id, { target: e.target.value || undefined })}
+                                                className={inputClass}
+                                            />
+                                            <datalist id={`missions-${rule.id}`}>
+                                                {missions.map(m => <option key={m} value={m} />)}
+                                            </datalist>
+                                        </>
+                                    ) : (
+                                        <span className="text-slate-500 self-center">EVERY OBJECT</span>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {THRESHOLD_FIELDS.map(f => (
+                                        <label key={f.key} className="flex flex-col gap-0.5 text-slate-500">
+                                            {f.label}
+                                            <input
+                                                type="number"
+                                                step="any"
+                                                min={0}
+                                                value={rule.thresholds[f.key] !== undefined ? rule.thresholds[f.key]! / f.scale : ''}
+                                                onChange={e => updateThreshold(rule, f.key, e.target.value, f.scale)}
+                                                className={inputClass}
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                                {errors.map(error => <div key={error} className="text-orange-400">{error}</div>)}
+                                {errors.length > 0 && rule.enabled && <div className="text-orange-400">Ignored until fixed</div>}
+                            </div>
+                        );
+                    })}
+                </div>
+                <button
+                    onClick={() => onChangeRules([...rules, newAlertRule()])}
+                    className="flex items-center justify-center gap-1 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 transition-all"
+                >
+                    <Plus size={10} /> ADD RULE
+                </button>
+
+                <div className="mt-2 text-slate-400 border-t border-cyan-900/50 pt-2">ESCALATION CHANNELS</div>
+                {channels.map(channel => {
+                    const delivery = deliveries.find(d => d.channelId === channel.id);
+                    return (
+                        <div key={channel.id} className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <input type="checkbox" checked={channel.enabled} onChange={() => toggleChannel(channel)} />
+                                <span className={`flex-1 ${channel.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{CHANNEL_LABELS[channel.kind]}</span>
+                                {delivery && (
+                                    <span
+                                        className={delivery.ok ? 'text-green-400' : 'text-red-400'}
+                                        title={delivery.error ?? `Delivered ${formatUtc(delivery.at).slice(11, 19)}`}
+                                    >
+                                        {delivery.ok ? 'OK' : 'FAILED'}
+                                    </span>
+                                )}
+                                <button onClick={() => onTestChannel(channel.id)} className="px-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500">
+                                    TEST
+                                </button>
+                            </div>
+                            {(channel.kind === 'WEBHOOK' || channel.kind === 'EMAIL') && (
+                                <input
+                                    value={channel.url ?? ''}
+                                    placeholder={channel.kind === 'WEBHOOK' ? 'https://hooks.example/sentinel' : 'MAIL RELAY URL'}
+                                    onChange={e => updateChannel(channel.id, { url: e.target.value })}
+                                    className={inputClass}
+                                />
+                            )}
+                            {channel.kind === 'EMAIL' && (
+                                <input
+                                    type="email"
+                                    value={channel.recipient ?? ''}
+                                    placeholder="ops@example.org"
+                                    onChange={e => updateChannel(channel.id, { recipient: e.target.value })}
+                                    className={inputClass}
+                                />
+                            )}
+                            {delivery && !delivery.ok && <div className="text-red-400 truncate" title={delivery.error}>{delivery.error}</div>}
+                        </div>
+                    );
+                })}
+            </div>
+        </GlassCard>
+    );
+};
+
+type MetadataNumberKey = 'noradId' | 'hardBodyRadius' | 'massKg' | 'areaToMass' | 'thrustN';
+
+const METADATA_NUMBER_FIELDS: { key: MetadataNumberKey, label: string }[] = [
+    { key: 'noradId', label: 'NORAD ID' },
+    { key: 'hardBodyRadius', label: 'HBR (m)' },
+    { key: 'massKg', label: 'MASS (kg)' },
+    { key: 'areaToMass', label: 'A/M (m²/kg)' },
+    { key: 'thrustN', label: 'THRUST (N)' },
+];
+
+interface AssetInspectorPanelProps {
+    objects: OrbitalObject[];
+    objectId: string | null;
+    onSelect: (objectId: string) => void;
+    onApply: (objectId: string, metadata: AssetMetadata) => void;
+}
+
+export const AssetInspectorPanel = ({ objects, objectId, onSelect, onApply }: AssetInspectorPanelProps) => {
+    const object = objects.find(o => o.id === objectId) ?? null;
+    const [draft, setDraft] = React.useState<AssetMetadata>({});
+    const [base, setBase] = React.useState<AssetMetadata>({}); // Catalog metadata the draft started from
+    const draftOf = React.useRef<string | null>(null);
+    const current = object ? pickMetadata(object) : {};
+    const currentKey = JSON.stringify(current);
+    const edited = JSON.stringify(pickMetadata(draft)) !== JSON.stringify(base);
+
+    // Edits are drafted locally; applying one re-screens the object's pairs. A feed update or
+    // re-screen that replaces the object keeps an edited draft (flagged below) and refreshes an untouched one
+    const reset = () => {
+        setBase(current);
+        setDraft(current);
+    };
+    React.useEffect(() => {
+        if (draftOf.current === objectId && edited && JSON.stringify(pickMetadata(draft)) !== currentKey) return;
+        draftOf.current = objectId;
+        reset();
+    }, [objectId, currentKey]);
+
+    const sorted = React.useMemo(
+        () => [...objects].sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'SATELLITE' ? -1 : 1),
+        [objects],
+    );
+
+    const set = (patch: Partial<AssetMetadata>) => setDraft(prev => ({ ...prev, ...patch }));
+    const errors = validateMetadata(draft);
+    const preview = object ? { ...object, ...draft, type: objectTypeForClass(objectClassOf({ ...object, ...draft })) } : null;
+    const dirty = object !== null && currentKey !== JSON.stringify(pickMetadata(draft));
+    const stale = dirty && edited && currentKey !== JSON.stringify(base);
+
+    return (
+        <GlassCard title="Asset Inspector" icon={<Database size={16} />}>
+            <div className="flex flex-col gap-2 text-[10px] font-mono">
+                <select value={objectId ?? ''} onChange={e => onSelect(e.target.value)} className={inputClass}>
+                    <option value="" disabled>— SELECT OBJECT —</option>
+                    {sorted.map(o => <option key={o.id} value={o.id}>{o.name} ({o.id})</option>)}
+                </select>
+                {object && preview && (
+                    <>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="flex flex-col gap-0.5 text-slate-500">
+                                COSPAR ID
+                                <input
+                                    value={draft.cosparId ?? ''}
+                                    placeholder="1998-067A"
+                                    onChange={e => set({ cosparId: e.target.value.trim().toUpperCase() || undefined })}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="flex flex-col gap-0.5 text-slate-500">
+                                OWNER / OPERATOR
+                                <input value={draft.owner ?? ''} onChange={e => set({ owner: e.target.value || undefined })} className={inputClass} />
+                            </label>
+                            <label className="flex flex-col gap-0.5 text-slate-500">
+                                CLASS
+                                <select
+                                    value={objectClassOf(preview)}
+                                    onChange={e => set({ objectClass: e.target.value as ObjectClass })}
+                                    className={inputClass}
+                                >
+                                    {OBJECT_CLASSES.map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-0.5 text-slate-500">
+                                RCS
+                                <select
+                                    value={draft.rcsSize ?? ''}
+                                    onChange={e => set({ rcsSize: (e.target.value || undefined) as RcsSize | undefined })}
+                                    className={inputClass}
+                                >
+                                    <option value="">UNKNOWN</option>
+                                    {RCS_SIZES.map(s => <option key={s} value={s}>{s}</option>)}
+                                </select>
+                            </label>
+                            {METADATA_NUMBER_FIELDS.map(f => (
+                                <label key={f.key} className="flex flex-col gap-0.5 text-slate-500">
+                                    {f.label}
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min={0}
+                                        value={draft[f.key] ?? ''}
+                                        // The Pc falls back to the class / RCS radius when none is set
+                                        placeholder={f.key === 'hardBodyRadius' ? String(hardBodyRadiusOf({ ...preview, hardBodyRadius: undefined })) : undefined}
+                                        onChange={e => set({ [f.key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        className={inputClass}
+                                    />
+                                </label>
+                            ))}
+                            <label className="flex flex-col gap-0.5 text-slate-500">
+                                MANEUVERABLE
+                                <select
+                                    value={draft.maneuverable === undefined ? '' : draft.maneuverable ? 'YES' : 'NO'}
+                                    onChange={e => set({ maneuverable: e.target.value === '' ? undefined : e.target.value === 'YES' })}
+                                    className={inputClass}
+                                >
+                                    <option value="">DEFAULT ({isManeuverable({ ...preview, maneuverable: undefined }) ? 'YES' : 'NO'})</option>
+                                    <option value="YES">YES</option>
+                                    <option value="NO">NO</option>
+                                </select>
+                            </label>
+                        </div>
+                        {errors.map(error => <div key={error} className="text-orange-400">{error}</div>)}
+                        {stale && <div className="text-orange-400">Catalog entry changed since editing started; APPLY overwrites it, REVERT loads it</div>}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={reset}
+                                disabled={!dirty}
+                                className="flex-1 py-1 border border-slate-700 rounded text-slate-300 hover:border-cyan-500 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                            >
+                                REVERT
+                            </button>
+                            <button
+                                onClick={() => onApply(object.id, draft)}
+                                disabled={!dirty || errors.length > 0}
+                                className="flex-1 py-1 border border-cyan-500/50 rounded text-cyan-400 hover:bg-cyan-500 hover:text-black transition-all disabled:opacity-40 disabled:pointer-events-none"
+                            >
+                                APPLY
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
+
+// Rows rendered at once; large catalogs are narrowed with the filters
+const SEARCH_RESULT_LIMIT = 100;
+
+interface CatalogSearchPanelProps {
+    objects: OrbitalObject[];
+    selectedId: string | null;
+    onSelect: (objectId: string) => void;
+}
+
+export const CatalogSearchPanel = ({ objects, selectedId, onSelect }: CatalogSearchPanelProps) => {
+    const [filter, setFilter] = React.useState<CatalogFilter>(DEFAULT_CATALOG_FILTER);
+    const owners = React.useMemo(() => catalogOwners(objects), [objects]);
+    const results = React.useMemo(() => filterCatalog(objects, filter), [objects, filter]);
+
+    const set = (patch: Partial<CatalogFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+    const degrees = (value: string) => value === '' ? undefined : Number(value);
+
+    return (
+        <GlassCard title="Catalog Search" icon={<Search size={16} />}>
+            <div className="flex flex-col gap-2 text-[10px] font-mono">
+                <input
+                    value={filter.query}
+                    placeholder="NAME, ID, NORAD OR COSPAR"
+                    onChange={e => set({ query: e.target.value })}
+                    className={inputClass}
+                />
+                <div className="grid grid-cols-3 gap-1">
+                    <select value={filter.objectClass} onChange={e => set({ objectClass: e.target.value as CatalogFilter['objectClass'] })} className={inputClass}>
+                        <option value="ALL">ALL CLASSES</option>
+                        {OBJECT_CLASSES.map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+                    </select>
+                    <select value={filter.owner} onChange={e => set({ owner: e.target.value })} className={inputClass}>
+                        <option value="">ALL OWNERS</option>
+                        {owners.map(o => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                    <select value={filter.band} onChange={e => set({ band: e.target.value as CatalogFilter['band'] })} className={inputClass}>
+                        <option value="ALL">ALL ALTITUDES</option>
+                        {ALTITUDE_BANDS.map(b => <option key={b.band} value={b.band}>{b.band}</option>)}
+                    </select>
+                </div>
+                <div className="flex items-center gap-1 text-slate-500">
+                    <span className="shrink-0">INC (deg)</span>
+                    <input
+                        type="number" min={0} max={180} step="any" placeholder="MIN"
+                        value={filter.minInclination ?? ''}
+                        onChange={e => set({ minInclination: degrees(e.target.value) })}
+                        className={inputClass}
+                    />
+                    <span>–</span>
+                    <input
+                        type="number" min={0} max={180} step="any" placeholder="MAX"
+                        value={filter.maxInclination ?? ''}
+                        onChange={e => set({ maxInclination: degrees(e.target.value) })}
+                        className={inputClass}
+                    />
+                    <button onClick={() => setFilter(DEFAULT_CATALOG_FILTER)} className="shrink-0 px-2 py-0.5 border border-slate-700 rounded text-slate-400 hover:border-cyan-500">
+                        RESET
+                    </button>
+                </div>
+                <div className="text-slate-500">{results.length} OF {objects.length} OBJECTS</div>
+                <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-0.5">
+                    {results.slice(0, SEARCH_RESULT_LIMIT).map(obj => {
+                        const orbit = orbitSummary(obj);
+                        return (
+                            <button
+                                key={obj.id}
+                                onClick={() => onSelect(obj.id)}
+                                className={`w-full grid grid-cols-[1fr_3rem_4rem_3rem] gap-1 px-1 py-0.5 rounded text-left border transition-all ${
+                                    obj.id === selectedId ? 'border-cyan-500 bg-cyan-900/40 text-cyan-200' : 'border-transparent text-slate-300 hover:bg-slate-800'
+                                }`}
+                            >
+                                <span className="truncate" title={obj.id}>
+                                    <span style={{ color: obj.color }}>●</span> {obj.name}
+                                </span>
+                                <span className="text-slate-500">{orbit.band}</span>
+                                <span className="text-right text-slate-400">{Math.round(orbit.meanAltitude)} km</span>
+                                <span className="text-right text-slate-400">{orbit.inclination.toFixed(1)}°</span>
+                            </button>
+                        );
+                    })}
+                    {results.length > SEARCH_RESULT_LIMIT && (
+                        <div className="text-slate-500 text-center py-1">+{results.length - SEARCH_RESULT_LIMIT} more; refine the filters</div>
+                    )}
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 3600)}h ${String(Math.floor(seconds % 3600 / 60)).padStart(2, '0')}m`;
+
+interface ObjectInspectorPanelProps {
+    object: OrbitalObject;
+    time: number; // s since Unix epoch
+    events: ConjunctionEvent[];
+    onSelectEvent: (conjunction: Conjunction) => void;
+    onClose: () => void;
+}
+
+export const ObjectInspectorPanel = ({ object, time, events, onSelectEvent, onClose }: ObjectInspectorPanelProps) => {
+    const orbit = orbitSummary(object);
+    const snapshot = snapshotObject(object, time);
+    const upcoming = upcomingEvents(events, object.id, time);
+    // The altitude history only needs refreshing once a minute of sim time
+    const minute = Math.floor(time / 60);
+    const history = React.useMemo(
+        () => orbitHistory(object, minute * 60).map(s => ({ hoursAgo: (s.t - minute * 60) / 3600, altitude: s.altitude })),
+        [object, minute]
+    );
+    const pastBurns = (object.burns ?? []).filter(b => b.burnEpoch / 1000 <= time && b.burnEpoch / 1000 >= time - ORBIT_HISTORY_SPAN);
+    const { a, e, i, O, w, M0 } = object.elements;
+    const deg = (rad: number) => `${(rad * 180 / Math.PI).toFixed(3)}°`;
+    const { position: r, velocity: v } = snapshot.state;
+
+    const row = (label: string, value: React.ReactNode) => (
+        <React.Fragment key={label}>
+            <span className="text-slate-500">{label}</span>
+            <span className="text-right text-slate-200">{value}</span>
+        </React.Fragment>
+    );
+
+    return (
+        <GlassCard title={object.name} icon={<Satellite size={16} />}>
+            <div className="flex flex-col gap-3 text-[10px] font-mono">
+                <div className="flex justify-between text-slate-400">
+                    <span>
+                        {object.id}
+                        {object.noradId !== undefined && ` · NORAD ${object.noradId}`}
+                        {object.cosparId && ` · ${object.cosparId}`}
+                    </span>
+                    <button onClick={onClose} className="text-slate-500 hover:text-cyan-300">CLOSE</button>
+                </div>
+                <div className="text-slate-400">
+                    {objectClassOf(object).replace('_', ' ')}{object.owner && ` · ${object.owner}`} · ELEMENTS {formatUtc(object.epoch).slice(0, 16)}
+                </div>
+
+                <div>
+                    <div className="text-cyan-600 mb-1">ORBIT</div>
+                    <div className="grid grid-cols-4 gap-x-2 gap-y-0.5">
+                        {row('ALT', `${Math.round(snapshot.geodetic.altitude)} km`)}
+                        {row('PERIOD', formatDuration(orbit.period))}
+                        {row('PERIGEE', `${Math.round(orbit.perigee)} km`)}
+                        {row('APOGEE', `${Math.round(orbit.apogee)} km`)}
+                        {row('LAT', `${snapshot.geodetic.latitude.toFixed(2)}°`)}
+                        {row('LON', `${snapshot.geodetic.longitude.toFixed(2)}°`)}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="text-cyan-600 mb-1">ELEMENTS</div>
+                    <div className="grid grid-cols-4 gap-x-2 gap-y-0.5">
+                        {row('a', `${a.toFixed(1)} km`)}
+                        {row('e', e.toFixed(5))}
+                        {row('i', deg(i))}
+                        {row('RAAN', deg(O))}
+                        {row('ω', deg(w))}
+                        {row('M0', deg(M0))}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="text-cyan-600 mb-1">STATE VECTOR (ECI)</div>
+                    <div className="grid grid-cols-[2rem_repeat(3,1fr)] gap-x-2 gap-y-0.5 text-right">
+                        <span className="text-left text-slate-500">r km</span>
+                        {[r.x, r.y, r.z].map((c, k) => <span key={k} className="text-slate-200">{c.toFixed(1)}</span>)}
+                        <span className="text-left text-slate-500">v km/s</span>
+                        {[v.x, v.y, v.z].map((c, k) => <span key={k} className="text-slate-200">{c.toFixed(4)}</span>)}
+                    </div>
+                    <div className="text-slate-500 mt-0.5">|v| {snapshot.speed.toFixed(4)} km/s</div>
+                </div>
+
+                <div>
+                    <div className="text-cyan-600 mb-1">UPCOMING EVENTS</div>
+                    {upcoming.length === 0 ? (
+                        <div className="text-slate-500">No open conjunctions.</div>
+                    ) : (
+                        <div className="space-y-0.5 max-h-28 overflow-y-auto custom-scrollbar">
+                            {upcoming.map(event => {
+                                const c = event.latest;
+                                return (
+                                    <button
+                                        key={event.id}
+                                        onClick={() => onSelectEvent(c)}
+                                        className="w-full grid grid-cols-[1fr_5rem_3.5rem] gap-1 px-1 py-0.5 rounded text-left hover:bg-slate-800"
+                                    >
+                                        <span className={`truncate ${c.riskLevel === RiskLevel.HIGH ? 'text-red-400' : c.riskLevel === RiskLevel.MEDIUM ? 'text-orange-400' : 'text-slate-300'}`}>
+                                            × {c.objectA === object.id ? c.nameB : c.nameA}
+                                        </span>
+                                        <span className="text-slate-400">T+{formatDuration(c.tca / 1000 - time)}</span>
+                                        <span className="text-right text-slate-200">{formatPc(c.probability)}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <div className="text-cyan-600 mb-1">ALTITUDE, LAST {ORBIT_HISTORY_SPAN / 3600}H</div>
+                    <div className="h-20 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <AreaChart data={history} margin={{ top: 2, right: 2, bottom: 0, left: -16 }}>
+                                <XAxis
+                                    type="number"
+                                    dataKey="hoursAgo"
+                                    domain={['dataMin', 0]}
+                                    tickFormatter={h => `${Math.round(h)}h`}
+                                    tick={{ fontSize: 9, fill: '#64748b' }}
+                                    stroke="#334155"
+                                />
+                                <YAxis domain={['dataMin', 'dataMax']} tickFormatter={km => `${Math.round(km)}`} tick={{ fontSize: 9, fill: '#64748b' }} stroke="#334155" />
+                                {pastBurns.map(b => (
+                                    <ReferenceLine key={b.burnEpoch} x={(b.burnEpoch / 1000 - minute * 60) / 3600} stroke="#4ade80" strokeDasharray="2 2" />
+                                ))}
+                                <Area type="monotone" dataKey="altitude" stroke="#06b6d4" fill="#06b6d4" fillOpacity={0.15} dot={false} isAnimationActive={false} />
+                            </AreaChart>
+                        </ResponsiveContainer>
+                    </div>
+                    {pastBurns.length > 0 && <div className="text-green-400">{pastBurns.length} burn(s) in this span</div>}
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
@@ -1,9 +1,11 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import { Sphere, Line, Stars, Html, Sparkles, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
-import { OrbitalObject, Vector3, Maneuver, Conjunction, RiskLevel } from '../types';
+import { OrbitalObject, Vector3, Maneuver, Conjunction, RiskLevel, BurnModel } from '../types';
 import { getPositionAtTime, getPostManeuverObject } from '../services/orbitalPhysics';
+import { gmst } from '../services/geodesy';
+import { createStateBuffer, refreshStates, writePositions, clusterPositions, PositionCluster } from '../services/renderStates';
 
 // Augment JSX.IntrinsicElements to satisfy TypeScript for R3F primitives
 // We augment both 'react' module (for new React types) and global JSX (for older setups)
@@ -19,6 +21,8 @@ declare module 'react' {
       boxGeometry: any;
       meshBasicMaterial: any;
       shaderMaterial: any;
+      instancedMesh: any;
+      icosahedronGeometry: any;
     }
   }
 }
@@ -35,6 +39,8 @@ declare global {
       boxGeometry: any;
       meshBasicMaterial: any;
       shaderMaterial: any;
+      instancedMesh: any;
+      icosahedronGeometry: any;
     }
   }
 }
@@ -198,7 +204,9 @@ const CloudMaterial = {
   `
 };
 
-const Earth = () => {
+// Earth-fixed frame: the spheres' poles (local Y) are tilted onto the inertial Z axis and
+// the globe turns about it by Greenwich sidereal time, so it matches ground tracks
+const Earth = ({ time }: { time: number }) => {
   const earthRef = useRef<THREE.ShaderMaterial>(null);
   const cloudRef = useRef<THREE.ShaderMaterial>(null);
   const groupRef = useRef<THREE.Group>(null);
@@ -213,7 +221,7 @@ const Earth = () => {
       cloudRef.current.uniforms.uTime.value = t;
     }
     if (groupRef.current) {
-       groupRef.current.rotation.y += 0.0005; 
+       groupRef.current.rotation.z = gmst(time);
     }
     if (cloudsMeshRef.current) {
         // Clouds rotate slightly faster
@@ -223,50 +231,52 @@ const Earth = () => {
 
   return (
     <group ref={groupRef}>
-      {/* 1. Occlusion Core (Deep Blue/Black) */}
-      <Sphere args={[9.95, 64, 64]}>
-        <meshBasicMaterial color="#020617" />
-      </Sphere>
-
-      {/* 2. Main Holographic Glass Surface */}
-      <Sphere args={[10, 128, 128]}>
-        <shaderMaterial
-            ref={earthRef}
-            args={[HologramMaterial]}
-            transparent={true}
-            blending={THREE.AdditiveBlending}
-            side={THREE.FrontSide}
-            depthWrite={false}
-        />
-      </Sphere>
-
-      {/* 3. Digital Cloud Layer */}
-      <mesh ref={cloudsMeshRef}>
-         <sphereGeometry args={[10.2, 64, 64]} />
-         <shaderMaterial 
-            ref={cloudRef}
-            args={[CloudMaterial]}
-            transparent={true}
-            blending={THREE.AdditiveBlending}
-            side={THREE.DoubleSide}
-            depthWrite={false}
-         />
-      </mesh>
-
-      {/* 4. Outer Atmosphere Glow */}
-      <Sphere args={[11.5, 32, 32]}>
-          <meshBasicMaterial
-            color="#3b82f6"
-            transparent
-            opacity={0.06}
-            side={THREE.BackSide}
-            blending={THREE.AdditiveBlending}
-            depthWrite={false}
+      <group rotation={[Math.PI / 2, 0, 0]}>
+        {/* 1. Occlusion Core (Deep Blue/Black) */}
+        <Sphere args={[9.95, 64, 64]}>
+          <meshBasicMaterial color="#020617" />
+        </Sphere>
+
+        {/* 2. Main Holographic Glass Surface */}
+        <Sphere args={[10, 128, 128]}>
+          <shaderMaterial
+              ref={earthRef}
+              args={[HologramMaterial]}
+              transparent={true}
+              blending={THREE.AdditiveBlending}
+              side={THREE.FrontSide}
+              depthWrite={false}
           />
-      </Sphere>
+        </Sphere>
+
+        {/* 3. Digital Cloud Layer */}
+        <mesh ref={cloudsMeshRef}>
+           <sphereGeometry args={[10.2, 64, 64]} />
+           <shaderMaterial 
+              ref={cloudRef}
+              args={[CloudMaterial]}
+              transparent={true}
+              blending={THREE.AdditiveBlending}
+              side={THREE.DoubleSide}
+              depthWrite={false}
+           />
+        </mesh>
+
+        {/* 4. Outer Atmosphere Glow */}
+        <Sphere args={[11.5, 32, 32]}>
+            <meshBasicMaterial
+              color="#3b82f6"
+              transparent
+              opacity={0.06}
+              side={THREE.BackSide}
+              blending={THREE.AdditiveBlending}
+              depthWrite={false}
+            />
+        </Sphere>
 
-       {/* 5. Floating Data Particles */}
-       <Sparkles count={150} scale={25} size={2} speed={0.4} opacity={0.5} color="#22d3ee" />
+         {/* 5. Floating Data Particles */}
+         <Sparkles count={150} scale={25} size={2} speed={0.4} opacity={0.5} color="#22d3ee" />
+      </group>
     </group>
   );
 };
@@ -384,27 +394,29 @@ const RiskIndicator: React.FC<{ risk: RiskLevel }> = ({ risk }) => {
     );
   };
 
-const OrbitPath: React.FC<{ object: OrbitalObject, color?: string, opacity?: number, risk?: RiskLevel }> = ({ object, color, opacity = 0.3, risk }) => {
+const OrbitPath: React.FC<{ object: OrbitalObject, color?: string, opacity?: number, risk?: RiskLevel, start?: number, width?: number }> = ({ object, color, opacity = 0.3, risk, start, width = 1 }) => {
     const points = useMemo(() => {
         const pts = [];
-        // Calculate one full orbit path
+        // Calculate one full orbit path, starting from the object's element epoch unless told otherwise
+        const period = (2 * Math.PI) / object.elements.n;
+        const t0 = start ?? object.epoch / 1000;
         for(let i=0; i<100; i++) {
-            const t = i * (6000 / 100);
+            const t = t0 + i * (period / 100);
             const pos = getPositionAtTime(object, t);
             pts.push(new THREE.Vector3(pos.x * SCENE_SCALE, pos.y * SCENE_SCALE, pos.z * SCENE_SCALE)); 
         }
         pts.push(pts[0]); // Close loop
         return pts;
-    }, [object]);
+    }, [object, start]);
 
     let finalColor = color || (object.type === 'SATELLITE' ? '#0891b2' : '#7f1d1d');
     let finalOpacity = opacity;
-    let lineWidth = 1;
+    let lineWidth = width;
 
     if (risk === RiskLevel.HIGH) {
         finalColor = '#ef4444';
         finalOpacity = 0.8;
-        lineWidth = 2;
+        lineWidth = Math.max(width, 2);
     } else if (risk === RiskLevel.MEDIUM) {
         finalColor = '#f97316';
         finalOpacity = 0.6;
@@ -463,99 +475,214 @@ const DebrisClusterMarker: React.FC<{ count: number, position: THREE.Vector3 }>
     );
   };
   
-  const DebrisField = ({ objects, time, riskMap }: { objects: OrbitalObject[], time: number, riskMap: Map<string, RiskLevel> }) => {
-    const { clusters, singles, critical } = useMemo(() => {
-        // Calculate positions for all debris in current frame
-        const data = objects.map(obj => {
-            const pos = getPositionAtTime(obj, time);
-            return {
-                obj,
-                vec: new THREE.Vector3(pos.x * SCENE_SCALE, pos.y * SCENE_SCALE, pos.z * SCENE_SCALE),
-                risk: riskMap.get(obj.name)
-            };
+// Real-time budget for re-propagating instanced objects each frame
+const REFRESH_BUDGET_MS = 4;
+// Grid clustering of the instanced field, refreshed a few times per second
+const CLUSTER_CELL = 2.5; // scene units
+const CLUSTER_MIN_COUNT = 6;
+const MAX_CLUSTERS = 24;
+const CLUSTER_INTERVAL = 0.5; // s (real time)
+
+/**
+ * Whole object set drawn as one InstancedMesh. Positions live in a typed array
+ * refreshed from a StateBuffer each frame and are copied straight into the
+ * instance matrices' translation slots.
+ */
+const InstancedField = ({ objects, time, radius = 0.1, onClusters }: {
+    objects: OrbitalObject[],
+    time: number,
+    radius?: number,
+    onClusters?: (clusters: PositionCluster[]) => void,
+}) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const timeRef = useRef(time);
+    timeRef.current = time;
+    const lastCluster = useRef(-Infinity);
+
+    const buffer = useMemo(() => createStateBuffer(objects), [objects]);
+    const positions = useMemo(() => new Float32Array(objects.length * 3), [objects]);
+
+    // Identity rotation/scale once; only the translation column changes per frame
+    useEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const color = new THREE.Color();
+        objects.forEach((obj, i) => {
+            mesh.setMatrixAt(i, new THREE.Matrix4());
+            mesh.setColorAt(i, color.set(obj.color));
         });
-  
-        const clusters: { center: THREE.Vector3, count: number, id: string }[] = [];
-        const singles: { obj: OrbitalObject, vec: THREE.Vector3 }[] = [];
-        const critical: { obj: OrbitalObject, vec: THREE.Vector3, risk: RiskLevel }[] = [];
-        const processed = new Set<number>();
-        
-        const CLUSTER_THRESHOLD = 2.5; 
-  
-        for(let i=0; i<data.length; i++) {
-            if(processed.has(i)) continue;
-            
-            // If High/Medium risk, always handle as individual critical item
-            if (data[i].risk && data[i].risk !== RiskLevel.LOW) {
-                critical.push({ obj: data[i].obj, vec: data[i].vec, risk: data[i].risk! });
-                processed.add(i);
-                continue;
-            }
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }, [objects]);
 
-            const group = [data[i]];
-            processed.add(i);
-            
-            for(let j=i+1; j<data.length; j++) {
-                if(processed.has(j)) continue;
-                // Don't cluster risky items
-                if (data[j].risk && data[j].risk !== RiskLevel.LOW) continue;
-
-                if(data[i].vec.distanceTo(data[j].vec) < CLUSTER_THRESHOLD) {
-                    group.push(data[j]);
-                    processed.add(j);
-                }
-            }
-  
-            if(group.length > 1) {
-                const center = new THREE.Vector3();
-                group.forEach(g => center.add(g.vec));
-                center.divideScalar(group.length);
-                clusters.push({ center, count: group.length, id: `cluster-${i}-${time}` });
-            } else {
-                singles.push(group[0]);
-            }
+    useFrame((state) => {
+        const mesh = meshRef.current;
+        if (!mesh || objects.length === 0) return;
+        const t = timeRef.current;
+        refreshStates(buffer, t, REFRESH_BUDGET_MS);
+        writePositions(buffer, t, positions, SCENE_SCALE);
+
+        const m = mesh.instanceMatrix.array as Float32Array;
+        for (let i = 0; i < objects.length; i++) {
+            m[i * 16 + 12] = positions[i * 3];
+            m[i * 16 + 13] = positions[i * 3 + 1];
+            m[i * 16 + 14] = positions[i * 3 + 2];
         }
-        
-        return { clusters, singles, critical };
-    }, [objects, time, riskMap]);
-  
+        mesh.instanceMatrix.needsUpdate = true;
+
+        const now = state.clock.getElapsedTime();
+        if (onClusters && now - lastCluster.current > CLUSTER_INTERVAL) {
+            lastCluster.current = now;
+            onClusters(clusterPositions(positions, objects.length, CLUSTER_CELL, CLUSTER_MIN_COUNT, MAX_CLUSTERS));
+        }
+    });
+
+    return (
+        <instancedMesh key={objects.length} ref={meshRef} args={[undefined, undefined, objects.length]} frustumCulled={false}>
+            <icosahedronGeometry args={[radius, 0]} />
+            <meshBasicMaterial toneMapped={false} />
+        </instancedMesh>
+    );
+};
+
+// Individually tracked object (risk overlays): repositioned every frame without React re-renders
+const TrackedMarker: React.FC<{ object: OrbitalObject, time: number, risk: RiskLevel }> = ({ object, time, risk }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    useFrame(() => {
+        if (!ref.current) return;
+        const pos = getPositionAtTime(object, time);
+        ref.current.position.set(pos.x * SCENE_SCALE, pos.y * SCENE_SCALE, pos.z * SCENE_SCALE);
+    });
+    return (
+        <mesh ref={ref}>
+            <sphereGeometry args={[0.15, 8, 8]} />
+            <meshBasicMaterial color={risk === RiskLevel.HIGH ? '#ef4444' : '#f97316'} toneMapped={false} />
+            <RiskIndicator risk={risk} />
+        </mesh>
+    );
+};
+
+const DebrisField = ({ objects, time, riskMap }: { objects: OrbitalObject[], time: number, riskMap: Map<string, RiskLevel> }) => {
+    const [clusters, setClusters] = React.useState<PositionCluster[]>([]);
+
+    // Risky debris keeps an individual marker on top of the instanced field
+    const critical = useMemo(
+        () => objects.filter(o => riskMap.has(o.id)).map(obj => ({ obj, risk: riskMap.get(obj.id)! })),
+        [objects, riskMap]
+    );
+
     return (
       <>
-          {singles.map(item => (
-              <mesh key={item.obj.id} position={item.vec}>
-                   <sphereGeometry args={[0.15, 8, 8]} />
-                   <meshBasicMaterial color={item.obj.color} toneMapped={false} />
-              </mesh>
-          ))}
+          <InstancedField objects={objects} time={time} onClusters={setClusters} />
           {clusters.map(cluster => (
-              <DebrisClusterMarker key={cluster.id} count={cluster.count} position={cluster.center} />
+              <DebrisClusterMarker key={cluster.key} count={cluster.count} position={new THREE.Vector3(...cluster.center)} />
           ))}
           {critical.map(item => (
-               <mesh key={item.obj.id} position={item.vec}>
-                   <sphereGeometry args={[0.15, 8, 8]} />
-                   <meshBasicMaterial color={item.risk === RiskLevel.HIGH ? '#ef4444' : '#f97316'} toneMapped={false} />
-                   <RiskIndicator risk={item.risk} />
-               </mesh>
+              <TrackedMarker key={item.obj.id} object={item.obj} time={time} risk={item.risk} />
           ))}
       </>
     )
-  };
+};
+
+// --- FOCUS ---
+
+const FOCUS_COLOR = '#facc15';
+const FLY_DURATION = 1.5; // s (real time)
+const FOCUS_DISTANCE = 14; // Camera distance from the focused object (scene units)
+const HOME_DISTANCE = 20; // Camera distance from Earth's centre once focus is cleared
+
+// Labelled marker for the focused object, which may otherwise only be an instance in a field
+const FocusMarker: React.FC<{ object: OrbitalObject, time: number }> = ({ object, time }) => {
+    const ref = useRef<THREE.Group>(null);
+    useFrame(() => {
+        if (!ref.current) return;
+        const pos = getPositionAtTime(object, time);
+        ref.current.position.set(pos.x * SCENE_SCALE, pos.y * SCENE_SCALE, pos.z * SCENE_SCALE);
+    });
+    return (
+        <group ref={ref}>
+            <Billboard follow={true}>
+                <mesh>
+                    <ringGeometry args={[0.35, 0.42, 32]} />
+                    <meshBasicMaterial color={FOCUS_COLOR} transparent opacity={0.9} side={THREE.DoubleSide} />
+                </mesh>
+            </Billboard>
+            <Html distanceFactor={20} zIndexRange={[110, 0]}>
+                <div className="pointer-events-none ml-4 text-[10px] font-mono px-2 py-0.5 rounded border whitespace-nowrap text-yellow-300 bg-black/80 border-yellow-500/60">
+                    {object.name}
+                </div>
+            </Html>
+        </group>
+    );
+};
+
+/**
+ * Flies the camera to the focused object, or back to Earth when focus is
+ * cleared, then keeps the object centred while it moves. Needs the orbit
+ * controls registered as the default controls.
+ */
+const CameraRig: React.FC<{ object: OrbitalObject | null, time: number }> = ({ object, time }) => {
+    const camera = useThree(state => state.camera);
+    const controls = useThree(state => state.controls) as unknown as { target: THREE.Vector3 } | null;
+    const focusedId = useRef<string | null>(null);
+    const flight = useRef<{ start: number | null, fromTarget: THREE.Vector3, fromCamera: THREE.Vector3 } | null>(null);
+    const goal = useMemo(() => new THREE.Vector3(), []);
+    const cameraGoal = useMemo(() => new THREE.Vector3(), []);
+
+    useEffect(() => {
+        const id = object?.id ?? null;
+        if (id === focusedId.current || !controls) return;
+        focusedId.current = id;
+        flight.current = { start: null, fromTarget: controls.target.clone(), fromCamera: camera.position.clone() };
+    }, [object?.id, controls, camera]);
+
+    useFrame((state) => {
+        if (!controls) return;
+        if (object) {
+            const pos = getPositionAtTime(object, time);
+            goal.set(pos.x * SCENE_SCALE, pos.y * SCENE_SCALE, pos.z * SCENE_SCALE);
+        } else {
+            goal.set(0, 0, 0);
+        }
+
+        const f = flight.current;
+        if (f) {
+            const now = state.clock.getElapsedTime();
+            f.start ??= now;
+            const k = THREE.MathUtils.smoothstep(now - f.start, 0, FLY_DURATION);
+            if (object) cameraGoal.copy(goal).addScaledVector(goal.clone().normalize(), FOCUS_DISTANCE);
+            else cameraGoal.copy(f.fromCamera).setLength(HOME_DISTANCE);
+            controls.target.lerpVectors(f.fromTarget, goal, k);
+            camera.position.lerpVectors(f.fromCamera, cameraGoal, k);
+            if (k >= 1) flight.current = null;
+        } else if (object) {
+            // Follow: shift the camera with the object so the operator can still orbit around it
+            camera.position.add(cameraGoal.subVectors(goal, controls.target));
+            controls.target.copy(goal);
+        }
+    });
+
+    return null;
+};
+
+// Above this many satellites, individual labelled markers are reserved for at-risk assets
+export const SATELLITE_MARKER_LIMIT = 200;
 
 interface SceneProps {
     objects: OrbitalObject[];
     time: number;
     maneuver: Maneuver | null;
+    burnModel?: BurnModel;
     alerts: Conjunction[];
+    focusId?: string | null; // Object the camera follows, with its orbit highlighted
 }
 
-const EarthScene: React.FC<SceneProps> = ({ objects, time, maneuver, alerts }) => {
+const EarthScene: React.FC<SceneProps> = ({ objects, time, maneuver, burnModel = 'FINITE', alerts, focusId = null }) => {
     
     const riskMap = useMemo(() => {
         const map = new Map<string, RiskLevel>();
         alerts.forEach(a => {
              if(a.riskLevel !== RiskLevel.LOW) {
-                 // Tag both objects in the conjunction with the risk
-                 // Note: We map by Name because Conjunction uses names
+                 // Tag both objects in the conjunction with the risk, keyed by object ID
                  map.set(a.objectA, a.riskLevel);
                  map.set(a.objectB, a.riskLevel);
             }
@@ -571,12 +698,22 @@ const EarthScene: React.FC<SceneProps> = ({ objects, time, maneuver, alerts }) =
         };
     }, [objects]);
 
+    // Large catalogs draw satellites instanced too; only at-risk ones get a labelled marker and path
+    const instancedSatellites = satellites.length > SATELLITE_MARKER_LIMIT;
+    const markedSatellites = useMemo(
+        () => instancedSatellites ? satellites.filter(o => riskMap.has(o.id)) : satellites,
+        [satellites, instancedSatellites, riskMap]
+    );
+    const riskyDebris = useMemo(() => debris.filter(o => riskMap.has(o.id)), [debris, riskMap]);
+
     const predictedObject = useMemo(() => {
         if (!maneuver) return null;
-        const target = objects.find(o => o.name === maneuver.targetId); 
+        const target = objects.find(o => o.id === maneuver.targetId);
         if (!target) return null;
-        return getPostManeuverObject(target, maneuver);
-    }, [maneuver, objects]);
+        return getPostManeuverObject(target, maneuver, burnModel);
+    }, [maneuver, objects, burnModel]);
+
+    const focusedObject = useMemo(() => objects.find(o => o.id === focusId) ?? null, [objects, focusId]);
 
   return (
     <>
@@ -586,7 +723,7 @@ const EarthScene: React.FC<SceneProps> = ({ objects, time, maneuver, alerts }) =
       
       <Stars radius={300} depth={50} count={6000} factor={4} saturation={0} fade speed={1} />
       
-      <Earth />
+      <Earth time={time} />
 
       {/* Radar Scan Animation */}
       <ExpandingRing delay={0} />
@@ -594,24 +731,32 @@ const EarthScene: React.FC<SceneProps> = ({ objects, time, maneuver, alerts }) =
       <ExpandingRing delay={4} />
       <ExpandingSphere delay={1} />
       
-      {satellites.map(obj => (
+      {instancedSatellites && <InstancedField objects={satellites} time={time} radius={0.12} />}
+      {markedSatellites.map(obj => (
           <React.Fragment key={obj.id}>
-              <SatelliteMarker object={obj} time={time} risk={riskMap.get(obj.name)} />
-              <OrbitPath object={obj} risk={riskMap.get(obj.name)} />
+              <SatelliteMarker object={obj} time={time} risk={riskMap.get(obj.id)} />
+              <OrbitPath object={obj} risk={riskMap.get(obj.id)} />
           </React.Fragment>
       ))}
 
       <DebrisField objects={debris} time={time} riskMap={riskMap} />
       
-      {/* Individual Orbit Paths for Debris (Highlight risky ones) */}
-      {debris.map(obj => {
-          const risk = riskMap.get(obj.name);
-          return <OrbitPath key={`path-${obj.id}`} object={obj} opacity={risk ? 0.8 : 0.1} risk={risk} />
-      })}
-
-      {predictedObject && (
-          <OrbitPath object={predictedObject} color="#4ade80" opacity={0.8} />
+      {/* Orbit paths only for debris involved in a conjunction */}
+      {riskyDebris.map(obj => (
+          <OrbitPath key={`path-${obj.id}`} object={obj} opacity={0.8} risk={riskMap.get(obj.id)} />
+      ))}
+
+      {predictedObject && maneuver && (
+          <OrbitPath object={predictedObject} color="#4ade80" opacity={0.8} start={maneuver.burnEpoch / 1000} />
+      )}
+
+      {focusedObject && (
+          <>
+              <OrbitPath object={focusedObject} color={FOCUS_COLOR} opacity={0.9} width={2.5} />
+              <FocusMarker object={focusedObject} time={time} />
+          </>
       )}
+      <CameraRig object={focusedObject} time={time} />
     </>
   );
 };
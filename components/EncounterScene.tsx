@@ -0,0 +1,180 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line, Html, Grid } from '@react-three/drei';
+import * as THREE from 'three';
+import { Conjunction, RiskLevel } from '../types';
+import { EncounterView, ViewEllipsoid, ViewVector, relativePositionAt } from '../services/encounterView';
+
+// The region of interest is scaled to this half-size in scene units
+const VIEW_HALF_SIZE = 5;
+// Real seconds for one replay of the pass through TCA
+const REPLAY_PERIOD = 6;
+const ELLIPSOID_SIGMA = 3;
+
+const PRIMARY_COLOR = '#22d3ee';
+const SECONDARY_COLOR = '#f97316';
+
+const toScene = (v: ViewVector, scale: number) => new THREE.Vector3(v[0] * scale, v[1] * scale, v[2] * scale);
+
+const formatKm = (km: number) => (km < 1 ? `${(km * 1000).toFixed(1)} m` : `${km.toFixed(3)} km`);
+
+const Label: React.FC<{ children: React.ReactNode, color?: string }> = ({ children, color = 'text-cyan-400 border-cyan-900/50' }) => (
+    <Html center distanceFactor={12} zIndexRange={[100, 0]}>
+        <div className={`pointer-events-none text-[10px] font-mono px-2 py-0.5 rounded border whitespace-nowrap bg-black/80 ${color}`}>
+            {children}
+        </div>
+    </Html>
+);
+
+const CovarianceEllipsoid: React.FC<{ ellipsoid: ViewEllipsoid, scale: number, color: string }> = ({ ellipsoid, scale, color }) => {
+    const quaternion = useMemo(() => {
+        const [u, v, w] = ellipsoid.axes;
+        const basis = new THREE.Matrix4().makeBasis(
+            new THREE.Vector3(...u), new THREE.Vector3(...v), new THREE.Vector3(...w),
+        );
+        return new THREE.Quaternion().setFromRotationMatrix(basis);
+    }, [ellipsoid]);
+
+    const radii = ellipsoid.radii.map(r => Math.max(r * scale * ELLIPSOID_SIGMA, 1e-3)) as [number, number, number];
+
+    return (
+        <group position={toScene(ellipsoid.center, scale)} quaternion={quaternion}>
+            <mesh scale={radii}>
+                <sphereGeometry args={[1, 32, 16]} />
+                <meshBasicMaterial color={color} transparent opacity={0.12} depthWrite={false} />
+            </mesh>
+            <mesh scale={radii}>
+                <sphereGeometry args={[1, 16, 8]} />
+                <meshBasicMaterial color={color} wireframe transparent opacity={0.35} />
+            </mesh>
+        </group>
+    );
+};
+
+// Closed ellipse in the B-plane (Z = 0)
+const ellipsePoints = (a: number, b: number, angle: number, center: [number, number] = [0, 0], segments = 96) => {
+    const ca = Math.cos(angle), sa = Math.sin(angle);
+    return Array.from({ length: segments + 1 }, (_, k) => {
+        const t = (2 * Math.PI * k) / segments;
+        const x = a * Math.cos(t), y = b * Math.sin(t);
+        return new THREE.Vector3(center[0] + x * ca - y * sa, center[1] + x * sa + y * ca, 0);
+    });
+};
+
+const BPlane: React.FC<{ view: EncounterView, scale: number }> = ({ view, scale }) => {
+    const { radii, angle } = view.bPlaneEllipse;
+    const size = VIEW_HALF_SIZE * 2;
+    const hbr = view.geometry.hardBodyRadius * scale;
+    const miss: [number, number] = [view.missPoint[0] * scale, view.missPoint[1] * scale];
+
+    return (
+        <group>
+            {/* Grid lies in the XZ plane by default; rotate it into Z = 0 */}
+            <Grid
+                args={[size, size]}
+                rotation={[Math.PI / 2, 0, 0]}
+                cellSize={size / 20}
+                sectionSize={size / 4}
+                cellColor="#164e63"
+                sectionColor="#0e7490"
+                fadeDistance={40}
+                side={THREE.DoubleSide}
+            />
+            {[1, ELLIPSOID_SIGMA].map(n => (
+                <Line
+                    key={n}
+                    points={ellipsePoints(radii[0] * scale * n, radii[1] * scale * n, angle)}
+                    color="#a78bfa"
+                    lineWidth={1}
+                    transparent
+                    opacity={n === 1 ? 0.9 : 0.5}
+                    dashed={n !== 1}
+                    dashSize={0.15}
+                    gapSize={0.1}
+                />
+            ))}
+            {/* Combined hard-body circle at the secondary's B-plane crossing */}
+            <Line points={ellipsePoints(Math.max(hbr, 0.02), Math.max(hbr, 0.02), 0, miss, 48)} color="#ef4444" lineWidth={2} />
+            <Line points={[new THREE.Vector3(0, 0, 0), new THREE.Vector3(miss[0], miss[1], 0)]} color="#ffffff" lineWidth={1} transparent opacity={0.6} />
+            <group position={[miss[0] / 2, miss[1] / 2, 0]}>
+                <Label color="text-white border-slate-600">MISS {formatKm(Math.hypot(view.geometry.missX, view.geometry.missZ))}</Label>
+            </group>
+            <group position={[miss[0], miss[1] - Math.max(hbr, 0.02) - 0.4, 0]}>
+                <Label color="text-red-400 border-red-900/50">HBR {formatKm(view.geometry.hardBodyRadius)}</Label>
+            </group>
+            <group position={[VIEW_HALF_SIZE * 0.8, VIEW_HALF_SIZE * 0.9, 0]}>
+                <Label color="text-slate-400 border-slate-700">B-PLANE</Label>
+            </group>
+        </group>
+    );
+};
+
+// Secondary marker replaying the pass through TCA
+const PassReplay: React.FC<{ view: EncounterView, scale: number, conjunction: Conjunction }> = ({ view, scale, conjunction }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const labelRef = useRef<HTMLSpanElement>(null);
+
+    useFrame((state) => {
+        const phase = (state.clock.getElapsedTime() % REPLAY_PERIOD) / REPLAY_PERIOD;
+        const dt = -view.halfSpan + 2 * view.halfSpan * phase;
+        const p = relativePositionAt(view, dt);
+        if (groupRef.current) groupRef.current.position.set(p[0] * scale, p[1] * scale, p[2] * scale);
+        if (labelRef.current) {
+            const range = Math.hypot(...p);
+            labelRef.current.textContent = `T${dt < 0 ? '-' : '+'}${Math.abs(dt * 1000).toFixed(0)}ms  ${formatKm(range)}`;
+        }
+    });
+
+    return (
+        <group ref={groupRef}>
+            <mesh>
+                <sphereGeometry args={[0.12, 12, 12]} />
+                <meshBasicMaterial color={conjunction.riskLevel === RiskLevel.HIGH ? '#ef4444' : SECONDARY_COLOR} toneMapped={false} />
+            </mesh>
+            <group position={[0, 0.5, 0]}>
+                <Label color="text-orange-300 border-orange-900/50">
+                    {conjunction.nameB} <span ref={labelRef} />
+                </Label>
+            </group>
+        </group>
+    );
+};
+
+interface EncounterSceneProps {
+    conjunction: Conjunction;
+    view: EncounterView;
+}
+
+const EncounterScene: React.FC<EncounterSceneProps> = ({ conjunction, view }) => {
+    const scale = VIEW_HALF_SIZE / view.extent;
+
+    const trajectory = useMemo(
+        () => view.trajectory.map(s => toScene(s.position, scale)),
+        [view, scale]
+    );
+
+    return (
+        <>
+            <ambientLight intensity={0.4} />
+
+            <BPlane view={view} scale={scale} />
+
+            <Line points={trajectory} color={SECONDARY_COLOR} lineWidth={1.5} transparent opacity={0.8} />
+            <CovarianceEllipsoid ellipsoid={view.primaryEllipsoid} scale={scale} color={PRIMARY_COLOR} />
+            <CovarianceEllipsoid ellipsoid={view.secondaryEllipsoid} scale={scale} color={SECONDARY_COLOR} />
+
+            {/* Primary at the origin */}
+            <mesh>
+                <sphereGeometry args={[0.12, 12, 12]} />
+                <meshBasicMaterial color={PRIMARY_COLOR} toneMapped={false} />
+                <group position={[0, -0.5, 0]}>
+                    <Label>{conjunction.nameA}</Label>
+                </group>
+            </mesh>
+
+            <PassReplay view={view} scale={scale} conjunction={conjunction} />
+        </>
+    );
+};
+
+export default EncounterScene;
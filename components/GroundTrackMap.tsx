@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { OrbitalObject, Conjunction, GroundStation, RiskLevel } from '../types';
+import { getPositionAtTime } from '../services/orbitalPhysics';
+import { eciToGeodetic, gmst, groundTrack, smallCircle, visibilityHalfAngle } from '../services/geodesy';
+import { EARTH_EQUATORIAL_RADIUS } from '../services/propagators';
+import { createStateBuffer, refreshStates, writePositions } from '../services/renderStates';
+import { SATELLITE_MARKER_LIMIT } from './EarthScene';
+
+// Ground tracks are recomputed when simulation time moves by this much
+const TRACK_REFRESH = 60; // s
+const TRACK_STEP = 30; // s
+// Past / future extent of each track, in orbital periods
+const TRACK_PAST = 0.5;
+const TRACK_FUTURE = 1.5;
+const DEFAULT_CIRCLE_ALTITUDE = 550; // km, when no satellite is selected
+// Catalog dots are drawn on a canvas of this many pixels per degree
+const CANVAS_SCALE = 4;
+const REFRESH_BUDGET_MS = 4;
+const DEG = 180 / Math.PI;
+
+// Equirectangular projection into a 360 x 180 viewBox
+const project = (latitude: number, longitude: number) => [longitude + 180, 90 - latitude];
+
+// SVG path through lat/lon points, lifting the pen where consecutive points wrap the antimeridian
+const toPath = (points: { latitude: number, longitude: number }[]) => points.map((p, k) => {
+    const [x, y] = project(p.latitude, p.longitude);
+    const jump = k === 0 || Math.abs(p.longitude - points[k - 1].longitude) > 180;
+    return `${jump ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)}`;
+}).join(' ');
+
+interface GroundTrackMapProps {
+    objects: OrbitalObject[];
+    time: number; // s since Unix epoch
+    alerts: Conjunction[];
+    stations: GroundStation[];
+    selectedAlert?: Conjunction | null;
+}
+
+const GroundTrackMap: React.FC<GroundTrackMapProps> = ({ objects, time, alerts, stations, selectedAlert }) => {
+    const trackEpoch = Math.floor(time / TRACK_REFRESH) * TRACK_REFRESH;
+
+    // Tracks and labels for the selected encounter and the assets at risk, then further satellites
+    // up to the marker limit; the rest of the catalog is a dot on the canvas
+    const trackedKey = useMemo(() => [...new Set([
+        ...(selectedAlert ? [selectedAlert.objectA, selectedAlert.objectB] : []),
+        ...alerts.map(a => a.objectA),
+    ])].sort().join('\n'), [alerts, selectedAlert]);
+
+    const tracked = useMemo(() => {
+        const ids = new Set(trackedKey.split('\n'));
+        const priority = objects.filter(o => ids.has(o.id));
+        const rest = objects.filter(o => o.type === 'SATELLITE' && !ids.has(o.id));
+        return [...priority, ...rest.slice(0, Math.max(0, SATELLITE_MARKER_LIMIT - priority.length))];
+    }, [objects, trackedKey]);
+
+    const tracks = useMemo(() => tracked.map(obj => {
+        const period = (2 * Math.PI) / obj.elements.n;
+        return {
+            obj,
+            past: groundTrack(obj, trackEpoch - TRACK_PAST * period, trackEpoch, TRACK_STEP),
+            future: groundTrack(obj, trackEpoch, trackEpoch + TRACK_FUTURE * period, TRACK_STEP),
+        };
+    }), [tracked, trackEpoch]);
+
+    // Visibility circles are drawn for the selected primary's altitude
+    const circleAltitude = useMemo(() => {
+        const primary = selectedAlert?.primary;
+        if (!primary) return DEFAULT_CIRCLE_ALTITUDE;
+        const { x, y, z } = primary.state.position;
+        return Math.hypot(x, y, z) - EARTH_EQUATORIAL_RADIUS;
+    }, [selectedAlert]);
+
+    const circles = useMemo(() => stations.map(s => ({
+        station: s,
+        path: toPath(smallCircle(s.latitude, s.longitude, visibilityHalfAngle(circleAltitude, s.minElevation))),
+    })), [stations, circleAltitude]);
+
+    // TCA location: sub-point of the primary at TCA
+    const tcaPoints = useMemo(() => alerts
+        .filter(a => a.primary)
+        .map(a => ({ alert: a, point: eciToGeodetic(a.primary!.state.position, a.tca / 1000) })),
+    [alerts]);
+
+    const positions = tracked.map(obj => {
+        const g = eciToGeodetic(getPositionAtTime(obj, time), time);
+        return { obj, xy: project(g.latitude, g.longitude) };
+    });
+
+    // Whole-catalog positions from the frame-rate state buffer, as geocentric sub-points
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const buffer = useMemo(() => createStateBuffer(objects), [objects]);
+    const eci = useMemo(() => new Float32Array(objects.length * 3), [objects]);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, 360 * CANVAS_SCALE, 180 * CANVAS_SCALE);
+        if (objects.length === 0) return;
+        refreshStates(buffer, time, REFRESH_BUDGET_MS);
+        writePositions(buffer, time, eci, 1);
+
+        const theta = gmst(time);
+        const dot = (i: number, size: number) => {
+            const x = eci[i * 3], y = eci[i * 3 + 1], z = eci[i * 3 + 2];
+            let longitude = (Math.atan2(y, x) - theta) * DEG;
+            longitude -= Math.floor((longitude + 180) / 360) * 360;
+            const [px, py] = project(Math.asin(z / Math.hypot(x, y, z)) * DEG, longitude);
+            ctx.fillRect(px * CANVAS_SCALE - size / 2, py * CANVAS_SCALE - size / 2, size, size);
+        };
+        ctx.globalAlpha = 0.7;
+        ctx.fillStyle = '#7f1d1d';
+        objects.forEach((obj, i) => { if (obj.type !== 'SATELLITE') dot(i, 1.5); });
+        ctx.globalAlpha = 1;
+        objects.forEach((obj, i) => {
+            if (obj.type !== 'SATELLITE') return;
+            ctx.fillStyle = obj.color;
+            dot(i, 3);
+        });
+    }, [objects, time, buffer, eci]);
+
+    return (
+        <div className="w-full h-full flex items-center justify-center bg-[#030712]">
+            <svg viewBox="0 0 360 180" preserveAspectRatio="xMidYMid meet" className="w-full h-full font-mono">
+                <rect x={0} y={0} width={360} height={180} fill="#020617" stroke="#164e63" strokeWidth={0.3} />
+
+                {/* Graticule */}
+                {Array.from({ length: 11 }, (_, k) => (k + 1) * 30).map(x => (
+                    <line key={`lon-${x}`} x1={x} y1={0} x2={x} y2={180} stroke="#0c4a6e" strokeWidth={x === 180 ? 0.3 : 0.15} />
+                ))}
+                {Array.from({ length: 5 }, (_, k) => (k + 1) * 30).map(y => (
+                    <line key={`lat-${y}`} x1={0} y1={y} x2={360} y2={y} stroke="#0c4a6e" strokeWidth={y === 90 ? 0.3 : 0.15} />
+                ))}
+                {[-150, -120, -90, -60, -30, 0, 30, 60, 90, 120, 150].map(lon => (
+                    <text key={`lonl-${lon}`} x={lon + 181} y={178} fontSize={2.5} fill="#155e75">{lon}°</text>
+                ))}
+                {[60, 30, 0, -30, -60].map(lat => (
+                    <text key={`latl-${lat}`} x={1} y={89 - lat} fontSize={2.5} fill="#155e75">{lat}°</text>
+                ))}
+
+                {/* Ground-station visibility circles */}
+                {circles.map(({ station, path }) => {
+                    const [x, y] = project(station.latitude, station.longitude);
+                    return (
+                        <g key={station.id}>
+                            <path d={path} fill="none" stroke="#22c55e" strokeWidth={0.3} strokeDasharray="1 0.6" opacity={0.7} />
+                            <rect x={x - 0.8} y={y - 0.8} width={1.6} height={1.6} fill="#22c55e" />
+                            <text x={x + 1.5} y={y - 1} fontSize={2.4} fill="#4ade80">{station.id}</text>
+                        </g>
+                    );
+                })}
+
+                {/* Satellite ground tracks: past dimmed, future bright */}
+                {tracks.map(({ obj, past, future }) => {
+                    const selected = selectedAlert?.objectA === obj.id;
+                    return (
+                        <g key={obj.id}>
+                            <path d={toPath(past)} fill="none" stroke={obj.color} strokeWidth={0.25} opacity={0.25} />
+                            <path d={toPath(future)} fill="none" stroke={selected ? '#ffffff' : obj.color} strokeWidth={selected ? 0.5 : 0.3} opacity={selected ? 0.9 : 0.6} />
+                        </g>
+                    );
+                })}
+
+                {/* Current positions: the catalog on a canvas, tracked objects marked and labelled */}
+                <foreignObject x={0} y={0} width={360} height={180} pointerEvents="none">
+                    <canvas ref={canvasRef} width={360 * CANVAS_SCALE} height={180 * CANVAS_SCALE} style={{ width: '100%', height: '100%', display: 'block' }} />
+                </foreignObject>
+                {positions.map(({ obj, xy }) => (
+                    <g key={obj.id}>
+                        <circle cx={xy[0]} cy={xy[1]} r={obj.type === 'SATELLITE' ? 1 : 0.6} fill={obj.type === 'SATELLITE' ? obj.color : '#ef4444'} stroke="#000" strokeWidth={0.2} />
+                        <text x={xy[0] + 1.5} y={xy[1] + 0.8} fontSize={2.2} fill="#67e8f9">{obj.name}</text>
+                    </g>
+                ))}
+
+                {/* TCA locations */}
+                {tcaPoints.map(({ alert, point }) => {
+                    const [x, y] = project(point.latitude, point.longitude);
+                    const color = alert.riskLevel === RiskLevel.HIGH ? '#ef4444' : '#f97316';
+                    const selected = selectedAlert?.id === alert.id;
+                    return (
+                        <g key={alert.id} stroke={selected ? '#ffffff' : color} strokeWidth={selected ? 0.6 : 0.4}>
+                            <line x1={x - 1.5} y1={y - 1.5} x2={x + 1.5} y2={y + 1.5} />
+                            <line x1={x - 1.5} y1={y + 1.5} x2={x + 1.5} y2={y - 1.5} />
+                            {selected && <circle cx={x} cy={y} r={2.5} fill="none" />}
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+export default GroundTrackMap;
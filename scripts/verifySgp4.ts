@@ -0,0 +1,100 @@
+import { parseTleCatalog } from '../services/tleParser';
+import { sgp4Init, sgp4, Sgp4Error } from '../services/sgp4';
+import { propagateChecked, propagationError } from '../services/propagators';
+
+/**
+ * SGP4 VERIFICATION
+ * Checks services/sgp4.ts against test cases from the verification set of
+ * Vallado, Crawford, Hujsak & Kelso, "Revisiting Spacetrack Report #3"
+ * (SGP4-VER.TLE / tcppver.out), including a deep-space (SDP4) Molniya orbit
+ * and an element set that decays during the run.
+ * Run with a TypeScript runner, e.g. `npx tsx scripts/verifySgp4.ts`;
+ * exits non-zero on any mismatch.
+ */
+
+const POSITION_TOLERANCE = 1e-3; // km
+const VELOCITY_TOLERANCE = 1e-6; // km/s
+
+interface Sgp4Case {
+  label: string;
+  line1: string;
+  line2: string;
+  // tsince (min from epoch) -> expected TEME [x, y, z] (km) and [vx, vy, vz] (km/s), or the error it must raise
+  expected: { tsince: number, state?: [number, number, number, number, number, number], error?: Sgp4Error }[];
+}
+
+const CASES: Sgp4Case[] = [
+  {
+    label: '00005 (near-earth, e = 0.19)',
+    line1: '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753',
+    line2: '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667',
+    expected: [
+      { tsince: 0, state: [7022.46529266, -1400.08296755, 0.03995155, 1.893841015, 6.405893759, 4.534807250] },
+      { tsince: 360, state: [-7154.03120202, -3783.17682504, -3536.19412294, 4.741887409, -4.151817765, -2.093935425] },
+    ],
+  },
+  {
+    label: '06251 (near-earth, drag)',
+    line1: '1 06251U 62025E   06176.82412014  .00008885  00000-0  12808-3 0  3985',
+    line2: '2 06251  58.0579  54.0425 0030035 139.1568 221.1854 15.56387291  6774',
+    expected: [
+      { tsince: 0, state: [3988.31022699, 5498.96657235, 0.90055879, -3.290032738, 2.357652820, 6.496623475] },
+    ],
+  },
+  {
+    label: '08195 (deep space, Molniya 12 h resonance)',
+    line1: '1 08195U 75081A   06176.33215444  .00000099  00000-0  11873-3 0   813',
+    line2: '2 08195  64.1586 279.0717 6877146 264.7651  20.2257  2.00491383225656',
+    expected: [
+      { tsince: 0, state: [2349.89483350, -14785.93811562, 0.02119378, 2.721488096, -3.256811655, 4.498416672] },
+    ],
+  },
+  {
+    label: '28872 (decays within the hour)',
+    line1: '1 28872U 05037B   05333.02012661  .25992681  00000-0  24476-3 0  1534',
+    line2: '2 28872  96.4736 157.9986 0303955 244.0492 110.6523 16.46015938 10708',
+    expected: [
+      { tsince: 60, error: Sgp4Error.DECAYED },
+    ],
+  },
+];
+
+let failures = 0;
+const fail = (message: string) => {
+  failures++;
+  console.error(`FAIL ${message}`);
+};
+
+CASES.forEach(({ label, line1, line2, expected }) => {
+  const parsed = parseTleCatalog(`${label}\n${line1}\n${line2}`);
+  const obj = parsed.objects[0];
+  if (!obj?.tle) {
+    fail(`${label}: ${parsed.errors.map(e => e.message).join('; ') || 'not parsed'}`);
+    return;
+  }
+  const satrec = sgp4Init(obj.tle);
+
+  expected.forEach(({ tsince, state, error }) => {
+    const result = sgp4(satrec, tsince);
+    if (error !== undefined) {
+      if (result || satrec.error !== error) fail(`${label} @ ${tsince} min: expected error ${error}, got ${satrec.error}`);
+      // The app-level check must report it too, so screening leaves the object out
+      const t = obj.epoch / 1000 + tsince * 60;
+      if (propagateChecked(obj, t) || !propagationError(obj, t)) fail(`${label} @ ${tsince} min: failure not flagged`);
+      return;
+    }
+    if (!result || !state) {
+      fail(`${label} @ ${tsince} min: SGP4 error ${satrec.error}`);
+      return;
+    }
+    const { position: p, velocity: v } = result;
+    const dr = Math.hypot(p.x - state[0], p.y - state[1], p.z - state[2]);
+    const dv = Math.hypot(v.x - state[3], v.y - state[4], v.z - state[5]);
+    if (dr > POSITION_TOLERANCE || dv > VELOCITY_TOLERANCE) {
+      fail(`${label} @ ${tsince} min: position off by ${dr.toExponential(2)} km, velocity by ${dv.toExponential(2)} km/s`);
+    }
+  });
+});
+
+console.log(failures === 0 ? `All ${CASES.length} SGP4 cases match` : `${failures} SGP4 check(s) failed`);
+if (failures > 0) process.exitCode = 1;
@@ -0,0 +1,90 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { CatalogUpdate } from '../types';
+import { CatalogFeedMessage, FEED_EVENT } from '../services/apiContract';
+
+/**
+ * FEED REPLAY
+ * Plays a recorded catalog update stream back over Server-Sent Events, for
+ * testing the live feed offline. Recordings are JSON files of updates with
+ * their offset (s) from the start of the recording; object and burn epochs are
+ * shifted by the time between recording and replay so they stay current.
+ * Each connection gets its own replay, resumed after Last-Event-ID on
+ * reconnect. SENTINEL_FEED_FILE selects the recording and SENTINEL_FEED_SPEED
+ * speeds it up.
+ */
+
+interface FeedRecording {
+  recordedAt: number; // ms since Unix epoch
+  description?: string;
+  messages: { offset: number, update: CatalogUpdate }[];
+}
+
+const DEFAULT_RECORDING = 'server/feeds/sample-feed.json';
+const HEARTBEAT_INTERVAL = 15 * 1000; // ms
+const RECONNECT_DELAY = 3000; // ms, suggested to the client
+
+const loadRecording = (): FeedRecording => {
+  const file = resolve(process.env.SENTINEL_FEED_FILE ?? DEFAULT_RECORDING);
+  const recording = JSON.parse(readFileSync(file, 'utf8')) as FeedRecording;
+  return { ...recording, messages: [...recording.messages].sort((a, b) => a.offset - b.offset) };
+};
+
+// Moves every epoch in an update by shift (ms)
+const rebase = (update: CatalogUpdate, shift: number): CatalogUpdate => {
+  switch (update.kind) {
+    case 'OBJECT_ADDED':
+    case 'ELEMENTS_UPDATED':
+      return {
+        ...update,
+        object: {
+          ...update.object,
+          epoch: update.object.epoch + shift,
+          burns: update.object.burns?.map(b => ({ ...b, burnEpoch: b.burnEpoch + shift })),
+        },
+      };
+    case 'MANEUVER':
+      return { ...update, burn: { ...update.burn, burnEpoch: update.burn.burnEpoch + shift } };
+    default:
+      return update;
+  }
+};
+
+export const streamRecordedFeed = (req: IncomingMessage, res: ServerResponse): void => {
+  let recording: FeedRecording;
+  try {
+    recording = loadRecording();
+  } catch (e) {
+    res.statusCode = 500;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: `Feed recording unavailable: ${(e as Error).message}` }));
+    return;
+  }
+
+  const speed = Math.max(Number(process.env.SENTINEL_FEED_SPEED ?? 1) || 1, 1e-3);
+  const lastSeq = Number(req.headers['last-event-id'] ?? 0) || 0;
+  // Sequence numbers are 1-based positions in the recording
+  const pending = recording.messages.map((m, k) => ({ ...m, seq: k + 1 })).filter(m => m.seq > lastSeq);
+  const resumeOffset = lastSeq > 0 ? recording.messages[Math.min(lastSeq, recording.messages.length) - 1].offset : 0;
+  const start = Date.now();
+  const shift = start - resumeOffset * 1000 - recording.recordedAt;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  const timers = pending.map(m => setTimeout(() => {
+    const message: CatalogFeedMessage = { seq: m.seq, sentAt: Date.now(), update: rebase(m.update, shift) };
+    res.write(`id: ${m.seq}\nevent: ${FEED_EVENT}\ndata: ${JSON.stringify(message)}\n\n`);
+  }, ((m.offset - resumeOffset) * 1000) / speed));
+  const heartbeat = setInterval(() => res.write(': keepalive\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    timers.forEach(clearTimeout);
+    clearInterval(heartbeat);
+  });
+};
@@ -0,0 +1,154 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { OrbitalObject } from '../types';
+import { screenCatalog } from '../services/orbitalPhysics';
+import { planAvoidanceManeuver, screenManeuver } from '../services/maneuverPlanner';
+import { applyCatalogUpdates } from '../services/catalogFeed';
+import { streamRecordedFeed } from './feedReplay';
+import {
+  API_PATHS, ApiErrorResponse, CatalogPatchRequest, CatalogPatchResponse, CatalogResponse, CatalogUpdateRequest, CatalogUpdateResponse, ManeuverPlanApiRequest,
+  ManeuverPlanApiResponse, ManeuverScreeningApiRequest, ManeuverScreeningApiResponse, ScreeningApiRequest, ScreeningApiResponse,
+  AlertNotification, EmailRelayRequest, NotificationLogResponse,
+} from '../services/apiContract';
+
+/**
+ * MOCK SENTINEL BACKEND
+ * Node stand-in for the backend, implementing services/apiContract.ts on top
+ * of the same engine the browser runs (orbitalPhysics.ts, maneuverPlanner.ts),
+ * so the HTTP client can be exercised end to end offline. `npm run dev:mock`
+ * mounts it under /api on the Vite dev server and points the UI at it.
+ * SENTINEL_MOCK_LATENCY (ms) delays every response to exercise loading states.
+ * The live feed is a replay of a recorded update stream (see feedReplay.ts).
+ * /notifications stands in for a webhook and a mail relay: it keeps
+ * the notifications posted to it so alert channels can be tested.
+ */
+
+// Catalogs are uploaded whole; 30k objects with element sets stay well under this
+const MAX_BODY_BYTES = 256 * 1024 * 1024;
+
+let catalog: OrbitalObject[] = [];
+let revision = 0;
+const MAX_NOTIFICATIONS = 100;
+let notifications: NotificationLogResponse['received'] = [];
+
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+const readJson = <T>(req: IncomingMessage): Promise<T> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(httpError(413, `Request body exceeds ${MAX_BODY_BYTES / (1024 * 1024)} MB`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')) as T);
+    } catch (e) {
+      reject(httpError(400, `Malformed JSON body: ${(e as Error).message}`));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const requireRevision = (requested: number) => {
+  if (requested !== revision) throw httpError(409, `Catalog revision ${requested} is stale; current revision is ${revision}`);
+};
+
+// Engine errors (no TCA state, burn in the past, unknown asset) are the client's to fix
+const unprocessable = <T>(fn: () => T): T => {
+  try {
+    return fn();
+  } catch (e) {
+    throw httpError(422, (e as Error).message);
+  }
+};
+
+const route = async (req: IncomingMessage, path: string): Promise<unknown> => {
+  switch (`${req.method} ${path}`) {
+    case `GET ${API_PATHS.catalog}`:
+      return { revision, objects: catalog } satisfies CatalogResponse;
+
+    case `PUT ${API_PATHS.catalog}`: {
+      const { objects } = await readJson<CatalogUpdateRequest>(req);
+      if (!Array.isArray(objects)) throw httpError(400, 'objects must be an array');
+      catalog = objects;
+      revision++;
+      return { revision, count: catalog.length } satisfies CatalogUpdateResponse;
+    }
+
+    case `PATCH ${API_PATHS.catalog}`: {
+      const { revision: requested, updates } = await readJson<CatalogPatchRequest>(req);
+      requireRevision(requested);
+      if (!Array.isArray(updates)) throw httpError(400, 'updates must be an array');
+      const patch = applyCatalogUpdates(catalog, updates);
+      catalog = patch.objects;
+      revision++;
+      return { revision, affectedIds: patch.affectedIds } satisfies CatalogPatchResponse;
+    }
+
+    case `POST ${API_PATHS.screenings}`: {
+      const { revision: requested, time, options, objectIds } = await readJson<ScreeningApiRequest>(req);
+      requireRevision(requested);
+      if (!Number.isFinite(time)) throw httpError(400, 'time must be seconds since the Unix epoch');
+      const { conjunctions, stats } = screenCatalog(catalog, time, options, undefined, objectIds);
+      return { revision, time, conjunctions, stats } satisfies ScreeningApiResponse;
+    }
+
+    case `POST ${API_PATHS.maneuverPlans}`: {
+      const { conjunction, time, options } = await readJson<ManeuverPlanApiRequest>(req);
+      const maneuver = unprocessable(() => planAvoidanceManeuver(conjunction, time, options));
+      return { maneuver } satisfies ManeuverPlanApiResponse;
+    }
+
+    case `POST ${API_PATHS.maneuverScreenings}`: {
+      const { revision: requested, maneuver, burnModel } = await readJson<ManeuverScreeningApiRequest>(req);
+      requireRevision(requested);
+      const screening = unprocessable(() => screenManeuver(catalog, maneuver, burnModel));
+      return { screening } satisfies ManeuverScreeningApiResponse;
+    }
+
+    case `POST ${API_PATHS.notifications}`: {
+      const body = await readJson<AlertNotification | EmailRelayRequest>(req);
+      if (typeof body !== 'object' || body === null) throw httpError(400, 'Expected a notification object');
+      notifications = [...notifications, { receivedAt: new Date().toISOString(), body }].slice(-MAX_NOTIFICATIONS);
+      return { received: notifications.length };
+    }
+
+    case `GET ${API_PATHS.notifications}`:
+      return { received: notifications } satisfies NotificationLogResponse;
+
+    default:
+      throw httpError(404, `No route for ${req.method} ${path}`);
+  }
+};
+
+// Request handler; req.url is relative to the API root (the /api prefix already stripped)
+export const handleMockApiRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+  if (req.method === 'GET' && path === API_PATHS.feed) {
+    streamRecordedFeed(req, res);
+    return;
+  }
+
+  const latency = Number(process.env.SENTINEL_MOCK_LATENCY ?? 0);
+  if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency));
+
+  try {
+    send(res, 200, await route(req, path));
+  } catch (e) {
+    const status = (e as Partial<HttpError>).status ?? 500;
+    send(res, status, { error: (e as Error).message } satisfies ApiErrorResponse);
+  }
+};
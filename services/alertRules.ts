@@ -0,0 +1,129 @@
+import { AlertRule, Conjunction, ConjunctionEvent, OrbitalObject, RiskLevel } from '../types';
+import { PC_HIGH_THRESHOLD, PC_MEDIUM_THRESHOLD } from './collisionProbability';
+
+/**
+ * ALERT RULES
+ * Operator-defined thresholds on Pc, miss distance, radial miss and time to
+ * TCA, scoped to the whole catalog, one asset or one mission. A conjunction
+ * lands in the highest tier of the enabled rules it matches, LOW otherwise;
+ * LOW screening results are not tracked as events. Rules that fail
+ * validation are ignored until they are fixed.
+ */
+
+// Reproduces the fixed Pc tiers the screening reports on its own
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-high',
+    name: 'Pc red threshold',
+    enabled: true,
+    scope: 'ALL',
+    tier: RiskLevel.HIGH,
+    thresholds: { pc: PC_HIGH_THRESHOLD },
+  },
+  {
+    id: 'default-medium',
+    name: 'Pc yellow threshold',
+    enabled: true,
+    scope: 'ALL',
+    tier: RiskLevel.MEDIUM,
+    thresholds: { pc: PC_MEDIUM_THRESHOLD },
+  },
+];
+
+const TIER_RANK: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+};
+
+// --- MATCHING ---
+
+// |Radial| separation at TCA in the primary's RTN frame (km); null without state vectors
+export const radialMiss = (c: Conjunction): number | null => {
+  if (!c.primary || !c.secondary) return null;
+  const p = c.primary.state.position, s = c.secondary.state.position;
+  const r = Math.hypot(p.x, p.y, p.z);
+  return Math.abs(((s.x - p.x) * p.x + (s.y - p.y) * p.y + (s.z - p.z) * p.z) / r);
+};
+
+const inScope = (rule: AlertRule, c: Conjunction, objects: Map<string, OrbitalObject>) => {
+  switch (rule.scope) {
+    case 'ALL':
+      return true;
+    case 'ASSET':
+      return rule.target === c.objectA || rule.target === c.objectB;
+    case 'MISSION':
+      return !!rule.target && [c.objectA, c.objectB].some(id => objects.get(id)?.mission === rule.target);
+  }
+};
+
+// epoch: s since Unix epoch, the reference for time to TCA
+export const ruleMatches = (rule: AlertRule, c: Conjunction, epoch: number, objects: Map<string, OrbitalObject>): boolean => {
+  if (!rule.enabled || !inScope(rule, c, objects)) return false;
+  const { pc, missDistance, radialMiss: radial, timeToTca } = rule.thresholds;
+  if (pc !== undefined && !(c.probability >= pc)) return false;
+  if (missDistance !== undefined && !(c.missDistance <= missDistance)) return false;
+  if (radial !== undefined) {
+    const miss = radialMiss(c);
+    if (miss === null || miss > radial) return false;
+  }
+  if (timeToTca !== undefined && c.tca / 1000 - epoch > timeToTca) return false;
+  return true;
+};
+
+/**
+ * Re-tiers conjunctions by the rules. The id of the deciding rule is kept on
+ * each result; the first rule listed wins between rules of the same tier.
+ */
+export const classifyConjunctions = (
+  conjunctions: Conjunction[], rules: AlertRule[], epoch: number, objects: OrbitalObject[],
+): Conjunction[] => {
+  const byId = new Map(objects.map(o => [o.id, o]));
+  const valid = rules.filter(r => validateRule(r).length === 0);
+  return conjunctions.map(c => {
+    let best: AlertRule | null = null;
+    for (const rule of valid) {
+      if ((!best || TIER_RANK[rule.tier] > TIER_RANK[best.tier]) && ruleMatches(rule, c, epoch, byId)) best = rule;
+    }
+    return { ...c, riskLevel: best?.tier ?? RiskLevel.LOW, ruleId: best?.id };
+  });
+};
+
+// Events that need an announcement: a tier or Pc escalation, or a new event above LOW
+export const findEscalations = (prev: ConjunctionEvent[], next: ConjunctionEvent[]): ConjunctionEvent[] => {
+  const before = new Map(prev.map(e => [e.id, e]));
+  return next.filter(e => {
+    const old = before.get(e.id);
+    if (!old) return e.status === 'ESCALATED' || (e.status === 'NEW' && e.latest.riskLevel !== RiskLevel.LOW);
+    return e.status === 'ESCALATED' && e.updatedAt !== old.updatedAt;
+  });
+};
+
+// --- EDITING ---
+
+// Starts disabled, at the yellow Pc threshold, so it changes nothing until the operator enables it
+export const newAlertRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: 'New rule',
+  enabled: false,
+  scope: 'ALL',
+  tier: RiskLevel.MEDIUM,
+  thresholds: { pc: PC_MEDIUM_THRESHOLD },
+});
+
+// Problems that keep a rule from working as the operator likely intends
+export const validateRule = (rule: AlertRule): string[] => {
+  const errors: string[] = [];
+  const { pc, missDistance, radialMiss: radial, timeToTca } = rule.thresholds;
+  if (!rule.name.trim()) errors.push('Name is required');
+  if (rule.scope !== 'ALL' && !rule.target) errors.push(`${rule.scope === 'ASSET' ? 'Asset' : 'Mission'} is required`);
+  if (pc !== undefined && !(pc > 0 && pc <= 1)) errors.push('Pc must be in (0, 1]');
+  if (missDistance !== undefined && !(missDistance > 0)) errors.push('Miss distance must be positive');
+  if (radial !== undefined && !(radial > 0)) errors.push('Radial miss must be positive');
+  if (timeToTca !== undefined && !(timeToTca > 0)) errors.push('Time to TCA must be positive');
+  if (rule.tier === RiskLevel.LOW) errors.push('Tier LOW has no effect; unmatched conjunctions are LOW');
+  if (pc === undefined && missDistance === undefined && radial === undefined && timeToTca === undefined) {
+    errors.push('No thresholds: every conjunction in scope matches');
+  }
+  return errors;
+};
@@ -0,0 +1,124 @@
+import { Maneuver, OrbitalObject } from '../types';
+import { ScreeningProgressCallback } from './orbitalPhysics';
+import { planAvoidanceManeuver, ManeuverScreening } from './maneuverPlanner';
+import { screenConjunctionsAsync, screenManeuverAsync } from './screeningClient';
+import { applyCatalogUpdates } from './catalogFeed';
+import {
+  API_PATHS, ApiErrorResponse, CatalogPatchRequest, CatalogPatchResponse, CatalogResponse, CatalogUpdateRequest, CatalogUpdateResponse, ManeuverPlanApiRequest,
+  ManeuverPlanApiResponse, ManeuverScreeningApiRequest, ManeuverScreeningApiResponse, ScreeningApiRequest, ScreeningApiResponse,
+} from './apiContract';
+
+/**
+ * SENTINEL API CLIENT
+ * Typed access to the catalog, screening and maneuver-planning endpoints.
+ * With an API URL configured (SENTINEL_API_URL) calls go to the backend over
+ * HTTP; without one the same contract is served in the browser by the
+ * screening worker and the local planner, so the UI also runs standalone.
+ */
+
+export type ApiMode = 'REMOTE' | 'LOCAL';
+
+export interface SentinelApi {
+  mode: ApiMode;
+  getCatalog: () => Promise<CatalogResponse>;
+  putCatalog: (objects: OrbitalObject[]) => Promise<CatalogUpdateResponse>;
+  patchCatalog: (request: CatalogPatchRequest) => Promise<CatalogPatchResponse>;
+  // Progress is only reported by the local engine
+  screen: (request: ScreeningApiRequest, onProgress?: ScreeningProgressCallback) => Promise<ScreeningApiResponse>;
+  planManeuver: (request: ManeuverPlanApiRequest) => Promise<Maneuver>;
+  screenManeuver: (request: ManeuverScreeningApiRequest) => Promise<ManeuverScreening>;
+}
+
+// Screening a large catalog can take a while on the server
+const SCREENING_TIMEOUT = 5 * 60 * 1000; // ms
+const REQUEST_TIMEOUT = 30 * 1000; // ms
+
+// --- HTTP ---
+
+const request = async <T>(baseUrl: string, method: 'GET' | 'PUT' | 'PATCH' | 'POST', path: string, body?: unknown, timeoutMs: number = REQUEST_TIMEOUT): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (e) {
+    const reason = (e as Error).name === 'TimeoutError' ? `no response within ${timeoutMs / 1000} s` : (e as Error).message;
+    throw new Error(`SENTINEL API unreachable (${method} ${path}): ${reason}`);
+  }
+
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error((payload as ApiErrorResponse | null)?.error ?? `${method} ${path} failed: HTTP ${res.status}`);
+  }
+  return payload as T;
+};
+
+export const createHttpApi = (baseUrl: string): SentinelApi => {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    mode: 'REMOTE',
+    getCatalog: () => request<CatalogResponse>(root, 'GET', API_PATHS.catalog),
+    putCatalog: objects => request<CatalogUpdateResponse>(root, 'PUT', API_PATHS.catalog, { objects } satisfies CatalogUpdateRequest),
+    patchCatalog: req => request<CatalogPatchResponse>(root, 'PATCH', API_PATHS.catalog, req),
+    screen: req => request<ScreeningApiResponse>(root, 'POST', API_PATHS.screenings, req, SCREENING_TIMEOUT),
+    planManeuver: req => request<ManeuverPlanApiResponse>(root, 'POST', API_PATHS.maneuverPlans, req).then(r => r.maneuver),
+    screenManeuver: req => request<ManeuverScreeningApiResponse>(root, 'POST', API_PATHS.maneuverScreenings, req, SCREENING_TIMEOUT)
+      .then(r => r.screening),
+  };
+};
+
+// --- LOCAL ---
+
+const staleRevision = (requested: number, current: number) =>
+  new Error(`Catalog revision ${requested} is stale; current revision is ${current}`);
+
+// Runs a synchronous engine call as a promise so both modes fail the same way
+const attempt = <T>(fn: () => T): Promise<T> => {
+  try {
+    return Promise.resolve(fn());
+  } catch (e) {
+    return Promise.reject(e);
+  }
+};
+
+export const createLocalApi = (): SentinelApi => {
+  let catalog: OrbitalObject[] = [];
+  let revision = 0;
+
+  return {
+    mode: 'LOCAL',
+    getCatalog: () => Promise.resolve({ revision, objects: catalog }),
+    putCatalog: objects => {
+      catalog = objects;
+      revision++;
+      return Promise.resolve({ revision, count: objects.length });
+    },
+    patchCatalog: req => {
+      if (req.revision !== revision) return Promise.reject(staleRevision(req.revision, revision));
+      const patch = applyCatalogUpdates(catalog, req.updates);
+      catalog = patch.objects;
+      revision++;
+      return Promise.resolve({ revision, affectedIds: patch.affectedIds });
+    },
+    screen: (req, onProgress) => {
+      if (req.revision !== revision) return Promise.reject(staleRevision(req.revision, revision));
+      return screenConjunctionsAsync(catalog, req.time, req.options, onProgress, req.objectIds)
+        .then(({ conjunctions, stats }) => ({ revision: req.revision, time: req.time, conjunctions, stats }));
+    },
+    planManeuver: req => attempt(() => planAvoidanceManeuver(req.conjunction, req.time, req.options)),
+    screenManeuver: req => {
+      if (req.revision !== revision) return Promise.reject(staleRevision(req.revision, revision));
+      return screenManeuverAsync(catalog, req.maneuver, req.burnModel);
+    },
+  };
+};
+
+// --- DEFAULT ---
+
+// Backend base URL, injected at build time; empty runs the engine in the browser
+const API_URL = process.env.SENTINEL_API_URL ?? '';
+
+export const api: SentinelApi = API_URL ? createHttpApi(API_URL) : createLocalApi();
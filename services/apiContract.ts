@@ -0,0 +1,129 @@
+import { BurnModel, CatalogUpdate, Conjunction, ConjunctionEventStatus, Maneuver, OrbitalObject, RiskLevel } from '../types';
+import { ScreeningOptions, ScreeningStats } from './orbitalPhysics';
+import { ManeuverPlanOptions, ManeuverScreening } from './maneuverPlanner';
+
+/**
+ * SENTINEL API CONTRACT
+ * Request and response bodies of the backend's JSON endpoints, shared by the
+ * client and the local mock server. The backend holds one catalog; every
+ * upload bumps its revision and screening requests name the revision they
+ * expect, so results are never computed against a catalog the UI has replaced
+ * (a stale revision is answered with 409).
+ * Errors come back as non-2xx responses with an ApiErrorResponse body.
+ * Live catalog updates are streamed as Server-Sent Events (FEED_EVENT events
+ * carrying a CatalogFeedMessage, with the sequence number as the event id).
+ * Escalations are pushed to operator-configured webhooks as AlertNotification
+ * bodies (EmailRelayRequest for mail relays); the mock server records both.
+ */
+
+export const API_PATHS = {
+  catalog: '/catalog', // GET: CatalogResponse; PUT CatalogUpdateRequest: CatalogUpdateResponse; PATCH CatalogPatchRequest: CatalogPatchResponse
+  feed: '/feed', // GET: text/event-stream of CatalogFeedMessage
+  screenings: '/screenings', // POST ScreeningApiRequest: ScreeningApiResponse
+  maneuverPlans: '/maneuvers/plans', // POST ManeuverPlanApiRequest: ManeuverPlanApiResponse
+  maneuverScreenings: '/maneuvers/screenings', // POST ManeuverScreeningApiRequest: ManeuverScreeningApiResponse
+  notifications: '/notifications', // Mock only. POST AlertNotification | EmailRelayRequest; GET: NotificationLogResponse
+} as const;
+
+export interface ApiErrorResponse {
+  error: string;
+}
+
+export interface CatalogResponse {
+  revision: number;
+  objects: OrbitalObject[];
+}
+
+export interface CatalogUpdateRequest {
+  objects: OrbitalObject[];
+}
+
+export interface CatalogUpdateResponse {
+  revision: number;
+  count: number;
+}
+
+// Applies feed updates to the stored catalog
+export interface CatalogPatchRequest {
+  revision: number; // Revision the updates apply to
+  updates: CatalogUpdate[];
+}
+
+export interface CatalogPatchResponse {
+  revision: number;
+  affectedIds: string[];
+}
+
+// All-vs-all screening of the stored catalog, or of the pairs involving objectIds
+export interface ScreeningApiRequest {
+  revision: number;
+  time: number; // s since Unix epoch (UTC)
+  options?: ScreeningOptions;
+  objectIds?: string[];
+}
+
+export interface ScreeningApiResponse {
+  revision: number;
+  time: number; // s since Unix epoch
+  conjunctions: Conjunction[];
+  stats: ScreeningStats;
+}
+
+export interface ManeuverPlanApiRequest {
+  conjunction: Conjunction;
+  time: number; // Planning epoch (s since Unix epoch)
+  options?: Partial<ManeuverPlanOptions>;
+}
+
+export interface ManeuverPlanApiResponse {
+  maneuver: Maneuver;
+}
+
+// Secondary screening of a planned burn against the stored catalog
+export interface ManeuverScreeningApiRequest {
+  revision: number;
+  maneuver: Maneuver;
+  burnModel: BurnModel;
+}
+
+export interface ManeuverScreeningApiResponse {
+  screening: ManeuverScreening;
+}
+
+export const FEED_EVENT = 'catalog-update';
+
+export interface CatalogFeedMessage {
+  seq: number; // Increases by one per update
+  sentAt: number; // ms since Unix epoch
+  update: CatalogUpdate;
+}
+
+// --- NOTIFICATIONS ---
+
+// Webhook body for an escalated conjunction event
+export interface AlertNotification {
+  eventId: string;
+  status: ConjunctionEventStatus;
+  tier: RiskLevel;
+  rule: string | null; // Name of the alert rule that set the tier
+  objectA: string;
+  objectB: string;
+  nameA: string;
+  nameB: string;
+  tca: number; // ms since Unix epoch
+  probability: number;
+  missDistance: number; // km
+  sentAt: string; // ISO 8601
+}
+
+// Posted to a mail relay, which sends text to the recipient
+export interface EmailRelayRequest {
+  to: string;
+  subject: string;
+  text: string;
+  notification: AlertNotification;
+}
+
+export interface NotificationLogResponse {
+  received: { receivedAt: string, body: AlertNotification | EmailRelayRequest }[]; // Newest last
+}
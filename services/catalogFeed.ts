@@ -0,0 +1,160 @@
+import { CatalogUpdate, Conjunction, OrbitalObject } from '../types';
+import { CatalogFeedMessage, FEED_EVENT } from './apiContract';
+
+/**
+ * LIVE CATALOG FEED
+ * Catalog updates (new objects, element sets, decays, maneuver notifications)
+ * streamed over Server-Sent Events. Updates patch the object store in place of
+ * a full reload and report which objects changed, so only their pairs need
+ * re-screening. EventSource reconnects on its own and resumes from the last
+ * received sequence number (Last-Event-ID).
+ */
+
+export type FeedConnectionState = 'DISABLED' | 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export interface FeedStatus {
+  state: FeedConnectionState;
+  url: string;
+  messages: number; // Updates received this session
+  lastSeq: number | null;
+  lastMessageAt: number | null; // ms since Unix epoch (wall clock)
+  latency: number | null; // ms from send to receipt of the last update
+  missed: number; // Updates skipped in the sequence
+  error: string | null;
+}
+
+// Feed endpoint, injected at build time; empty disables the live feed
+export const FEED_URL = process.env.SENTINEL_FEED_URL ?? '';
+// Received updates are applied to the catalog in batches at this interval
+export const FEED_FLUSH_INTERVAL = 2000; // ms
+
+export const initialFeedStatus = (url: string = FEED_URL): FeedStatus => ({
+  state: url ? 'CONNECTING' : 'DISABLED',
+  url,
+  messages: 0,
+  lastSeq: null,
+  lastMessageAt: null,
+  latency: null,
+  missed: 0,
+  error: null,
+});
+
+// --- PATCHING ---
+
+export interface CatalogPatch {
+  objects: OrbitalObject[];
+  affectedIds: string[]; // Objects whose pairs must be re-screened (includes removed objects)
+}
+
+/**
+ * Applies updates in order. A new element set replaces the object but keeps
+ * notified burns after its epoch; updates for unknown objects add them.
+ */
+export const applyCatalogUpdates = (objects: OrbitalObject[], updates: CatalogUpdate[]): CatalogPatch => {
+  const byId = new Map(objects.map(o => [o.id, o]));
+  const affected = new Set<string>();
+
+  updates.forEach(update => {
+    switch (update.kind) {
+      case 'OBJECT_ADDED':
+        byId.set(update.object.id, update.object);
+        affected.add(update.object.id);
+        break;
+      case 'ELEMENTS_UPDATED': {
+        const prev = byId.get(update.object.id);
+        const burns = (prev?.burns ?? []).filter(b => b.burnEpoch > update.object.epoch);
+        byId.set(update.object.id, burns.length > 0 ? { ...update.object, burns } : update.object);
+        affected.add(update.object.id);
+        break;
+      }
+      case 'DECAYED':
+        if (byId.delete(update.objectId)) affected.add(update.objectId);
+        break;
+      case 'MANEUVER': {
+        const prev = byId.get(update.objectId);
+        if (!prev) break;
+        const burns = [...(prev.burns ?? []), update.burn].sort((a, b) => a.burnEpoch - b.burnEpoch);
+        byId.set(update.objectId, { ...prev, burns });
+        affected.add(update.objectId);
+        break;
+      }
+    }
+  });
+
+  return { objects: Array.from(byId.values()), affectedIds: Array.from(affected) };
+};
+
+/**
+ * Folds an incremental screening into the last complete result: approaches
+ * involving affected objects are replaced by the new ones.
+ */
+export const mergeIncrementalScreening = (
+  previous: Conjunction[], incremental: Conjunction[], affectedIds: string[],
+): Conjunction[] => {
+  const affected = new Set(affectedIds);
+  return [
+    ...previous.filter(c => !affected.has(c.objectA) && !affected.has(c.objectB)),
+    ...incremental,
+  ].sort((a, b) => b.probability - a.probability);
+};
+
+// --- CONNECTION ---
+
+export interface FeedHandlers {
+  onMessage: (message: CatalogFeedMessage) => void;
+  onStatus: (status: FeedStatus) => void;
+}
+
+// Opens the feed; returns a function that closes it
+export const connectCatalogFeed = (url: string, { onMessage, onStatus }: FeedHandlers): (() => void) => {
+  let status = initialFeedStatus(url);
+  const update = (patch: Partial<FeedStatus>) => {
+    status = { ...status, ...patch };
+    onStatus(status);
+  };
+
+  if (!url) {
+    onStatus(status);
+    return () => {};
+  }
+  if (typeof EventSource === 'undefined') {
+    update({ state: 'CLOSED', error: 'EventSource is not available in this environment' });
+    return () => {};
+  }
+
+  const source = new EventSource(url);
+  update({ state: 'CONNECTING' });
+
+  source.onopen = () => update({ state: 'OPEN', error: null });
+  source.onerror = () => {
+    // CONNECTING after an error means the browser is retrying; CLOSED means it gave up
+    update(source.readyState === EventSource.CLOSED
+      ? { state: 'CLOSED', error: 'Feed closed by the server' }
+      : { state: 'RECONNECTING', error: 'Connection lost; retrying' });
+  };
+  source.addEventListener(FEED_EVENT, event => {
+    let message: CatalogFeedMessage;
+    try {
+      message = JSON.parse((event as MessageEvent<string>).data);
+    } catch (e) {
+      update({ error: `Malformed feed message: ${(e as Error).message}` });
+      return;
+    }
+    const now = Date.now();
+    const gap = status.lastSeq !== null && message.seq > status.lastSeq + 1 ? message.seq - status.lastSeq - 1 : 0;
+    update({
+      state: 'OPEN',
+      messages: status.messages + 1,
+      lastSeq: message.seq,
+      lastMessageAt: now,
+      latency: Math.max(0, now - message.sentAt),
+      missed: status.missed + gap,
+    });
+    onMessage(message);
+  });
+
+  return () => {
+    source.close();
+    update({ state: 'CLOSED', error: null });
+  };
+};
@@ -0,0 +1,134 @@
+import { ConjunctionEvent, ObjectClass, OrbitalObject, StateVector } from '../types';
+import { getStateAtTime } from './orbitalPhysics';
+import { EARTH_EQUATORIAL_RADIUS } from './propagators';
+import { eciToGeodetic, Geodetic } from './geodesy';
+import { isEventOpen } from './conjunctionEvents';
+import { objectClassOf } from './objectMetadata';
+
+/**
+ * CATALOG SEARCH
+ * Free-text search and filtering of the catalog (name, ID, designators,
+ * class, owner, altitude band, inclination), and the data behind the object
+ * inspector: orbit summary, current state, upcoming events and an altitude
+ * history over the last day.
+ */
+
+const DEG = 180 / Math.PI;
+
+// Regimes by mean altitude (km); GEO is the ±200 km belt around 35,786 km
+export type AltitudeBand = 'LEO' | 'MEO' | 'GEO' | 'HIGH';
+
+export const ALTITUDE_BANDS: { band: AltitudeBand, min: number, max: number }[] = [
+  { band: 'LEO', min: -Infinity, max: 2000 },
+  { band: 'MEO', min: 2000, max: 35586 },
+  { band: 'GEO', min: 35586, max: 35986 },
+  { band: 'HIGH', min: 35986, max: Infinity },
+];
+
+export interface CatalogFilter {
+  query: string; // Matched against name, ID, NORAD and COSPAR IDs
+  objectClass: ObjectClass | 'ALL';
+  owner: string; // '' for any owner
+  band: AltitudeBand | 'ALL';
+  minInclination?: number; // deg
+  maxInclination?: number; // deg
+}
+
+export const DEFAULT_CATALOG_FILTER: CatalogFilter = { query: '', objectClass: 'ALL', owner: '', band: 'ALL' };
+
+// --- ORBIT SUMMARY ---
+
+export interface OrbitSummary {
+  perigee: number; // Altitude above the equatorial radius (km)
+  apogee: number; // km
+  meanAltitude: number; // km
+  period: number; // s
+  inclination: number; // deg
+  band: AltitudeBand;
+}
+
+// From the mean elements, so it is stable between element sets
+export const orbitSummary = (obj: OrbitalObject): OrbitSummary => {
+  const { a, e, i, n } = obj.elements;
+  const meanAltitude = a - EARTH_EQUATORIAL_RADIUS;
+  return {
+    perigee: a * (1 - e) - EARTH_EQUATORIAL_RADIUS,
+    apogee: a * (1 + e) - EARTH_EQUATORIAL_RADIUS,
+    meanAltitude,
+    period: (2 * Math.PI) / n,
+    inclination: i * DEG,
+    band: ALTITUDE_BANDS.find(b => meanAltitude < b.max)!.band,
+  };
+};
+
+// --- FILTERING ---
+
+export const catalogOwners = (objects: OrbitalObject[]): string[] =>
+  [...new Set(objects.map(o => o.owner).filter((o): o is string => !!o))].sort();
+
+const matchesQuery = (obj: OrbitalObject, query: string) => {
+  if (!query) return true;
+  const q = query.toUpperCase();
+  return obj.name.toUpperCase().includes(q)
+    || obj.id.toUpperCase().includes(q)
+    || (obj.noradId !== undefined && String(obj.noradId) === q)
+    || (obj.cosparId?.includes(q) ?? false);
+};
+
+export const matchesFilter = (obj: OrbitalObject, filter: CatalogFilter): boolean => {
+  if (!matchesQuery(obj, filter.query.trim())) return false;
+  if (filter.objectClass !== 'ALL' && objectClassOf(obj) !== filter.objectClass) return false;
+  if (filter.owner && obj.owner !== filter.owner) return false;
+  if (filter.band === 'ALL' && filter.minInclination === undefined && filter.maxInclination === undefined) return true;
+  const orbit = orbitSummary(obj);
+  if (filter.band !== 'ALL' && orbit.band !== filter.band) return false;
+  if (filter.minInclination !== undefined && orbit.inclination < filter.minInclination) return false;
+  if (filter.maxInclination !== undefined && orbit.inclination > filter.maxInclination) return false;
+  return true;
+};
+
+// Matching objects, satellites first, then by name
+export const filterCatalog = (objects: OrbitalObject[], filter: CatalogFilter): OrbitalObject[] =>
+  objects
+    .filter(o => matchesFilter(o, filter))
+    .sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'SATELLITE' ? -1 : 1);
+
+// --- INSPECTOR ---
+
+export interface ObjectSnapshot {
+  state: StateVector; // Inertial (km, km/s)
+  geodetic: Geodetic; // Sub-satellite point and altitude
+  speed: number; // km/s
+}
+
+// t: s since Unix epoch
+export const snapshotObject = (obj: OrbitalObject, t: number): ObjectSnapshot => {
+  const state = getStateAtTime(obj, t);
+  const v = state.velocity;
+  return { state, geodetic: eciToGeodetic(state.position, t), speed: Math.hypot(v.x, v.y, v.z) };
+};
+
+// Open events of the object with TCA at or after t (s), soonest first
+export const upcomingEvents = (events: ConjunctionEvent[], objectId: string, t: number): ConjunctionEvent[] =>
+  events
+    .filter(e => (e.objectA === objectId || e.objectB === objectId) && isEventOpen(e) && e.latest.tca / 1000 >= t)
+    .sort((a, b) => a.latest.tca - b.latest.tca);
+
+export const ORBIT_HISTORY_SPAN = 86400; // s
+const ORBIT_HISTORY_SAMPLES = 144;
+
+export interface AltitudeSample {
+  t: number; // s since Unix epoch
+  altitude: number; // km
+}
+
+// Geodetic altitude over the span before t, oldest first
+export const orbitHistory = (obj: OrbitalObject, t: number, span: number = ORBIT_HISTORY_SPAN): AltitudeSample[] => {
+  const step = span / ORBIT_HISTORY_SAMPLES;
+  const samples: AltitudeSample[] = [];
+  for (let k = ORBIT_HISTORY_SAMPLES; k >= 0; k--) {
+    const ts = t - k * step;
+    samples.push({ t: ts, altitude: eciToGeodetic(getStateAtTime(obj, ts).position, ts).altitude });
+  }
+  return samples;
+};
@@ -0,0 +1,443 @@
+import { Conjunction, ConjunctionObjectData, ObjectClass, OrbitalObject, PcEstimates, StateVector } from '../types';
+import {
+  encounterGeometry, fosterPc, chanPc, alfanoMaxPc, riskLevelFromPc, rtnBasis,
+} from './collisionProbability';
+import { hardBodyRadiusOf, objectClassOf, objectTypeForClass } from './objectMetadata';
+import { eme2000ToTeme, itrfToTeme, temeToEme2000 } from './geodesy';
+
+/**
+ * CCSDS CONJUNCTION DATA MESSAGE (CDM)
+ * Import and export of CCSDS 508.0 CDMs in both KVN and XML encodings, as
+ * issued by 18 SDS (Space-Track) and commercial SSA providers. Imported messages
+ * become Conjunctions carrying both objects' TCA states and RTN covariances;
+ * Pc is recomputed locally so every alert is comparable across sources.
+ * States are held in TEME, the frame of SGP4 and the rest of SENTINEL, and
+ * converted from and to the frame named by each object's REF_FRAME.
+ * Exports are CDM 2.0 so the combined hard-body radius (HBR) travels with them.
+ */
+
+export type CdmFormat = 'KVN' | 'XML';
+
+export interface CdmParseError {
+  index: number; // 1-based position of the CDM within the input
+  message: string;
+}
+
+export interface CdmParseResult {
+  conjunctions: Conjunction[];
+  errors: CdmParseError[];
+}
+
+const CDM_VERSION = '2.0';
+const ORIGINATOR = 'SENTINEL';
+// Exported states are converted from TEME to this frame
+const REF_FRAME = 'EME2000';
+
+// REF_FRAME values accepted on import, each with its conversion to TEME
+const IMPORT_FRAMES: Record<string, (state: StateVector, t: number) => StateVector> = {
+  EME2000: eme2000ToTeme,
+  GCRF: eme2000ToTeme, // Frame bias to EME2000 is below a metre
+  ITRF: itrfToTeme,
+  TEME: state => state,
+};
+
+// Covariance axes in CDM order; the lower triangle is named C<row>_<column>
+const COVARIANCE_AXES = ['R', 'T', 'N', 'RDOT', 'TDOT', 'NDOT'];
+const STATE_KEYS = ['X', 'Y', 'Z', 'X_DOT', 'Y_DOT', 'Z_DOT'];
+
+const covarianceKey = (i: number, j: number) => `C${COVARIANCE_AXES[i]}_${COVARIANCE_AXES[j]}`;
+
+const covarianceUnits = (i: number, j: number) => {
+  const rates = (i >= 3 ? 1 : 0) + (j >= 3 ? 1 : 0);
+  return ['m**2', 'm**2/s', 'm**2/s**2'][rates];
+};
+
+// --- TIME ---
+
+// CCSDS ASCII time: YYYY-MM-DDThh:mm:ss[.d] or YYYY-DDDThh:mm:ss[.d], always UTC
+const parseCcsdsTime = (value: string): number => {
+  const v = value.trim().replace(/Z$/, '');
+  const doy = /^(\d{4})-(\d{3})T(.*)$/.exec(v);
+  if (doy) {
+    const base = Date.UTC(Number(doy[1]), 0, 1) + (Number(doy[2]) - 1) * 86400000;
+    const timeOfDay = Date.parse(`1970-01-01T${doy[3]}Z`);
+    return base + timeOfDay;
+  }
+  return Date.parse(`${v}Z`);
+};
+
+const formatCcsdsTime = (ms: number) => new Date(ms).toISOString().replace(/Z$/, '');
+
+// --- PARSING ---
+
+interface CdmSegment {
+  fields: Map<string, string>;
+}
+
+interface CdmFields {
+  header: Map<string, string>; // Header and relative metadata
+  segments: CdmSegment[]; // OBJECT1, OBJECT2
+}
+
+// Groups an ordered key/value list into the header and the per-object segments
+const groupFields = (pairs: [string, string][]): CdmFields => {
+  const header = new Map<string, string>();
+  const segments: CdmSegment[] = [];
+  pairs.forEach(([key, value]) => {
+    if (key === 'COMMENT') return;
+    if (key === 'OBJECT') segments.push({ fields: new Map() });
+    const target = segments.length > 0 ? segments[segments.length - 1].fields : header;
+    target.set(key, value);
+  });
+  return { header, segments };
+};
+
+// KVN: "KEY = value [units]" per line
+const kvnPairs = (text: string): [string, string][] => {
+  const pairs: [string, string][] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const match = /^\s*([A-Z][A-Z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (match) pairs.push([match[1], match[2].replace(/\s*\[[^\]]*\]$/, '')]);
+  });
+  return pairs;
+};
+
+const decodeXmlEntities = (s: string) => s
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// XML: every leaf element with an upper-case name is a CDM keyword, in document order
+const xmlPairs = (text: string): [string, string][] => {
+  const pairs: [string, string][] = [];
+  const leaf = /<(?:[\w-]+:)?([A-Z][A-Z0-9_]*)(?:\s[^>]*)?>([^<]*)<\/(?:[\w-]+:)?\1\s*>/g;
+  let match: RegExpExecArray | null;
+  while ((match = leaf.exec(text)) !== null) {
+    pairs.push([match[1], decodeXmlEntities(match[2]).trim()]);
+  }
+  return pairs;
+};
+
+const requireNumber = (fields: Map<string, string>, key: string, where: string): number => {
+  const raw = fields.get(key);
+  const value = raw === undefined ? NaN : Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${where}: missing or invalid ${key}`);
+  return value;
+};
+
+const optionalNumber = (fields: Map<string, string>, key: string): number | undefined => {
+  const raw = fields.get(key);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// CDM OBJECT_TYPE <-> SENTINEL object class (OTHER maps to UNKNOWN)
+const CDM_OBJECT_TYPES: Record<ObjectClass, string> = {
+  PAYLOAD: 'PAYLOAD',
+  ROCKET_BODY: 'ROCKET BODY',
+  DEBRIS: 'DEBRIS',
+  UNKNOWN: 'UNKNOWN',
+};
+
+const objectClassFromCdm = (value: string | undefined): ObjectClass | undefined => {
+  if (!value) return undefined;
+  const normalized = value.trim().toUpperCase();
+  const match = (Object.keys(CDM_OBJECT_TYPES) as ObjectClass[]).find(c => CDM_OBJECT_TYPES[c] === normalized);
+  return match ?? 'UNKNOWN';
+};
+
+// MANEUVERABLE: YES / NO / N/A (unknown)
+const maneuverableFromCdm = (value: string | undefined): boolean | undefined => {
+  const normalized = value?.trim().toUpperCase();
+  return normalized === 'YES' ? true : normalized === 'NO' ? false : undefined;
+};
+
+// tca: s since Unix epoch, the epoch of the state
+const readObject = (segment: CdmSegment, fallbackType: OrbitalObject['type'], tca: number): ConjunctionObjectData => {
+  const f = segment.fields;
+  const label = f.get('OBJECT') ?? 'OBJECT';
+  const frame = f.get('REF_FRAME')?.trim().toUpperCase();
+  if (!frame) throw new Error(`${label}: missing REF_FRAME`);
+  // ITRF realizations (ITRF-93, ITRF2000, ...) differ by centimetres
+  const toTeme = IMPORT_FRAMES[frame.startsWith('ITRF') ? 'ITRF' : frame];
+  if (!toTeme) throw new Error(`${label}: unsupported REF_FRAME ${frame} (expected ${Object.keys(IMPORT_FRAMES).join(', ')})`);
+  const s = STATE_KEYS.map(key => requireNumber(f, key, label));
+  const state = toTeme({
+    position: { x: s[0], y: s[1], z: s[2] },
+    velocity: { x: s[3], y: s[4], z: s[5] },
+  }, tca);
+
+  // Position block is mandatory; velocity terms are kept when the full 6x6 is present
+  const size = COVARIANCE_AXES.every((_, i) => f.has(covarianceKey(i, i))) ? 6 : 3;
+  const covariance = Array.from({ length: size }, () => new Array(size).fill(0));
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      const value = requireNumber(f, covarianceKey(i, j), label) / 1e6; // m^2 -> km^2
+      covariance[i][j] = value;
+      covariance[j][i] = value;
+    }
+  }
+
+  const designator = f.get('OBJECT_DESIGNATOR')?.trim();
+  const name = f.get('OBJECT_NAME')?.trim();
+  const cospar = f.get('INTERNATIONAL_DESIGNATOR')?.trim();
+  const owner = f.get('OPERATOR_ORGANIZATION')?.trim();
+  const objectClass = objectClassFromCdm(f.get('OBJECT_TYPE'));
+  return {
+    id: designator || label,
+    name: name || (designator ? `NORAD ${designator}` : label),
+    type: objectClass ? objectTypeForClass(objectClass) : fallbackType,
+    state,
+    covariance,
+    cosparId: cospar && cospar.toUpperCase() !== 'UNKNOWN' ? cospar : undefined,
+    objectClass,
+    owner: owner || undefined,
+    maneuverable: maneuverableFromCdm(f.get('MANEUVERABLE')),
+  };
+};
+
+const positionBlock = (cov: number[][]) => [0, 1, 2].map(i => [0, 1, 2].map(j => cov[i][j]));
+
+// Builds a Conjunction from one grouped CDM (time in seconds since Unix epoch)
+const buildConjunction = (cdm: CdmFields, time: number): Conjunction => {
+  const { header, segments } = cdm;
+  if (segments.length !== 2) throw new Error(`Expected 2 object segments, found ${segments.length}`);
+
+  const tcaRaw = header.get('TCA');
+  const tca = tcaRaw ? parseCcsdsTime(tcaRaw) : NaN;
+  if (!Number.isFinite(tca)) throw new Error('Missing or invalid TCA');
+
+  const primary = readObject(segments[0], 'SATELLITE', tca / 1000);
+  const secondary = readObject(segments[1], 'DEBRIS', tca / 1000);
+
+  // CDM 2.0 carries the combined hard-body radius; otherwise fall back to class defaults
+  const hbr = optionalNumber(header, 'HBR')
+    ?? hardBodyRadiusOf(primary) + hardBodyRadiusOf(secondary);
+  const geometry = encounterGeometry(
+    primary.state, positionBlock(primary.covariance),
+    secondary.state, positionBlock(secondary.covariance),
+    hbr,
+  );
+  const pc: PcEstimates = {
+    foster: fosterPc(geometry),
+    chan: chanPc(geometry),
+    alfanoMax: alfanoMaxPc(geometry),
+  };
+
+  // The originator's Pc is authoritative for the alert; local estimates stay alongside it
+  const probability = optionalNumber(header, 'COLLISION_PROBABILITY') ?? pc.foster;
+  const missDistance = optionalNumber(header, 'MISS_DISTANCE');
+  const relativeSpeed = optionalNumber(header, 'RELATIVE_SPEED');
+  const messageId = header.get('MESSAGE_ID')?.trim();
+
+  return {
+    id: `CDM-${messageId ?? `${primary.id}-${secondary.id}-${tca}`}`,
+    objectA: primary.id,
+    objectB: secondary.id,
+    nameA: primary.name,
+    nameB: secondary.name,
+    tca,
+    timeToImpact: tca / 1000 - time,
+    probability,
+    pc,
+    hardBodyRadius: hbr,
+    riskLevel: riskLevelFromPc(probability),
+    missDistance: missDistance !== undefined ? missDistance / 1000 : geometry.missDistance,
+    relativeVelocity: relativeSpeed !== undefined ? relativeSpeed / 1000 : geometry.relativeVelocity,
+    source: 'CDM',
+    messageId,
+    primary,
+    secondary,
+  };
+};
+
+/**
+ * Parses one or more CDMs (KVN or XML, detected from the content).
+ * Malformed messages are reported by position and skipped.
+ */
+export const parseCdm = (text: string, time: number): CdmParseResult => {
+  const isXml = text.trimStart().startsWith('<');
+  const messages = isXml
+    ? text.match(/<(?:[\w-]+:)?cdm\b[\s\S]*?<\/(?:[\w-]+:)?cdm\s*>/g) ?? []
+    : text.split(/^(?=\s*CCSDS_CDM_VERS\s*=)/m).filter(m => /CCSDS_CDM_VERS/.test(m));
+
+  const conjunctions: Conjunction[] = [];
+  const errors: CdmParseError[] = [];
+  if (messages.length === 0) {
+    errors.push({ index: 1, message: `No ${isXml ? '<cdm>' : 'CCSDS_CDM_VERS'} message found` });
+  }
+
+  messages.forEach((message, idx) => {
+    try {
+      const pairs = isXml ? xmlPairs(message) : kvnPairs(message);
+      conjunctions.push(buildConjunction(groupFields(pairs), time));
+    } catch (e) {
+      errors.push({ index: idx + 1, message: (e as Error).message });
+    }
+  });
+
+  return { conjunctions, errors };
+};
+
+export const parseCdmFile = async (file: File, time: number): Promise<CdmParseResult> => {
+  const text = await file.text();
+  return parseCdm(text, time);
+};
+
+// --- EXPORT ---
+
+interface CdmEntry {
+  key: string;
+  value: string;
+  units?: string;
+}
+
+interface CdmSections {
+  header: CdmEntry[];
+  relative: CdmEntry[];
+  objects: { metadata: CdmEntry[], state: CdmEntry[], covariance: CdmEntry[] }[];
+}
+
+const num = (value: number, digits = 6) => value.toExponential(digits).toUpperCase();
+const fixed = (value: number, digits = 3) => value.toFixed(digits);
+
+const objectSections = (label: string, obj: ConjunctionObjectData, tca: number) => {
+  const { position: p, velocity: v } = temeToEme2000(obj.state, tca / 1000);
+  const state = [p.x, p.y, p.z, v.x, v.y, v.z];
+  const size = obj.covariance.length >= 6 ? 6 : 3;
+
+  const covariance: CdmEntry[] = [];
+  for (let i = 0; i < 6; i++) {
+    for (let j = 0; j <= i; j++) {
+      const value = i < size ? obj.covariance[i][j] * 1e6 : 0; // km^2 -> m^2
+      covariance.push({ key: covarianceKey(i, j), value: num(value, 4), units: covarianceUnits(i, j) });
+    }
+  }
+
+  return {
+    metadata: [
+      { key: 'OBJECT', value: label },
+      { key: 'OBJECT_DESIGNATOR', value: obj.id },
+      { key: 'CATALOG_NAME', value: 'SATCAT' },
+      { key: 'OBJECT_NAME', value: obj.name },
+      { key: 'INTERNATIONAL_DESIGNATOR', value: obj.cosparId ?? 'UNKNOWN' },
+      { key: 'OBJECT_TYPE', value: CDM_OBJECT_TYPES[objectClassOf(obj)] },
+      ...(obj.owner ? [{ key: 'OPERATOR_ORGANIZATION', value: obj.owner }] : []),
+      { key: 'EPHEMERIS_NAME', value: 'NONE' },
+      { key: 'COVARIANCE_METHOD', value: 'DEFAULT' },
+      { key: 'MANEUVERABLE', value: obj.maneuverable === undefined ? 'N/A' : obj.maneuverable ? 'YES' : 'NO' },
+      { key: 'REF_FRAME', value: REF_FRAME },
+    ],
+    state: state.map((value, k) => ({ key: STATE_KEYS[k], value: fixed(value, k < 3 ? 6 : 9), units: k < 3 ? 'km' : 'km/s' })),
+    covariance,
+  };
+};
+
+const buildSections = (c: Conjunction, creationDate: number): CdmSections => {
+  if (!c.primary || !c.secondary) throw new Error(`Conjunction ${c.id} has no TCA state data to export`);
+  const { primary, secondary } = c;
+
+  // Relative state of the secondary in the primary's RTN frame (m, m/s)
+  const basis = rtnBasis(primary.state);
+  const dr = [
+    secondary.state.position.x - primary.state.position.x,
+    secondary.state.position.y - primary.state.position.y,
+    secondary.state.position.z - primary.state.position.z,
+  ];
+  const dv = [
+    secondary.state.velocity.x - primary.state.velocity.x,
+    secondary.state.velocity.y - primary.state.velocity.y,
+    secondary.state.velocity.z - primary.state.velocity.z,
+  ];
+  const rtn = (vec: number[]) => basis.map(row => (row[0] * vec[0] + row[1] * vec[1] + row[2] * vec[2]) * 1000);
+  const relPos = rtn(dr);
+  const relVel = rtn(dv);
+
+  return {
+    header: [
+      { key: 'CREATION_DATE', value: formatCcsdsTime(creationDate) },
+      { key: 'ORIGINATOR', value: ORIGINATOR },
+      { key: 'MESSAGE_ID', value: c.messageId ?? `${ORIGINATOR}_${c.id}` },
+    ],
+    relative: [
+      { key: 'TCA', value: formatCcsdsTime(c.tca) },
+      { key: 'MISS_DISTANCE', value: fixed(c.missDistance * 1000, 1), units: 'm' },
+      { key: 'RELATIVE_SPEED', value: fixed(c.relativeVelocity * 1000, 1), units: 'm/s' },
+      { key: 'RELATIVE_POSITION_R', value: fixed(relPos[0], 1), units: 'm' },
+      { key: 'RELATIVE_POSITION_T', value: fixed(relPos[1], 1), units: 'm' },
+      { key: 'RELATIVE_POSITION_N', value: fixed(relPos[2], 1), units: 'm' },
+      { key: 'RELATIVE_VELOCITY_R', value: fixed(relVel[0], 1), units: 'm/s' },
+      { key: 'RELATIVE_VELOCITY_T', value: fixed(relVel[1], 1), units: 'm/s' },
+      { key: 'RELATIVE_VELOCITY_N', value: fixed(relVel[2], 1), units: 'm/s' },
+      { key: 'HBR', value: fixed(c.hardBodyRadius, 3), units: 'm' },
+      { key: 'COLLISION_PROBABILITY', value: num(c.probability, 3) },
+      { key: 'COLLISION_PROBABILITY_METHOD', value: 'FOSTER-1992' },
+    ],
+    objects: [objectSections('OBJECT1', primary, c.tca), objectSections('OBJECT2', secondary, c.tca)],
+  };
+};
+
+// KVN encoding; throws if the conjunction carries no state/covariance data
+export const formatCdmKvn = (c: Conjunction, creationDate: number = Date.now()): string => {
+  const sections = buildSections(c, creationDate);
+  const line = (e: CdmEntry) => `${e.key.padEnd(32)} = ${e.value}${e.units ? ` [${e.units}]` : ''}`;
+  const lines = [
+    line({ key: 'CCSDS_CDM_VERS', value: CDM_VERSION }),
+    ...sections.header.map(line),
+    ...sections.relative.map(line),
+  ];
+  sections.objects.forEach(o => {
+    lines.push(...o.metadata.map(line), ...o.state.map(line), ...o.covariance.map(line));
+  });
+  return lines.join('\n') + '\n';
+};
+
+const escapeXml = (s: string) => s
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// XML encoding (CCSDS NDM/XML schema layout)
+export const formatCdmXml = (c: Conjunction, creationDate: number = Date.now()): string => {
+  const sections = buildSections(c, creationDate);
+  const element = (indent: string) => (e: CdmEntry) =>
+    `${indent}<${e.key}${e.units ? ` units="${e.units}"` : ''}>${escapeXml(e.value)}</${e.key}>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<cdm id="CCSDS_CDM_VERS" version="${CDM_VERSION}">`,
+    '  <header>',
+    ...sections.header.map(element('    ')),
+    '  </header>',
+    '  <body>',
+    '    <relativeMetadataData>',
+    ...sections.relative.map(element('      ')),
+    '    </relativeMetadataData>',
+  ];
+  sections.objects.forEach(o => {
+    lines.push(
+      '    <segment>',
+      '      <metadata>',
+      ...o.metadata.map(element('        ')),
+      '      </metadata>',
+      '      <data>',
+      '        <stateVector>',
+      ...o.state.map(element('          ')),
+      '        </stateVector>',
+      '        <covarianceMatrix>',
+      ...o.covariance.map(element('          ')),
+      '        </covarianceMatrix>',
+      '      </data>',
+      '    </segment>',
+    );
+  });
+  lines.push('  </body>', '</cdm>');
+  return lines.join('\n') + '\n';
+};
+
+export const formatCdm = (c: Conjunction, format: CdmFormat, creationDate?: number): string => {
+  return format === 'XML' ? formatCdmXml(c, creationDate) : formatCdmKvn(c, creationDate);
+};
+
+export const cdmFileName = (c: Conjunction, format: CdmFormat): string => {
+  const stamp = formatCcsdsTime(c.tca).replace(/[-:]/g, '').replace(/\..*$/, '');
+  const safe = (s: string) => s.replace(/[^A-Za-z0-9_-]+/g, '_');
+  return `CDM_${safe(c.nameA)}_${safe(c.nameB)}_${stamp}.${format === 'XML' ? 'xml' : 'cdm'}`;
+};
@@ -0,0 +1,281 @@
+import { OrbitalObject, StateVector, RiskLevel, PcEstimates } from '../types';
+import { getPropagator } from './propagators';
+import { hardBodyRadiusOf } from './objectMetadata';
+
+/**
+ * COLLISION PROBABILITY
+ * Short-encounter (linearised, straight-line relative motion) Pc at TCA. Both
+ * position covariances are rotated from RTN to the inertial frame, summed, and
+ * projected onto the encounter B-plane (normal to the relative velocity).
+ * The combined hard-body circle is then integrated against that 2D Gaussian:
+ *  - Foster:      direct numerical integration of the 2D density over the circle
+ *  - Chan:        analytic series for the equivalent-area circle
+ *  - Alfano max:  worst case over covariance scaling (used when covariance realism is doubtful)
+ */
+
+type Matrix3 = number[][];
+
+// Default 1-sigma RTN position uncertainty (km) when an object carries no covariance
+const DEFAULT_SIGMA_RTN: Record<string, [number, number, number]> = {
+  OPERATOR: [0.05, 0.2, 0.05], // Owner-operator ephemeris
+  CATALOG: [0.2, 1.0, 0.2], // TLE-derived / debris
+};
+
+// Pc thresholds for risk tiers (NASA CARA red / yellow convention)
+export const PC_HIGH_THRESHOLD = 1e-4;
+export const PC_MEDIUM_THRESHOLD = 1e-7;
+
+export const riskLevelFromPc = (pc: number): RiskLevel => {
+  if (pc >= PC_HIGH_THRESHOLD) return RiskLevel.HIGH;
+  if (pc >= PC_MEDIUM_THRESHOLD) return RiskLevel.MEDIUM;
+  return RiskLevel.LOW;
+};
+
+// --- LINEAR ALGEBRA ---
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const norm = (a: number[]) => Math.sqrt(dot(a, a));
+const unit = (a: number[]) => { const m = norm(a); return [a[0] / m, a[1] / m, a[2] / m]; };
+const toArray = (v: { x: number, y: number, z: number }) => [v.x, v.y, v.z];
+
+// M * C * M^T for 3x3 matrices
+const rotate = (M: Matrix3, C: Matrix3): Matrix3 => {
+  const MC = M.map(row => [0, 1, 2].map(j => row[0] * C[0][j] + row[1] * C[1][j] + row[2] * C[2][j]));
+  return MC.map(row => M.map(mrow => row[0] * mrow[0] + row[1] * mrow[1] + row[2] * mrow[2]));
+};
+
+// --- COVARIANCE ---
+
+// Position block (km^2, RTN) of an object's covariance, 3x3 or the top-left of a 6x6
+export const getPositionCovariance = (obj: OrbitalObject): Matrix3 => {
+  if (obj.covariance && obj.covariance.length >= 3) {
+    return [0, 1, 2].map(i => [0, 1, 2].map(j => obj.covariance![i][j]));
+  }
+  const sigma = obj.tle || obj.type === 'DEBRIS' ? DEFAULT_SIGMA_RTN.CATALOG : DEFAULT_SIGMA_RTN.OPERATOR;
+  return [
+    [sigma[0] * sigma[0], 0, 0],
+    [0, sigma[1] * sigma[1], 0],
+    [0, 0, sigma[2] * sigma[2]],
+  ];
+};
+
+export const getHardBodyRadius = (obj: OrbitalObject): number => {
+  return hardBodyRadiusOf(obj);
+};
+
+// Rows of the inertial -> RTN rotation for a given state
+export const rtnBasis = (state: StateVector): Matrix3 => {
+  const r = toArray(state.position);
+  const v = toArray(state.velocity);
+  const R = unit(r);
+  const N = unit(cross(r, v));
+  const T = cross(N, R);
+  return [R, T, N];
+};
+
+// RTN covariance -> inertial covariance (C_eci = B^T C_rtn B, B rows = R, T, N)
+export const rtnToInertial = (cov: Matrix3, state: StateVector): Matrix3 => {
+  const B = rtnBasis(state);
+  const Bt = [0, 1, 2].map(i => [B[0][i], B[1][i], B[2][i]]);
+  return rotate(Bt, cov);
+};
+
+// --- SPECIAL FUNCTIONS ---
+
+// Complementary error function (Numerical Recipes erfcc, fractional error < 1.2e-7)
+const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+    + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+};
+
+// erf(a) - erf(b), evaluated through erfc on the tails to avoid cancellation
+const erfDiff = (a: number, b: number): number => {
+  if (a >= 0 && b >= 0) return erfc(b) - erfc(a);
+  if (a <= 0 && b <= 0) return erfc(-a) - erfc(-b);
+  return (1 - erfc(a)) - (1 - erfc(b));
+};
+
+// --- ENCOUNTER PLANE ---
+
+export interface EncounterGeometry {
+  missDistance: number; // km
+  relativeVelocity: number; // km/s
+  hardBodyRadius: number; // km (combined)
+  // Combined covariance in B-plane principal axes
+  sigmaX: number; // km
+  sigmaZ: number; // km
+  // Miss vector components along the principal axes
+  missX: number; // km
+  missZ: number; // km
+  // Axes of the encounter frame in inertial coordinates (x: miss, y: relative velocity, z: completes)
+  frame: Matrix3;
+  // Full 2x2 combined covariance in the (x, z) encounter frame
+  covariance2d: [[number, number], [number, number]];
+}
+
+/**
+ * Builds the B-plane description of an encounter from both states at TCA,
+ * their RTN position covariances and the combined hard-body radius (m).
+ */
+export const encounterGeometry = (
+  stateA: StateVector, covA: Matrix3,
+  stateB: StateVector, covB: Matrix3,
+  hardBodyRadiusM: number,
+): EncounterGeometry => {
+  const dr = toArray(stateB.position).map((x, k) => x - toArray(stateA.position)[k]);
+  const dv = toArray(stateB.velocity).map((x, k) => x - toArray(stateA.velocity)[k]);
+
+  // Encounter frame: y along relative velocity, x along the in-plane miss vector
+  const ey = unit(dv);
+  const drPlane = dr.map((x, k) => x - dot(dr, ey) * ey[k]);
+  let ex = norm(drPlane) > 1e-12 ? unit(drPlane) : unit(cross(ey, Math.abs(ey[2]) < 0.9 ? [0, 0, 1] : [1, 0, 0]));
+  const ez = cross(ex, ey);
+  ex = cross(ey, ez);
+
+  // Combined inertial covariance projected to the B-plane
+  const C = rtnToInertial(covA, stateA).map((row, i) => row.map((c, j) => c + rtnToInertial(covB, stateB)[i][j]));
+  const Cx = [0, 1, 2].map(j => dot(ex, [C[0][j], C[1][j], C[2][j]]));
+  const Cz = [0, 1, 2].map(j => dot(ez, [C[0][j], C[1][j], C[2][j]]));
+  const cxx = dot(Cx, ex);
+  const czz = dot(Cz, ez);
+  const cxz = dot(Cx, ez);
+
+  // Principal axes of the 2D covariance
+  const theta = 0.5 * Math.atan2(2 * cxz, cxx - czz);
+  const ct = Math.cos(theta), st = Math.sin(theta);
+  const lx = cxx * ct * ct + 2 * cxz * ct * st + czz * st * st;
+  const lz = cxx * st * st - 2 * cxz * ct * st + czz * ct * ct;
+  const miss = norm(drPlane);
+
+  return {
+    missDistance: norm(dr),
+    relativeVelocity: norm(dv),
+    hardBodyRadius: hardBodyRadiusM / 1000,
+    sigmaX: Math.sqrt(Math.max(lx, 1e-18)),
+    sigmaZ: Math.sqrt(Math.max(lz, 1e-18)),
+    missX: miss * ct,
+    missZ: -miss * st,
+    frame: [ex, ey, ez],
+    covariance2d: [[cxx, cxz], [cxz, czz]],
+  };
+};
+
+// --- PC METHODS ---
+
+/**
+ * Foster: integral of the B-plane Gaussian over the hard-body circle, reduced to
+ * 1D by integrating the perpendicular axis analytically (erf) and using Simpson's rule.
+ */
+export const fosterPc = (g: EncounterGeometry, scale: number = 1): number => {
+  const R = g.hardBodyRadius;
+  const sx = g.sigmaX * scale;
+  const sz = g.sigmaZ * scale;
+  const n = 200; // Even number of Simpson intervals
+  const h = (2 * R) / n;
+  let sum = 0;
+  for (let k = 0; k <= n; k++) {
+    const x = -R + k * h;
+    const half = Math.sqrt(Math.max(0, R * R - x * x));
+    const gx = Math.exp(-((x - g.missX) ** 2) / (2 * sx * sx)) / (Math.sqrt(2 * Math.PI) * sx);
+    const strip = 0.5 * erfDiff((g.missZ + half) / (Math.SQRT2 * sz), (g.missZ - half) / (Math.SQRT2 * sz));
+    const w = k === 0 || k === n ? 1 : (k % 2 === 1 ? 4 : 2);
+    sum += w * gx * strip;
+  }
+  return Math.min(1, Math.max(0, (sum * h) / 3));
+};
+
+/**
+ * Chan: Pc = sum_m Poisson(m; v/2) * (1 - PoissonCDF(m; u/2)),
+ * u = R^2 / (sx sz), v = (mx/sx)^2 + (mz/sz)^2.
+ */
+export const chanPc = (g: EncounterGeometry): number => {
+  const u = (g.hardBodyRadius * g.hardBodyRadius) / (g.sigmaX * g.sigmaZ);
+  const v = (g.missX / g.sigmaX) ** 2 + (g.missZ / g.sigmaZ) ** 2;
+  const lv = v / 2;
+  const lu = u / 2;
+
+  // Beyond this the hard-body tail (1 - CDF) is negligible, whatever the miss distance
+  const maxTerms = Math.ceil(lu + 20 * Math.sqrt(lu + 1) + 60);
+  let logPmfV = -lv; // log Poisson(0; v/2)
+  let pmfU = Math.exp(-lu);
+  let cdfU = pmfU;
+  let pc = 0;
+  for (let m = 0; m <= maxTerms; m++) {
+    if (m > 0) {
+      logPmfV += Math.log(lv) - Math.log(m);
+      pmfU *= lu / m;
+      cdfU += pmfU;
+    }
+    pc += Math.exp(logPmfV) * Math.max(0, 1 - cdfU);
+  }
+  return Math.min(1, Math.max(0, pc));
+};
+
+/**
+ * Alfano maximum Pc: the largest Foster Pc attainable by uniformly scaling the
+ * combined covariance, found by golden-section search in log(scale).
+ */
+export const alfanoMaxPc = (g: EncounterGeometry): number => {
+  const phi = (Math.sqrt(5) - 1) / 2;
+  let lo = Math.log(1e-3);
+  let hi = Math.log(1e3);
+  let x1 = hi - phi * (hi - lo);
+  let x2 = lo + phi * (hi - lo);
+  let f1 = fosterPc(g, Math.exp(x1));
+  let f2 = fosterPc(g, Math.exp(x2));
+  for (let k = 0; k < 40; k++) {
+    if (f1 > f2) {
+      hi = x2; x2 = x1; f2 = f1;
+      x1 = hi - phi * (hi - lo);
+      f1 = fosterPc(g, Math.exp(x1));
+    } else {
+      lo = x1; x1 = x2; f1 = f2;
+      x2 = lo + phi * (hi - lo);
+      f2 = fosterPc(g, Math.exp(x2));
+    }
+  }
+  return Math.max(f1, f2, fosterPc(g));
+};
+
+/**
+ * Upper bound on the Foster Pc at the stated covariance: the peak density times
+ * the circle area, attenuated by the closest the circle gets along the widest axis.
+ */
+const pcUpperBound = (g: EncounterGeometry): number => {
+  const R = g.hardBodyRadius;
+  const clearance = Math.max(0, Math.hypot(g.missX, g.missZ) - R) / Math.max(g.sigmaX, g.sigmaZ);
+  return ((R * R) / (2 * g.sigmaX * g.sigmaZ)) * Math.exp(-0.5 * clearance * clearance);
+};
+
+export interface PcAssessment {
+  stateA: StateVector;
+  stateB: StateVector;
+  geometry: EncounterGeometry;
+  pc: PcEstimates;
+  riskLevel: RiskLevel; // Tier from Foster Pc
+}
+
+// Full Pc assessment of a pair at TCA (t in seconds since Unix epoch)
+export const assessCollisionProbability = (a: OrbitalObject, b: OrbitalObject, t: number): PcAssessment => {
+  const stateA = getPropagator(a).propagate(a, t);
+  const stateB = getPropagator(b).propagate(b, t);
+  const hbr = getHardBodyRadius(a) + getHardBodyRadius(b);
+  const geometry = encounterGeometry(stateA, getPositionCovariance(a), stateB, getPositionCovariance(b), hbr);
+
+  // Distant approaches cannot reach any risk tier at this covariance; skip the integrations
+  if (pcUpperBound(geometry) < PC_MEDIUM_THRESHOLD * 1e-3) {
+    return { stateA, stateB, geometry, pc: { foster: 0, chan: 0, alfanoMax: 0 }, riskLevel: RiskLevel.LOW };
+  }
+
+  const pc: PcEstimates = {
+    foster: fosterPc(geometry),
+    chan: chanPc(geometry),
+    alfanoMax: alfanoMaxPc(geometry),
+  };
+  return { stateA, stateB, geometry, pc, riskLevel: riskLevelFromPc(pc.foster) };
+};
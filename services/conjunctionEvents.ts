@@ -0,0 +1,132 @@
+import { Conjunction, ConjunctionEvent, ConjunctionEventStatus, ConjunctionEstimate, OrbitalObject, RiskLevel } from '../types';
+
+/**
+ * CONJUNCTION EVENTS
+ * Screenings are snapshots; events give each encounter an identity across them.
+ * A new estimate joins the open event of the same object pair whose TCA is
+ * within a tolerance, appends to its history and moves it through
+ * NEW -> UPDATED / ESCALATED -> MITIGATED / DROPPED / CLOSED.
+ */
+
+// Estimates of the same pair this close in TCA are the same encounter
+export const EVENT_TCA_TOLERANCE = 600; // s
+// A Pc rise of this factor within the same tier also counts as an escalation
+const ESCALATION_FACTOR = 10;
+const MAX_HISTORY = 200;
+// Closed, mitigated and dropped events are kept this long after TCA for review
+const RETENTION = 24 * 3600; // s
+
+const RISK_RANK: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+};
+
+const OPEN_STATUSES: ConjunctionEventStatus[] = ['NEW', 'UPDATED', 'ESCALATED'];
+
+export const isEventOpen = (event: ConjunctionEvent) => OPEN_STATUSES.includes(event.status);
+
+const toEstimate = (c: Conjunction, epochMs: number): ConjunctionEstimate => ({
+  epoch: epochMs,
+  tca: c.tca,
+  probability: c.probability,
+  missDistance: c.missDistance,
+  riskLevel: c.riskLevel,
+  source: c.source ?? 'SCREENING',
+});
+
+const samePair = (e: ConjunctionEvent, c: Conjunction) =>
+  (e.objectA === c.objectA && e.objectB === c.objectB) || (e.objectA === c.objectB && e.objectB === c.objectA);
+
+const nextStatus = (event: ConjunctionEvent, c: Conjunction): ConjunctionEventStatus => {
+  const prev = event.latest;
+  if (event.status === 'MITIGATED') return 'ESCALATED';
+  if (RISK_RANK[c.riskLevel] > RISK_RANK[prev.riskLevel]) return 'ESCALATED';
+  if (prev.probability > 0 && c.probability >= prev.probability * ESCALATION_FACTOR) return 'ESCALATED';
+  return 'UPDATED';
+};
+
+/**
+ * Re-tiers open events from a re-classification of the screening they came
+ * from (after alert rules were edited): the tier and deciding rule change, the
+ * history and status do not. Approaches that now rise above LOW become events,
+ * and escalations are announced, with the next screening.
+ */
+export const retierEvents = (events: ConjunctionEvent[], conjunctions: Conjunction[]): ConjunctionEvent[] =>
+  events.map(e => {
+    if (!isEventOpen(e)) return e;
+    const c = conjunctions.find(c => samePair(e, c) && Math.abs(e.latest.tca - c.tca) < EVENT_TCA_TOLERANCE * 1000);
+    if (!c || (c.riskLevel === e.latest.riskLevel && c.ruleId === e.latest.ruleId)) return e;
+    return { ...e, latest: { ...e.latest, riskLevel: c.riskLevel, ruleId: c.ruleId } };
+  });
+
+export interface EventUpdateOptions {
+  // The estimates are a complete screening: open screening events missing from it are mitigated
+  // when a burn of either object covers them, dropped otherwise
+  sweep: boolean;
+  objects?: OrbitalObject[]; // Catalog the screening ran on
+}
+
+// A burn of either object planned after the event was first seen and igniting before its TCA
+const isCoveredByBurn = (e: ConjunctionEvent, objects: OrbitalObject[]) =>
+  objects.some(o => (o.id === e.objectA || o.id === e.objectB)
+    && (o.burns ?? []).some(b => b.burnEpoch >= e.firstSeen && b.burnEpoch < e.latest.tca));
+
+/**
+ * Folds a batch of conjunctions, estimated at epoch (s since Unix epoch), into
+ * the tracked events. Returned conjunctions carry their event's id.
+ */
+export const updateEvents = (
+  events: ConjunctionEvent[], conjunctions: Conjunction[], epoch: number, options: EventUpdateOptions,
+): ConjunctionEvent[] => {
+  const epochMs = epoch * 1000;
+  const next = events.map(e => ({ ...e }));
+  const matched = new Set<string>();
+
+  conjunctions.forEach(c => {
+    // Closest open (or mitigated) estimate of the same pair within tolerance
+    let best: ConjunctionEvent | null = null;
+    for (const e of next) {
+      if (e.status === 'CLOSED' || matched.has(e.id) || !samePair(e, c)) continue;
+      const gap = Math.abs(e.latest.tca - c.tca);
+      if (gap < EVENT_TCA_TOLERANCE * 1000 && (!best || gap < Math.abs(best.latest.tca - c.tca))) best = e;
+    }
+
+    if (best) {
+      best.status = nextStatus(best, c);
+      best.latest = { ...c, id: best.id };
+      best.history = [...best.history, toEstimate(c, epochMs)].slice(-MAX_HISTORY);
+      best.updatedAt = epochMs;
+      matched.add(best.id);
+      return;
+    }
+
+    next.push({
+      id: c.id,
+      objectA: c.objectA,
+      objectB: c.objectB,
+      status: 'NEW',
+      latest: c,
+      history: [toEstimate(c, epochMs)],
+      firstSeen: epochMs,
+      updatedAt: epochMs,
+    });
+    matched.add(c.id);
+  });
+
+  return next
+    .map(e => {
+      const latest = { ...e.latest, timeToImpact: e.latest.tca / 1000 - epoch };
+      if (e.status !== 'CLOSED' && e.latest.tca <= epochMs) {
+        return { ...e, latest, status: 'CLOSED' as const, updatedAt: epochMs };
+      }
+      // Screening events are only ever re-confirmed by a screening; CDMs arrive one by one
+      const screened = (e.latest.source ?? 'SCREENING') === 'SCREENING';
+      if (options.sweep && screened && isEventOpen(e) && !matched.has(e.id)) {
+        const status = isCoveredByBurn(e, options.objects ?? []) ? 'MITIGATED' as const : 'DROPPED' as const;
+        return { ...e, latest, status, updatedAt: epochMs };
+      }
+      return { ...e, latest };
+    })
+    .filter(e => isEventOpen(e) || e.latest.tca / 1000 > epoch - RETENTION);
+};
@@ -0,0 +1,160 @@
+import { Conjunction, StateVector } from '../types';
+import { encounterGeometry, rtnToInertial, EncounterGeometry } from './collisionProbability';
+import { propagateTwoBody } from './propagators';
+
+/**
+ * ENCOUNTER VIEW
+ * Geometry for the close-up of a single conjunction, centred on the primary at
+ * TCA. Everything is expressed in the view frame, built from the B-plane frame
+ * of collisionProbability:
+ *   X: in-plane miss direction, Y: completes the B-plane, Z: against the relative velocity
+ * so the B-plane is Z = 0 and the secondary passes through it travelling towards -Z.
+ */
+
+type Matrix3 = number[][];
+export type ViewVector = [number, number, number]; // km, view frame
+
+export interface ViewEllipsoid {
+  center: ViewVector; // km
+  radii: ViewVector; // 1-sigma semi-axes (km)
+  axes: [ViewVector, ViewVector, ViewVector]; // Unit vectors of the semi-axes (right-handed)
+}
+
+export interface EncounterView {
+  geometry: EncounterGeometry;
+  extent: number; // km; half-size of the region worth showing
+  halfSpan: number; // s; trajectory is sampled over TCA +/- halfSpan
+  trajectory: { dt: number, position: ViewVector }[]; // Secondary relative to primary
+  missPoint: ViewVector; // Secondary's crossing of the B-plane
+  primaryEllipsoid: ViewEllipsoid;
+  secondaryEllipsoid: ViewEllipsoid;
+  // Combined B-plane covariance ellipse (1-sigma), centred on the primary
+  bPlaneEllipse: { radii: [number, number], angle: number }; // km, rad from +X towards +Y
+}
+
+const TRAJECTORY_SAMPLES = 121;
+const MIN_EXTENT = 0.05; // km
+const SIGMA_EXTENT = 3;
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const toArray = (v: { x: number, y: number, z: number }) => [v.x, v.y, v.z];
+const positionBlock = (cov: number[][]): Matrix3 => [0, 1, 2].map(i => [0, 1, 2].map(j => cov[i][j]));
+
+// Rows: view axes in inertial coordinates
+const viewFrame = (g: EncounterGeometry): Matrix3 => {
+  const [ex, ey, ez] = g.frame;
+  return [ex, ez, ey.map(x => -x)];
+};
+
+const toView = (F: Matrix3, v: number[]): ViewVector => [dot(F[0], v), dot(F[1], v), dot(F[2], v)];
+
+// F C F^T
+const rotateCovariance = (F: Matrix3, C: Matrix3): Matrix3 =>
+  F.map(fi => F.map(fj => [0, 1, 2].reduce((s, k) => s + fi[k] * [0, 1, 2].reduce((t, l) => t + C[k][l] * fj[l], 0), 0)));
+
+/**
+ * Eigen-decomposition of a symmetric 3x3 matrix by cyclic Jacobi rotations.
+ * Returns eigenvalues and the matching eigenvectors (columns of V).
+ */
+const symmetricEigen = (A: Matrix3): { values: number[], vectors: Matrix3 } => {
+  const a = A.map(row => [...row]);
+  const V = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  for (let sweep = 0; sweep < 20; sweep++) {
+    const off = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (off < 1e-30) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-300) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1), s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p], akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k], aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = V[k][p], vkq = V[k][q];
+        V[k][p] = c * vkp - s * vkq;
+        V[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  return { values: [a[0][0], a[1][1], a[2][2]], vectors: V };
+};
+
+const covarianceEllipsoid = (F: Matrix3, covRtn: number[][], state: StateVector, center: ViewVector): ViewEllipsoid => {
+  const { values, vectors } = symmetricEigen(rotateCovariance(F, rtnToInertial(positionBlock(covRtn), state)));
+  const axes = [0, 1, 2].map(j => [vectors[0][j], vectors[1][j], vectors[2][j]] as ViewVector) as ViewEllipsoid['axes'];
+  // Keep the basis right-handed so it maps to a pure rotation
+  const [u, v, w] = axes;
+  if (dot(w, [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]]) < 0) {
+    axes[2] = [-w[0], -w[1], -w[2]];
+  }
+  return { center, radii: values.map(l => Math.sqrt(Math.max(l, 0))) as ViewVector, axes };
+};
+
+// Close-up geometry for a conjunction carrying TCA states (null for conjunctions without them)
+export const buildEncounterView = (conjunction: Conjunction): EncounterView | null => {
+  const { primary, secondary } = conjunction;
+  if (!primary || !secondary) return null;
+
+  const geometry = encounterGeometry(
+    primary.state, positionBlock(primary.covariance),
+    secondary.state, positionBlock(secondary.covariance),
+    conjunction.hardBodyRadius,
+  );
+  const F = viewFrame(geometry);
+  const relative = toArray(secondary.state.position).map((x, k) => x - toArray(primary.state.position)[k]);
+  const missPoint = toView(F, relative);
+
+  const primaryEllipsoid = covarianceEllipsoid(F, primary.covariance, primary.state, [0, 0, 0]);
+  const secondaryEllipsoid = covarianceEllipsoid(F, secondary.covariance, secondary.state, missPoint);
+
+  const extent = Math.max(
+    MIN_EXTENT,
+    geometry.missDistance * 1.2,
+    SIGMA_EXTENT * Math.max(...primaryEllipsoid.radii, ...secondaryEllipsoid.radii),
+    5 * geometry.hardBodyRadius,
+  );
+  // Long enough for the secondary to cross the whole view on either side of TCA
+  const halfSpan = (2 * extent) / Math.max(geometry.relativeVelocity, 1e-6);
+
+  const trajectory = Array.from({ length: TRAJECTORY_SAMPLES }, (_, k) => {
+    const dt = -halfSpan + (2 * halfSpan * k) / (TRAJECTORY_SAMPLES - 1);
+    const a = propagateTwoBody(primary.state, dt).position;
+    const b = propagateTwoBody(secondary.state, dt).position;
+    return { dt, position: toView(F, [b.x - a.x, b.y - a.y, b.z - a.z]) };
+  });
+
+  const [[cxx, cxz], [, czz]] = geometry.covariance2d;
+  const angle = 0.5 * Math.atan2(2 * cxz, cxx - czz);
+  const ct = Math.cos(angle), st = Math.sin(angle);
+  const l1 = cxx * ct * ct + 2 * cxz * ct * st + czz * st * st;
+  const l2 = cxx * st * st - 2 * cxz * ct * st + czz * ct * ct;
+
+  return {
+    geometry,
+    extent,
+    halfSpan,
+    trajectory,
+    missPoint,
+    primaryEllipsoid,
+    secondaryEllipsoid,
+    bPlaneEllipse: { radii: [Math.sqrt(Math.max(l1, 0)), Math.sqrt(Math.max(l2, 0))], angle },
+  };
+};
+
+// Secondary's position relative to the primary dt seconds from TCA, interpolated along the sampled pass
+export const relativePositionAt = (view: EncounterView, dt: number): ViewVector => {
+  const { trajectory } = view;
+  const f = Math.min(Math.max((dt + view.halfSpan) / (2 * view.halfSpan), 0), 1) * (trajectory.length - 1);
+  const k = Math.min(Math.floor(f), trajectory.length - 2);
+  const u = f - k;
+  const p = trajectory[k].position, q = trajectory[k + 1].position;
+  return [p[0] + (q[0] - p[0]) * u, p[1] + (q[1] - p[1]) * u, p[2] + (q[2] - p[2]) * u];
+};
@@ -0,0 +1,188 @@
+import { Vector3, OrbitalObject, StateVector } from '../types';
+import { EARTH_EQUATORIAL_RADIUS, EARTH_ROTATION_RATE } from './propagators';
+import { getPositionAtTime } from './orbitalPhysics';
+
+/**
+ * GEODESY
+ * Earth-fixed coordinates for the inertial (TEME / true-of-date) positions the
+ * propagators produce: rotation by Greenwich mean sidereal time (IAU 1982) to
+ * ECEF, then WGS-84 geodetic latitude, longitude and height. Polar motion and
+ * the equation of the equinoxes are neglected (tens of metres). Full states
+ * convert between TEME and the exchange frames of CDMs (EME2000, ITRF).
+ */
+
+const WGS84_FLATTENING = 1 / 298.257223563;
+const WGS84_E2 = WGS84_FLATTENING * (2 - WGS84_FLATTENING);
+const DEG = Math.PI / 180;
+
+export interface Geodetic {
+  latitude: number; // deg, geodetic
+  longitude: number; // deg, -180..180 east positive
+  altitude: number; // km above the ellipsoid
+}
+
+// Greenwich mean sidereal time (rad) at t (s since Unix epoch, UT1 ~ UTC)
+export const gmst = (t: number): number => {
+  const T = (t / 86400 + 2440587.5 - 2451545.0) / 36525;
+  const seconds = 67310.54841 + (876600 * 3600 + 8640184.812866) * T + 0.093104 * T * T - 6.2e-6 * T * T * T;
+  const angle = ((seconds % 86400) / 240) * DEG;
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+};
+
+export const eciToEcef = (r: Vector3, t: number): Vector3 => {
+  const theta = gmst(t);
+  const c = Math.cos(theta), s = Math.sin(theta);
+  return { x: c * r.x + s * r.y, y: -s * r.x + c * r.y, z: r.z };
+};
+
+export const ecefToEci = (r: Vector3, t: number): Vector3 => {
+  const theta = gmst(t);
+  const c = Math.cos(theta), s = Math.sin(theta);
+  return { x: c * r.x - s * r.y, y: s * r.x + c * r.y, z: r.z };
+};
+
+// --- REFERENCE FRAMES ---
+
+const ARCSEC = DEG / 3600;
+
+type Matrix3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+// Frame rotations about x and z by angle a (coordinates in the rotated frame)
+const rotX = (a: number): Matrix3 => {
+  const c = Math.cos(a), s = Math.sin(a);
+  return [[1, 0, 0], [0, c, s], [0, -s, c]];
+};
+const rotY = (a: number): Matrix3 => {
+  const c = Math.cos(a), s = Math.sin(a);
+  return [[c, 0, -s], [0, 1, 0], [s, 0, c]];
+};
+const rotZ = (a: number): Matrix3 => {
+  const c = Math.cos(a), s = Math.sin(a);
+  return [[c, s, 0], [-s, c, 0], [0, 0, 1]];
+};
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])) as Matrix3;
+
+const apply = (m: Matrix3, v: Vector3): Vector3 => ({
+  x: m[0][0] * v.x + m[0][1] * v.y + m[0][2] * v.z,
+  y: m[1][0] * v.x + m[1][1] * v.y + m[1][2] * v.z,
+  z: m[2][0] * v.x + m[2][1] * v.y + m[2][2] * v.z,
+});
+
+const transpose = (m: Matrix3): Matrix3 => [0, 1, 2].map(i => [m[0][i], m[1][i], m[2][i]]) as Matrix3;
+
+/**
+ * Rotation from EME2000 to TEME at t (s since Unix epoch): IAU-76 precession,
+ * IAU-80 nutation to its four largest terms (~0.5 arcsec, about 20 m in LEO)
+ * and the equation of the equinoxes. UTC is used for TT; the 69 s offset is
+ * far below the precision of the series.
+ */
+const eme2000ToTemeMatrix = (t: number): Matrix3 => {
+  const T = (t / 86400 + 2440587.5 - 2451545.0) / 36525;
+  const zeta = (2306.2181 * T + 0.30188 * T * T + 0.017998 * T * T * T) * ARCSEC;
+  const theta = (2004.3109 * T - 0.42665 * T * T - 0.041833 * T * T * T) * ARCSEC;
+  const z = (2306.2181 * T + 1.09468 * T * T + 0.018203 * T * T * T) * ARCSEC;
+  const precession = multiply(rotZ(-z), multiply(rotY(theta), rotZ(-zeta)));
+
+  const meanObliquity = (84381.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T * T * T) * ARCSEC;
+  const node = (125.04452 - 1934.136261 * T) * DEG; // Moon's ascending node
+  const sun = (280.4665 + 36000.7698 * T) * DEG; // Mean longitudes
+  const moon = (218.3165 + 481267.8813 * T) * DEG;
+  const dPsi = (-17.2 * Math.sin(node) - 1.32 * Math.sin(2 * sun) - 0.23 * Math.sin(2 * moon) + 0.21 * Math.sin(2 * node)) * ARCSEC;
+  const dEps = (9.2 * Math.cos(node) + 0.57 * Math.cos(2 * sun) + 0.1 * Math.cos(2 * moon) - 0.09 * Math.cos(2 * node)) * ARCSEC;
+  const nutation = multiply(rotX(-(meanObliquity + dEps)), multiply(rotZ(-dPsi), rotX(meanObliquity)));
+
+  // TEME keeps the mean equinox: undo the equation of the equinoxes
+  const equinox = rotZ(dPsi * Math.cos(meanObliquity));
+  return multiply(equinox, multiply(nutation, precession));
+};
+
+export const eme2000ToTeme = (s: StateVector, t: number): StateVector => {
+  const m = eme2000ToTemeMatrix(t);
+  return { position: apply(m, s.position), velocity: apply(m, s.velocity) };
+};
+
+export const temeToEme2000 = (s: StateVector, t: number): StateVector => {
+  const m = transpose(eme2000ToTemeMatrix(t));
+  return { position: apply(m, s.position), velocity: apply(m, s.velocity) };
+};
+
+// Earth-fixed velocities exclude the frame's rotation (omega x r). With UT1 ~ UTC and no polar
+// motion this is ITRF to a few hundred metres at worst (|UT1 - UTC| < 0.9 s)
+export const temeToItrf = (s: StateVector, t: number): StateVector => {
+  const r = eciToEcef(s.position, t);
+  const v = eciToEcef(s.velocity, t);
+  return { position: r, velocity: { x: v.x + EARTH_ROTATION_RATE * r.y, y: v.y - EARTH_ROTATION_RATE * r.x, z: v.z } };
+};
+
+export const itrfToTeme = (s: StateVector, t: number): StateVector => {
+  const { position: r, velocity: v } = s;
+  return {
+    position: ecefToEci(r, t),
+    velocity: ecefToEci({ x: v.x - EARTH_ROTATION_RATE * r.y, y: v.y + EARTH_ROTATION_RATE * r.x, z: v.z }, t),
+  };
+};
+
+// Iterative (Bowring-style) conversion; converges to sub-millimetre in a few passes
+export const ecefToGeodetic = (r: Vector3): Geodetic => {
+  const p = Math.hypot(r.x, r.y);
+  let lat = Math.atan2(r.z, p * (1 - WGS84_E2));
+  let h = 0;
+  for (let k = 0; k < 5; k++) {
+    const sinLat = Math.sin(lat);
+    const N = EARTH_EQUATORIAL_RADIUS / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    h = p > 1e-9 ? p / Math.cos(lat) - N : Math.abs(r.z) - N * (1 - WGS84_E2);
+    lat = Math.atan2(r.z, p * (1 - (WGS84_E2 * N) / (N + h)));
+  }
+  return { latitude: lat / DEG, longitude: Math.atan2(r.y, r.x) / DEG, altitude: h };
+};
+
+export const geodeticToEcef = (g: Geodetic): Vector3 => {
+  const lat = g.latitude * DEG, lon = g.longitude * DEG;
+  const N = EARTH_EQUATORIAL_RADIUS / Math.sqrt(1 - WGS84_E2 * Math.sin(lat) ** 2);
+  return {
+    x: (N + g.altitude) * Math.cos(lat) * Math.cos(lon),
+    y: (N + g.altitude) * Math.cos(lat) * Math.sin(lon),
+    z: (N * (1 - WGS84_E2) + g.altitude) * Math.sin(lat),
+  };
+};
+
+// Sub-satellite point of an inertial position at t (s since Unix epoch)
+export const eciToGeodetic = (r: Vector3, t: number): Geodetic => ecefToGeodetic(eciToEcef(r, t));
+
+// --- GROUND TRACKS ---
+
+export interface GroundTrackPoint extends Geodetic {
+  t: number; // s since Unix epoch
+}
+
+// Sub-satellite points from t0 to t1; longitude wraps at the antimeridian
+export const groundTrack = (obj: OrbitalObject, t0: number, t1: number, stepSeconds: number = 30): GroundTrackPoint[] => {
+  const points: GroundTrackPoint[] = [];
+  for (let t = t0; t <= t1; t += stepSeconds) {
+    points.push({ t, ...eciToGeodetic(getPositionAtTime(obj, t), t) });
+  }
+  return points;
+};
+
+/**
+ * Earth central angle (deg) of the region from which a satellite at altitudeKm
+ * is above minElevationDeg; the radius of a station's visibility circle.
+ */
+export const visibilityHalfAngle = (altitudeKm: number, minElevationDeg: number): number => {
+  const eps = minElevationDeg * DEG;
+  const ratio = (EARTH_EQUATORIAL_RADIUS * Math.cos(eps)) / (EARTH_EQUATORIAL_RADIUS + altitudeKm);
+  return (Math.acos(Math.min(1, ratio)) - eps) / DEG;
+};
+
+// Small circle of the given angular radius (deg) around a point, as lat/lon pairs
+export const smallCircle = (latitude: number, longitude: number, radiusDeg: number, segments: number = 72): { latitude: number, longitude: number }[] => {
+  const lat0 = latitude * DEG, lon0 = longitude * DEG, d = radiusDeg * DEG;
+  return Array.from({ length: segments + 1 }, (_, k) => {
+    const bearing = (2 * Math.PI * k) / segments;
+    const lat = Math.asin(Math.sin(lat0) * Math.cos(d) + Math.cos(lat0) * Math.sin(d) * Math.cos(bearing));
+    const lon = lon0 + Math.atan2(Math.sin(bearing) * Math.sin(d) * Math.cos(lat0), Math.cos(d) - Math.sin(lat0) * Math.sin(lat));
+    return { latitude: lat / DEG, longitude: ((lon / DEG + 540) % 360) - 180 };
+  });
+};
@@ -0,0 +1,162 @@
+import { GroundStation, OrbitalObject, Vector3 } from '../types';
+import { getPositionAtTime } from './orbitalPhysics';
+import { eciToEcef, geodeticToEcef } from './geodesy';
+
+/**
+ * GROUND STATIONS
+ * Contact (AOS/LOS) windows between satellites and a ground network, found by
+ * sampling topocentric elevation and refining each mask crossing by bisection,
+ * and the uplink check that a planned burn can still be commanded in time.
+ */
+
+export const DEFAULT_GROUND_STATIONS: GroundStation[] = [
+  { id: 'SVAL', name: 'Svalbard', latitude: 78.229, longitude: 15.407, altitude: 0.5, minElevation: 5 },
+  { id: 'FAIR', name: 'Fairbanks', latitude: 64.859, longitude: -147.854, altitude: 0.2, minElevation: 5 },
+  { id: 'WALL', name: 'Wallops', latitude: 37.940, longitude: -75.466, altitude: 0.0, minElevation: 5 },
+  { id: 'SANT', name: 'Santiago', latitude: -33.151, longitude: -70.667, altitude: 0.7, minElevation: 5 },
+  { id: 'HBK', name: 'Hartebeesthoek', latitude: -25.890, longitude: 27.685, altitude: 1.5, minElevation: 5 },
+  { id: 'MASP', name: 'Maspalomas', latitude: 27.763, longitude: -15.633, altitude: 0.2, minElevation: 5 },
+  { id: 'CANB', name: 'Canberra', latitude: -35.401, longitude: 148.982, altitude: 0.7, minElevation: 5 },
+  { id: 'HAW', name: 'South Point', latitude: 19.014, longitude: -155.663, altitude: 0.4, minElevation: 5 },
+];
+
+// Coarse elevation sampling; LEO passes above a 5 deg mask last several minutes
+const CONTACT_STEP = 30; // s
+const CROSSING_TOLERANCE = 1; // s
+// Commands must be on board this long before ignition
+export const DEFAULT_UPLINK_MARGIN = 10 * 60; // s
+// Shortest usable contact for a command upload
+export const MIN_UPLINK_CONTACT = 60; // s
+
+const DEG = Math.PI / 180;
+
+export interface ContactWindow {
+  stationId: string;
+  stationName: string;
+  objectId: string;
+  aos: number; // Acquisition of signal (ms since Unix epoch, UTC)
+  los: number; // Loss of signal (ms)
+  maxElevation: number; // deg
+}
+
+// Station position and local up / east / north axes in ECEF
+const stationFrame = (station: GroundStation) => {
+  const lat = station.latitude * DEG, lon = station.longitude * DEG;
+  return {
+    position: geodeticToEcef(station),
+    up: [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)],
+    east: [-Math.sin(lon), Math.cos(lon), 0],
+    north: [-Math.sin(lat) * Math.cos(lon), -Math.sin(lat) * Math.sin(lon), Math.cos(lat)],
+  };
+};
+
+type StationFrame = ReturnType<typeof stationFrame>;
+
+export interface LookAngles {
+  elevation: number; // deg
+  azimuth: number; // deg, clockwise from north
+  range: number; // km
+}
+
+const lookAnglesFrom = (frame: StationFrame, eci: Vector3, t: number): LookAngles => {
+  const r = eciToEcef(eci, t);
+  const d = [r.x - frame.position.x, r.y - frame.position.y, r.z - frame.position.z];
+  const range = Math.hypot(d[0], d[1], d[2]);
+  const component = (axis: number[]) => axis[0] * d[0] + axis[1] * d[1] + axis[2] * d[2];
+  const azimuth = Math.atan2(component(frame.east), component(frame.north)) / DEG;
+  return {
+    elevation: Math.asin(component(frame.up) / range) / DEG,
+    azimuth: azimuth < 0 ? azimuth + 360 : azimuth,
+    range,
+  };
+};
+
+// Topocentric look angles from a station to an inertial position at t (s since Unix epoch)
+export const lookAngles = (station: GroundStation, eci: Vector3, t: number): LookAngles => {
+  return lookAnglesFrom(stationFrame(station), eci, t);
+};
+
+/**
+ * AOS/LOS windows of one object over all stations between start and end
+ * (s since Unix epoch), in AOS order. Passes already in progress at start or
+ * still open at end are clipped to the interval.
+ */
+export const computeContactWindows = (
+  obj: OrbitalObject, stations: GroundStation[], start: number, end: number, stepSeconds: number = CONTACT_STEP,
+): ContactWindow[] => {
+  const frames = stations.map(stationFrame);
+  const margin = (k: number, t: number) => lookAnglesFrom(frames[k], getPositionAtTime(obj, t), t).elevation - stations[k].minElevation;
+
+  // Mask crossing between t0 and t1 (rising: below the mask at t0, above at t1)
+  const crossing = (k: number, t0: number, t1: number, rising: boolean) => {
+    while (t1 - t0 > CROSSING_TOLERANCE) {
+      const mid = 0.5 * (t0 + t1);
+      if ((margin(k, mid) > 0) === rising) t1 = mid;
+      else t0 = mid;
+    }
+    return 0.5 * (t0 + t1);
+  };
+
+  const windows: ContactWindow[] = [];
+  const open: ({ aos: number, maxElevation: number } | null)[] = stations.map(() => null);
+  let prevT = start;
+  let prev = stations.map((_, k) => margin(k, start));
+  prev.forEach((m, k) => { if (m > 0) open[k] = { aos: start, maxElevation: m + stations[k].minElevation }; });
+
+  const close = (k: number, los: number) => {
+    const pass = open[k]!;
+    windows.push({
+      stationId: stations[k].id,
+      stationName: stations[k].name,
+      objectId: obj.id,
+      aos: pass.aos * 1000,
+      los: los * 1000,
+      maxElevation: pass.maxElevation,
+    });
+    open[k] = null;
+  };
+
+  for (let t = start + stepSeconds; prevT < end; t += stepSeconds) {
+    const tk = Math.min(t, end);
+    const eci = getPositionAtTime(obj, tk);
+    const cur = stations.map((s, k) => lookAnglesFrom(frames[k], eci, tk).elevation - s.minElevation);
+    cur.forEach((m, k) => {
+      if (m > 0 && prev[k] <= 0) open[k] = { aos: crossing(k, prevT, tk, true), maxElevation: m + stations[k].minElevation };
+      else if (m <= 0 && prev[k] > 0) close(k, crossing(k, prevT, tk, false));
+      else if (m > 0) open[k]!.maxElevation = Math.max(open[k]!.maxElevation, m + stations[k].minElevation);
+    });
+    prev = cur;
+    prevT = tk;
+  }
+  open.forEach((pass, k) => { if (pass) close(k, end); });
+
+  return windows.sort((a, b) => a.aos - b.aos);
+};
+
+// --- UPLINK ---
+
+export interface UplinkCheck {
+  deadline: number; // Latest command time: ignition minus margin (ms since Unix epoch)
+  window: ContactWindow | null; // Last usable contact before the deadline
+  contactSeconds: number; // Usable part of that contact
+}
+
+/**
+ * Finds the last contact, between now (s since Unix epoch) and the command
+ * deadline before ignition, long enough to upload the burn.
+ */
+export const checkUplink = (
+  windows: ContactWindow[], now: number, burnEpoch: number, marginSeconds: number = DEFAULT_UPLINK_MARGIN,
+): UplinkCheck => {
+  const deadline = burnEpoch - marginSeconds * 1000;
+  let best: ContactWindow | null = null;
+  let bestSeconds = 0;
+  for (const w of windows) {
+    const contactSeconds = (Math.min(w.los, deadline) - Math.max(w.aos, now * 1000)) / 1000;
+    if (contactSeconds >= MIN_UPLINK_CONTACT && (!best || w.aos > best.aos)) {
+      best = w;
+      bestSeconds = contactSeconds;
+    }
+  }
+  return { deadline, window: best, contactSeconds: bestSeconds };
+};
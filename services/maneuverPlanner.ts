@@ -0,0 +1,255 @@
+import { Conjunction, Maneuver, StateVector, OrbitalObject, BurnModel } from '../types';
+import { propagateTwoBody } from './propagators';
+import { encounterGeometry, fosterPc, rtnBasis, PC_MEDIUM_THRESHOLD } from './collisionProbability';
+import { getPostManeuverObject, screenObject, DEFAULT_SCREENING_WINDOW } from './orbitalPhysics';
+
+/**
+ * AVOIDANCE MANEUVER PLANNING
+ * Sizes a single burn in the primary's radial/along-track plane so the
+ * conjunction clears a target miss distance and Pc. The burn is applied at
+ * (TCA - lead time) and its effect at TCA is taken from two-body propagation of
+ * the burned and unburned states, added to the conjunction's own TCA state.
+ * That linearised offset keeps the prediction consistent with whichever
+ * propagator (or CDM originator) produced the encounter.
+ * Before execution, the post-maneuver orbit is re-screened against the whole
+ * catalog so the burn does not trade one conjunction for another.
+ */
+
+export interface ManeuverPlanOptions {
+  massKg: number; // Spacecraft wet mass
+  thrustN: number; // Available thrust
+  leadTimeS: number; // Burn centre before TCA
+  targetMissDistance: number; // Minimum B-plane miss after the burn (km)
+  targetPc: number; // Post-maneuver Pc must fall below this
+  maxDeltaV: number; // Search limit (m/s)
+}
+
+export const DEFAULT_MANEUVER_OPTIONS: ManeuverPlanOptions = {
+  massKg: 500,
+  thrustN: 1,
+  leadTimeS: 3 * 3600,
+  targetMissDistance: 1,
+  targetPc: PC_MEDIUM_THRESHOLD,
+  maxDeltaV: 5,
+};
+
+// Mass and thrust from the asset's metadata, where known
+export const assetPlanOptions = (asset?: OrbitalObject | null): Partial<ManeuverPlanOptions> => ({
+  ...(asset?.massKg !== undefined ? { massKg: asset.massKg } : {}),
+  ...(asset?.thrustN !== undefined ? { thrustN: asset.thrustN } : {}),
+});
+
+// Burn directions searched in the R-T plane (angle from +T towards +R)
+const DIRECTION_COUNT = 12;
+const MIN_DELTA_V = 0.001; // m/s
+const BISECTION_STEPS = 30;
+
+interface ManeuverOutcome {
+  missDistance: number; // km
+  pc: number;
+}
+
+// base + (burned - coast)
+const applyOffset = (base: StateVector['position'], burned: StateVector['position'], coast: StateVector['position']) => ({
+  x: base.x + burned.x - coast.x, y: base.y + burned.y - coast.y, z: base.z + burned.z - coast.z,
+});
+
+const positionBlock = (cov: number[][]) => [0, 1, 2].map(i => [0, 1, 2].map(j => cov[i][j]));
+
+/**
+ * Predicts miss distance and Pc at TCA for an impulsive RTN delta-v (m/s)
+ * applied leadTimeS before TCA.
+ */
+const createEvaluator = (conjunction: Conjunction, leadTimeS: number) => {
+  const primary = conjunction.primary!;
+  const secondary = conjunction.secondary!;
+  const covA = positionBlock(primary.covariance);
+  const covB = positionBlock(secondary.covariance);
+
+  const burnState = propagateTwoBody(primary.state, -leadTimeS);
+  const coastAtTca = propagateTwoBody(burnState, leadTimeS);
+  const basis = rtnBasis(burnState);
+
+  return (dv: [number, number, number]): ManeuverOutcome => {
+    const dvInertial = [0, 1, 2].map(k => (basis[0][k] * dv[0] + basis[1][k] * dv[1] + basis[2][k] * dv[2]) / 1000);
+    const burned = propagateTwoBody({
+      position: burnState.position,
+      velocity: {
+        x: burnState.velocity.x + dvInertial[0],
+        y: burnState.velocity.y + dvInertial[1],
+        z: burnState.velocity.z + dvInertial[2],
+      },
+    }, leadTimeS);
+
+    const shifted: StateVector = {
+      position: applyOffset(primary.state.position, burned.position, coastAtTca.position),
+      velocity: applyOffset(primary.state.velocity, burned.velocity, coastAtTca.velocity),
+    };
+    const geometry = encounterGeometry(shifted, covA, secondary.state, covB, conjunction.hardBodyRadius);
+    return {
+      missDistance: Math.hypot(geometry.missX, geometry.missZ),
+      pc: fosterPc(geometry),
+    };
+  };
+};
+
+/**
+ * Plans the smallest radial/along-track burn that meets the miss distance and Pc
+ * targets for a conjunction (time: current simulation time, s since Unix epoch).
+ * Throws when the conjunction has no TCA state data, the primary cannot maneuver
+ * or the burn would start in the past.
+ */
+export const planAvoidanceManeuver = (
+  conjunction: Conjunction,
+  time: number,
+  options: Partial<ManeuverPlanOptions> = {},
+): Maneuver => {
+  const opts = { ...DEFAULT_MANEUVER_OPTIONS, ...options };
+  if (!conjunction.primary || !conjunction.secondary) {
+    throw new Error('Conjunction carries no TCA state data to plan against');
+  }
+  if (conjunction.primary.maneuverable === false) {
+    throw new Error(`${conjunction.primary.name} cannot maneuver; coordinate with the secondary's operator`);
+  }
+  if (!(opts.leadTimeS > 0) || !(opts.thrustN > 0) || !(opts.massKg > 0)) {
+    throw new Error('Lead time, thrust and mass must be positive');
+  }
+
+  const evaluate = createEvaluator(conjunction, opts.leadTimeS);
+  const meets = (o: ManeuverOutcome) => o.missDistance >= opts.targetMissDistance && o.pc < opts.targetPc;
+
+  let best: { dv: [number, number, number], outcome: ManeuverOutcome, met: boolean } | null = null;
+
+  for (let k = 0; k < DIRECTION_COUNT; k++) {
+    const angle = (2 * Math.PI * k) / DIRECTION_COUNT;
+    const along = (mag: number): [number, number, number] => [mag * Math.sin(angle), mag * Math.cos(angle), 0];
+
+    // Bracket the first magnitude that meets the targets by doubling, then bisect
+    let lo = 0;
+    let hi = MIN_DELTA_V;
+    let outcome = evaluate(along(hi));
+    while (!meets(outcome) && hi < opts.maxDeltaV) {
+      lo = hi;
+      hi = Math.min(hi * 2, opts.maxDeltaV);
+      outcome = evaluate(along(hi));
+    }
+
+    if (!meets(outcome)) {
+      // Keep the most effective direction as a fallback when nothing reaches the targets
+      if (!best || (!best.met && outcome.missDistance > best.outcome.missDistance)) {
+        best = { dv: along(hi), outcome, met: false };
+      }
+      continue;
+    }
+
+    for (let step = 0; step < BISECTION_STEPS; step++) {
+      const mid = 0.5 * (lo + hi);
+      const trial = evaluate(along(mid));
+      if (meets(trial)) {
+        hi = mid;
+        outcome = trial;
+      } else {
+        lo = mid;
+      }
+    }
+
+    if (!best || !best.met || hi < Math.hypot(...best.dv)) {
+      best = { dv: along(hi), outcome, met: true };
+    }
+  }
+
+  const { dv, outcome, met } = best!;
+  const magnitude = Math.hypot(...dv);
+  const duration = (opts.massKg * magnitude) / opts.thrustN;
+  const burnEpoch = conjunction.tca - (opts.leadTimeS + duration / 2) * 1000;
+  if (burnEpoch < time * 1000) {
+    throw new Error('Burn would start before the current time; reduce the lead time');
+  }
+
+  return {
+    targetId: conjunction.objectA,
+    conjunctionId: conjunction.id,
+    secondaryId: conjunction.objectB,
+    tca: conjunction.tca,
+    deltaV: dv,
+    burnEpoch,
+    duration,
+    thrustN: opts.thrustN,
+    massKg: opts.massKg,
+    predictedMissDistance: outcome.missDistance,
+    predictedPc: outcome.pc,
+    targetMissDistance: opts.targetMissDistance,
+    targetPc: opts.targetPc,
+    targetMet: met,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+// --- SECONDARY SCREENING ---
+
+// NEW: not present without the burn; WORSENED: present but with higher Pc; EXISTING: unchanged or better
+export type SecondaryConjunctionStatus = 'NEW' | 'WORSENED' | 'EXISTING';
+
+export interface SecondaryConjunction {
+  conjunction: Conjunction; // Post-maneuver approach
+  status: SecondaryConjunctionStatus;
+  baselinePc?: number; // Pc of the matching approach without the burn
+}
+
+export interface ManeuverScreening {
+  start: number; // Ignition (ms since Unix epoch, UTC)
+  end: number; // End of the screened window (ms)
+  target: Conjunction | null; // Post-maneuver approach of the mitigated pair; null when beyond the screening threshold
+  targetMet: boolean; // The mitigated approach clears the plan's miss distance and Pc
+  conjunctions: SecondaryConjunction[]; // Every other post-maneuver approach
+  passed: boolean; // Target met and no new or worsened conjunctions
+}
+
+// Approaches of the same pair within this many seconds are treated as the same event
+const TCA_MATCH_TOLERANCE = 600;
+
+/**
+ * Re-screens the post-maneuver orbit against every other catalog object from
+ * ignition over the screening window, and compares with the unmaneuvered orbit.
+ * The mitigated approach is found by pair and TCA and checked against the
+ * plan's targets; when its secondary is not in the catalog (e.g. a CDM-only
+ * object) the plan's own prediction stands in.
+ * Throws when the maneuvering object is not in the catalog.
+ */
+export const screenManeuver = (
+  objects: OrbitalObject[],
+  maneuver: Maneuver,
+  model: BurnModel = 'FINITE',
+  windowSeconds: number = DEFAULT_SCREENING_WINDOW,
+): ManeuverScreening => {
+  const target = objects.find(o => o.id === maneuver.targetId);
+  if (!target) throw new Error(`${maneuver.targetId} is not in the catalog; secondary screening unavailable`);
+
+  const start = maneuver.burnEpoch / 1000;
+  const others = objects.filter(o => o !== target);
+  const baseline = screenObject(target, others, start, { windowSeconds });
+  const post = screenObject(getPostManeuverObject(target, maneuver, model), others, start, { windowSeconds });
+
+  const isTarget = (c: Conjunction) =>
+    c.objectB === maneuver.secondaryId && Math.abs(c.tca - maneuver.tca) / 1000 < TCA_MATCH_TOLERANCE;
+  const mitigated = post.find(isTarget) ?? null;
+  const targetMet = !objects.some(o => o.id === maneuver.secondaryId)
+    ? maneuver.targetMet
+    : !mitigated || (mitigated.missDistance >= maneuver.targetMissDistance && mitigated.probability < maneuver.targetPc);
+
+  const conjunctions = post.filter(c => c !== mitigated).map((c): SecondaryConjunction => {
+    const match = baseline.find(b =>
+      b.objectB === c.objectB && Math.abs(b.tca - c.tca) / 1000 < TCA_MATCH_TOLERANCE);
+    if (!match) return { conjunction: c, status: 'NEW' };
+    return { conjunction: c, status: c.probability > match.probability ? 'WORSENED' : 'EXISTING', baselinePc: match.probability };
+  });
+
+  return {
+    start: maneuver.burnEpoch,
+    end: maneuver.burnEpoch + windowSeconds * 1000,
+    target: mitigated,
+    targetMet,
+    conjunctions,
+    passed: targetMet && conjunctions.every(c => c.status === 'EXISTING'),
+  };
+};
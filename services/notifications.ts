@@ -0,0 +1,174 @@
+import { AlertRule, ConjunctionEvent, NotificationChannel, NotificationChannelKind, RiskLevel } from '../types';
+import { AlertNotification, EmailRelayRequest } from './apiContract';
+
+/**
+ * ESCALATION NOTIFICATIONS
+ * Escalated conjunction events are announced on every enabled channel: a
+ * browser notification, an audible alarm, a JSON webhook and an e-mail sent
+ * through an HTTP mail relay. Each channel kind maps to a sink factory, so
+ * another transport only needs an entry in SINKS. Delivery failures are
+ * reported per channel and never block the others.
+ */
+
+export interface AlertSink {
+  send: (notification: AlertNotification) => Promise<void>;
+}
+
+// Default webhook, injected at build time; `npm run dev:mock` points it at the mock server
+export const DEFAULT_WEBHOOK_URL = process.env.SENTINEL_WEBHOOK_URL ?? '';
+const WEBHOOK_TIMEOUT = 10 * 1000; // ms
+
+export const DEFAULT_CHANNELS: NotificationChannel[] = [
+  { id: 'browser', kind: 'BROWSER', enabled: true },
+  { id: 'audio', kind: 'AUDIO', enabled: true },
+  { id: 'webhook', kind: 'WEBHOOK', enabled: !!DEFAULT_WEBHOOK_URL, url: DEFAULT_WEBHOOK_URL },
+  { id: 'email', kind: 'EMAIL', enabled: false, url: DEFAULT_WEBHOOK_URL, recipient: '' },
+];
+
+export const toNotification = (event: ConjunctionEvent, rules: AlertRule[]): AlertNotification => {
+  const c = event.latest;
+  return {
+    eventId: event.id,
+    status: event.status,
+    tier: c.riskLevel,
+    rule: rules.find(r => r.id === c.ruleId)?.name ?? null,
+    objectA: c.objectA,
+    objectB: c.objectB,
+    nameA: c.nameA,
+    nameB: c.nameB,
+    tca: c.tca,
+    probability: c.probability,
+    missDistance: c.missDistance,
+    sentAt: new Date().toISOString(),
+  };
+};
+
+const title = (n: AlertNotification) => `${n.tier} ${n.status}: ${n.nameA} × ${n.nameB}`;
+
+const summary = (n: AlertNotification) => [
+  `TCA ${new Date(n.tca).toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+  `Pc ${n.probability.toExponential(2)}`,
+  `miss ${n.missDistance.toFixed(3)} km`,
+  ...(n.rule ? [`rule: ${n.rule}`] : []),
+].join(' · ');
+
+// --- SINKS ---
+
+const postJson = async (url: string, body: unknown) => {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+  } catch (e) {
+    throw new Error((e as Error).name === 'TimeoutError' ? `${url}: no response within ${WEBHOOK_TIMEOUT / 1000} s` : `${url}: ${(e as Error).message}`);
+  }
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+};
+
+const browserSink = (): AlertSink => ({
+  send: async n => {
+    if (typeof Notification === 'undefined') throw new Error('Browser notifications are not supported');
+    if (Notification.permission !== 'granted') throw new Error('Notification permission not granted');
+    new Notification(title(n), { body: summary(n), tag: n.eventId, requireInteraction: n.tier === RiskLevel.HIGH });
+  },
+});
+
+let audio: AudioContext | null = null;
+
+// Three short tones; a HIGH escalation sounds higher and repeats
+const audioSink = (): AlertSink => ({
+  send: async n => {
+    if (typeof AudioContext === 'undefined') throw new Error('Web Audio is not supported');
+    audio ??= new AudioContext();
+    // resume() only settles after a user gesture, so it is not awaited: a blocked alarm fails the channel now
+    if (audio.state === 'suspended') audio.resume().catch(() => undefined);
+    if (audio.state !== 'running') throw new Error('Audio is blocked until the page is clicked');
+    const pulses = n.tier === RiskLevel.HIGH ? 6 : 3;
+    const start = audio.currentTime;
+    for (let k = 0; k < pulses; k++) {
+      const osc = audio.createOscillator();
+      const gain = audio.createGain();
+      osc.type = 'square';
+      osc.frequency.value = n.tier === RiskLevel.HIGH ? 1046 : 784;
+      gain.gain.value = 0.08;
+      osc.connect(gain).connect(audio.destination);
+      osc.start(start + k * 0.25);
+      osc.stop(start + k * 0.25 + 0.15);
+    }
+  },
+});
+
+const webhookSink = (channel: NotificationChannel): AlertSink => ({
+  send: n => {
+    if (!channel.url) return Promise.reject(new Error('No webhook URL'));
+    return postJson(channel.url, n);
+  },
+});
+
+const emailSink = (channel: NotificationChannel): AlertSink => ({
+  send: n => {
+    if (!channel.url || !channel.recipient) return Promise.reject(new Error('Mail relay URL and recipient are required'));
+    const body: EmailRelayRequest = {
+      to: channel.recipient,
+      subject: `[SENTINEL] ${title(n)}`,
+      text: `${title(n)}\n${summary(n)}\nEvent ${n.eventId}`,
+      notification: n,
+    };
+    return postJson(channel.url, body);
+  },
+});
+
+export const SINKS: Record<NotificationChannelKind, (channel: NotificationChannel) => AlertSink> = {
+  BROWSER: browserSink,
+  AUDIO: audioSink,
+  WEBHOOK: webhookSink,
+  EMAIL: emailSink,
+};
+
+// --- DISPATCH ---
+
+export interface DeliveryResult {
+  channelId: string;
+  ok: boolean;
+  error?: string;
+  at: number; // ms since Unix epoch (wall clock)
+}
+
+// Sends every notification on every enabled channel
+export const dispatchNotifications = async (
+  notifications: AlertNotification[], channels: NotificationChannel[],
+): Promise<DeliveryResult[]> => {
+  const enabled = channels.filter(c => c.enabled);
+  return Promise.all(enabled.map(async channel => {
+    const sink = SINKS[channel.kind](channel);
+    const results = await Promise.allSettled(notifications.map(n => sink.send(n)));
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    return { channelId: channel.id, ok: !failure, error: failure ? (failure.reason as Error).message : undefined, at: Date.now() };
+  }));
+};
+
+// Browser notifications need the operator's consent, asked for from a click
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (typeof Notification === 'undefined') return 'denied';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+};
+
+// Sample escalation for testing a channel
+export const testNotification = (): AlertNotification => ({
+  eventId: 'TEST',
+  status: 'ESCALATED',
+  tier: RiskLevel.HIGH,
+  rule: 'Channel test',
+  objectA: 'TEST-A',
+  objectB: 'TEST-B',
+  nameA: 'TEST PRIMARY',
+  nameB: 'TEST SECONDARY',
+  tca: Date.now() + 3600 * 1000,
+  probability: 1e-3,
+  missDistance: 0.1,
+  sentAt: new Date().toISOString(),
+});
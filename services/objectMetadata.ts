@@ -0,0 +1,106 @@
+import { AssetMetadata, ConjunctionObjectData, ObjectClass, OrbitalObject, RcsSize } from '../types';
+
+/**
+ * ASSET METADATA
+ * Defaults and validation for the physical and operational data of catalog
+ * objects. Hard-body radius feeds the Pc, area-to-mass the drag model, mass,
+ * thrust and maneuverability the avoidance planner, and designators, class and
+ * owner the CDMs exchanged with other operators. Explicit values always win
+ * over the defaults derived here.
+ */
+
+export const OBJECT_CLASSES: ObjectClass[] = ['PAYLOAD', 'ROCKET_BODY', 'DEBRIS', 'UNKNOWN'];
+export const RCS_SIZES: RcsSize[] = ['SMALL', 'MEDIUM', 'LARGE'];
+
+// Default hard-body radius (m) by object class
+export const DEFAULT_HARD_BODY_RADIUS: Record<ObjectClass, number> = {
+  PAYLOAD: 5,
+  ROCKET_BODY: 3,
+  DEBRIS: 0.5,
+  UNKNOWN: 1,
+};
+
+// Radius (m) of a sphere at the upper end of each RCS bin (LARGE: a typical upper stage)
+export const RCS_HARD_BODY_RADIUS: Record<RcsSize, number> = {
+  SMALL: 0.18,
+  MEDIUM: 0.56,
+  LARGE: 2,
+};
+
+type Classifiable = Pick<OrbitalObject, 'type'> & Pick<AssetMetadata, 'objectClass' | 'rcsSize' | 'hardBodyRadius'>;
+
+export const objectClassOf = (obj: Classifiable): ObjectClass =>
+  obj.objectClass ?? (obj.type === 'SATELLITE' ? 'PAYLOAD' : 'DEBRIS');
+
+// Explicit radius, else the RCS bin, else the class default
+export const hardBodyRadiusOf = (obj: Classifiable): number =>
+  obj.hardBodyRadius ?? (obj.rcsSize ? RCS_HARD_BODY_RADIUS[obj.rcsSize] : DEFAULT_HARD_BODY_RADIUS[objectClassOf(obj)]);
+
+export const isManeuverable = (obj: Pick<OrbitalObject, 'type'> & Pick<AssetMetadata, 'objectClass' | 'maneuverable'>): boolean =>
+  obj.maneuverable ?? objectClassOf(obj) === 'PAYLOAD';
+
+// Display / rendering type for a class
+export const objectTypeForClass = (objectClass: ObjectClass): OrbitalObject['type'] =>
+  objectClass === 'PAYLOAD' ? 'SATELLITE' : 'DEBRIS';
+
+// Metadata carried on a conjunction's object data, for planning and CDM export
+export const conjunctionMetadata = (obj: OrbitalObject): Pick<ConjunctionObjectData, 'cosparId' | 'objectClass' | 'owner' | 'maneuverable'> => ({
+  cosparId: obj.cosparId,
+  objectClass: objectClassOf(obj),
+  owner: obj.owner,
+  maneuverable: isManeuverable(obj),
+});
+
+// TLE international designator (YYNNNPPP) -> COSPAR ID (YYYY-NNNPPP)
+export const cosparFromTle = (designator: string): string | undefined => {
+  const match = /^(\d{2})(\d{3})([A-Z]{1,3})$/.exec(designator.trim());
+  if (!match) return undefined;
+  const yy = Number(match[1]);
+  return `${yy < 57 ? 2000 + yy : 1900 + yy}-${match[2]}${match[3]}`;
+};
+
+// --- VALIDATION ---
+
+const COSPAR_PATTERN = /^\d{4}-\d{3}[A-Z]{1,3}$/;
+
+export const validateMetadata = (meta: AssetMetadata): string[] => {
+  const errors: string[] = [];
+  const positive = (value: number | undefined, label: string) => {
+    if (value !== undefined && !(value > 0)) errors.push(`${label} must be positive`);
+  };
+  if (meta.noradId !== undefined && !(Number.isInteger(meta.noradId) && meta.noradId > 0 && meta.noradId < 1e9)) {
+    errors.push('NORAD ID must be a positive integer');
+  }
+  if (meta.cosparId !== undefined && !COSPAR_PATTERN.test(meta.cosparId)) errors.push('COSPAR ID must look like 1998-067A');
+  positive(meta.hardBodyRadius, 'Hard-body radius');
+  positive(meta.massKg, 'Mass');
+  positive(meta.areaToMass, 'Area-to-mass ratio');
+  positive(meta.thrustN, 'Thrust');
+  if (meta.thrustN !== undefined && meta.maneuverable === false) errors.push('Thrust is set but the object cannot maneuver');
+  return errors;
+};
+
+// --- EDITING ---
+
+const METADATA_KEYS: (keyof AssetMetadata)[] = [
+  'noradId', 'cosparId', 'objectClass', 'rcsSize', 'hardBodyRadius', 'massKg', 'areaToMass', 'owner', 'maneuverable', 'thrustN',
+];
+
+export const pickMetadata = (obj: AssetMetadata): AssetMetadata =>
+  Object.fromEntries(METADATA_KEYS.filter(k => obj[k] !== undefined).map(k => [k, obj[k]])) as AssetMetadata;
+
+/**
+ * Replaces an object's metadata (unset fields are cleared). A class change
+ * also moves the object between satellites and debris for display.
+ */
+export const applyMetadata = (obj: OrbitalObject, metadata: AssetMetadata): OrbitalObject => {
+  const next = { ...obj };
+  METADATA_KEYS.forEach(k => { delete next[k]; });
+  Object.assign(next, pickMetadata(metadata));
+  const type = objectTypeForClass(objectClassOf(next));
+  if (metadata.objectClass && type !== obj.type) {
+    next.type = type;
+    next.color = type === 'DEBRIS' ? '#ef4444' : '#06b6d4';
+  }
+  return next;
+};
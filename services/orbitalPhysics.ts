@@ -1,4 +1,8 @@
-import { OrbitalObject, Conjunction, RiskLevel, Vector3, Maneuver } from '../types';
+import { OrbitalObject, Conjunction, RiskLevel, Vector3, Maneuver, StateVector, BurnModel, ManeuverBurn } from '../types';
+import { getPropagator, getKeplerianState, stateToElements, propagateChecked, propagationError, MU_EARTH } from './propagators';
+import { assessCollisionProbability, getPositionCovariance } from './collisionProbability';
+import { createOrbitSieve, sievePair, sieveAgainst, createSpatialHash, clearSpatialHash, insertBox, forEachPair } from './spatialIndex';
+import { conjunctionMetadata, RCS_SIZES } from './objectMetadata';
 
 // Constants
 const EARTH_RADIUS = 6371; // km
@@ -6,173 +10,443 @@ const EARTH_RADIUS = 6371; // km
 /**
  * SIMULATED BACKEND LOGIC
  * In a real app, this would be Python/FastAPI with skyfield/sgp4.
- * Here we implement a simplified Keplerian propagator for visualization.
+ * Propagation goes through the per-object models in propagators.ts
+ * (Kepler, SGP4/SDP4 or numerical integration).
  */
 
-// Generate Mock Data
-export const generateMockObjects = (): OrbitalObject[] => {
+// Generate Mock Data (all objects share the given element epoch, ms since Unix epoch)
+export const generateMockObjects = (epoch: number = Date.now()): OrbitalObject[] => {
   const objects: OrbitalObject[] = [];
 
   // 5 Active Satellites (Blue)
   const sats = ['SENTINEL-1', 'NONAME-X', 'EAGLE-EYE', 'COMMS-A', 'COMMS-B'];
   sats.forEach((name, i) => {
+    const a = EARTH_RADIUS + 500 + Math.random() * 200;
     objects.push({
       id: `SAT-${i}`,
       name,
       type: 'SATELLITE',
       color: '#06b6d4', // Cyan
+      epoch,
+      objectClass: 'PAYLOAD',
+      owner: 'SENTINEL OPS',
+      mission: name.startsWith('COMMS') ? 'COMMS' : undefined,
+      massKg: 500,
+      thrustN: 1,
+      maneuverable: true,
       elements: {
-        a: EARTH_RADIUS + 500 + Math.random() * 200,
+        a,
         e: 0.001 + Math.random() * 0.01,
         i: (Math.random() * Math.PI) / 2,
         w: Math.random() * Math.PI * 2,
         O: Math.random() * Math.PI * 2,
         M0: Math.random() * Math.PI * 2,
-        n: 0.0010 + (Math.random() * 0.0001),
+        n: Math.sqrt(MU_EARTH / (a * a * a)),
       }
     });
   });
 
-  // 20 Debris Objects (Red)
-  for (let i = 0; i < 20; i++) {
+  // 20 Debris Objects (Red), with distinct random designators
+  const debrisIds = new Set<string>();
+  while (debrisIds.size < 20) debrisIds.add(`DEB-${Math.floor(Math.random() * 9000) + 1000}`);
+  Array.from(debrisIds).forEach((id, i) => {
+    const a = EARTH_RADIUS + 400 + Math.random() * 1000;
     objects.push({
-      id: `DEB-${Math.floor(Math.random() * 9000) + 1000}`,
+      id,
       name: `DEBRIS FAGMENT #${i + 1}`,
       type: 'DEBRIS',
       color: '#ef4444', // Red
+      epoch,
+      objectClass: 'DEBRIS',
+      rcsSize: RCS_SIZES[Math.floor(Math.random() * RCS_SIZES.length)],
       elements: {
-        a: EARTH_RADIUS + 400 + Math.random() * 1000,
+        a,
         e: Math.random() * 0.1,
         i: Math.random() * Math.PI, // Random inclination
         w: Math.random() * Math.PI * 2,
         O: Math.random() * Math.PI * 2,
         M0: Math.random() * Math.PI * 2,
-        n: 0.0009 + (Math.random() * 0.0003),
+        n: Math.sqrt(MU_EARTH / (a * a * a)),
       }
     });
-  }
+  });
+
+  // Re-aim a few fragments so they cross a satellite's path inside the screening window.
+  // Random orbits almost never come within a few km, so without this there is nothing to assess.
+  const satObjects = objects.filter(o => o.type === 'SATELLITE');
+  const threats = objects.filter(o => o.type === 'DEBRIS').slice(0, 4);
+  threats.forEach(deb => {
+    const target = satObjects[Math.floor(Math.random() * satObjects.length)];
+    const tEncounter = epoch / 1000 + (6 + Math.random() * 60) * 3600;
+    const { position: r, velocity: v } = getKeplerianState(target, tEncounter);
+
+    // Rotate the satellite velocity about the radial direction for a crossing geometry
+    const rmag = Math.hypot(r.x, r.y, r.z);
+    const k = { x: r.x / rmag, y: r.y / rmag, z: r.z / rmag };
+    const angle = (Math.PI / 6) + Math.random() * (2 * Math.PI / 3);
+    const c = Math.cos(angle), sn = Math.sin(angle);
+    const kxv = { x: k.y * v.z - k.z * v.y, y: k.z * v.x - k.x * v.z, z: k.x * v.y - k.y * v.x };
+    const kdv = k.x * v.x + k.y * v.y + k.z * v.z;
+    const vDeb = {
+      x: v.x * c + kxv.x * sn + k.x * kdv * (1 - c),
+      y: v.y * c + kxv.y * sn + k.y * kdv * (1 - c),
+      z: v.z * c + kxv.z * sn + k.z * kdv * (1 - c),
+    };
+
+    // Offset the crossing point by a few hundred metres radially
+    const offset = (Math.random() < 0.5 ? -1 : 1) * (0.02 + Math.random() * 1.5);
+    const rDeb = { x: r.x + k.x * offset, y: r.y + k.y * offset, z: r.z + k.z * offset };
+
+    deb.elements = stateToElements({ position: rDeb, velocity: vDeb }, tEncounter - epoch / 1000);
+  });
 
   return objects;
 };
 
-// Propagate position at time t (seconds since epoch)
+// Full state at simulation time t, through the object's selected propagation model
+export const getStateAtTime = (obj: OrbitalObject, t: number): StateVector => {
+  return getPropagator(obj).propagate(obj, t);
+};
+
+// Propagate position at simulation time t (seconds since Unix epoch, UTC)
 export const getPositionAtTime = (obj: OrbitalObject, t: number): Vector3 => {
-  const { a, e, i, w, O, M0, n } = obj.elements;
-  
-  // Mean Anomaly
-  const M = M0 + n * t;
-  
-  // Solve Kepler's Equation for Eccentric Anomaly (E) approx
-  let E = M; 
-  for(let k=0; k<5; k++) {
-    E = M + e * Math.sin(E);
+  return getStateAtTime(obj, t).position;
+};
+
+// --- CONJUNCTION SCREENING ---
+
+export interface ScreeningOptions {
+  windowSeconds?: number; // Look-ahead from the screening time
+  stepSeconds?: number; // Coarse sampling step
+  thresholdKm?: number; // Report approaches closer than this
+  includeLow?: boolean; // Also report approaches below the MEDIUM Pc tier (for rules on miss distance)
+}
+
+export const DEFAULT_SCREENING_WINDOW = 72 * 60 * 60; // s
+const DEFAULT_SCREENING_STEP = 60; // s
+// Pc is negligible beyond a few km for catalog-grade covariance
+const DEFAULT_SCREENING_THRESHOLD = 25; // km
+const TCA_TOLERANCE = 1e-3; // s
+// Spatial hash cell edge; each step's swept segment is boxed in pieces no longer than a cell,
+// so dense shells are split finely instead of into cells as long as a whole step's sweep
+const HASH_CELL_SIZE = 300; // km (raised to the screening threshold plus margins when larger)
+const SAGITTA_MARGIN = 5; // km, chord-vs-arc slack on top of the computed sagitta
+const PROGRESS_INTERVAL = 60; // steps between progress reports
+
+export interface ClosestApproach {
+  tca: number; // s since Unix epoch (UTC)
+  missDistance: number; // km
+  relativeVelocity: number; // km/s
+}
+
+// Relative position/velocity of b with respect to a
+const relativeState = (a: OrbitalObject, b: OrbitalObject, t: number) => {
+  const sa = getStateAtTime(a, t);
+  const sb = getStateAtTime(b, t);
+  const dr = { x: sb.position.x - sa.position.x, y: sb.position.y - sa.position.y, z: sb.position.z - sa.position.z };
+  const dv = { x: sb.velocity.x - sa.velocity.x, y: sb.velocity.y - sa.velocity.y, z: sb.velocity.z - sa.velocity.z };
+  return { dr, dv };
+};
+
+// d(range^2)/dt / 2: negative while closing, positive while opening
+const rangeRateProduct = (a: OrbitalObject, b: OrbitalObject, t: number): number => {
+  const { dr, dv } = relativeState(a, b, t);
+  return dr.x * dv.x + dr.y * dv.y + dr.z * dv.z;
+};
+
+/**
+ * Refines a closest approach bracketed by [t0, t1], where the range-rate changes
+ * from closing to opening, using Brent's root finder on dr.dv = 0.
+ */
+export const refineClosestApproach = (a: OrbitalObject, b: OrbitalObject, t0: number, t1: number): ClosestApproach => {
+  let xa = t0, xb = t1;
+  let fa = rangeRateProduct(a, b, xa);
+  let fb = rangeRateProduct(a, b, xb);
+  let xc = xa, fc = fa;
+  let d = xb - xa, e = d;
+
+  for (let iter = 0; iter < 100; iter++) {
+    if ((fb > 0 && fc > 0) || (fb < 0 && fc < 0)) {
+      xc = xa; fc = fa;
+      d = xb - xa; e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      xa = xb; xb = xc; xc = xa;
+      fa = fb; fb = fc; fc = fa;
+    }
+    const tol = 0.5 * TCA_TOLERANCE;
+    const xm = 0.5 * (xc - xb);
+    if (Math.abs(xm) <= tol || fb === 0) break;
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation (secant when only two points)
+      const s = fb / fa;
+      let p: number, q: number;
+      if (xa === xc) {
+        p = 2 * xm * s;
+        q = 1 - s;
+      } else {
+        const qq = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * xm * qq * (qq - r) - (xb - xa) * (r - 1));
+        q = (qq - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      if (2 * p < Math.min(3 * xm * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = xm; e = d;
+      }
+    } else {
+      // Bisection
+      d = xm; e = d;
+    }
+    xa = xb; fa = fb;
+    xb += Math.abs(d) > tol ? d : (xm > 0 ? tol : -tol);
+    fb = rangeRateProduct(a, b, xb);
   }
 
-  // True Anomaly (v)
-  const v = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
-  
-  // Distance (r)
-  const r = a * (1 - e * Math.cos(E));
+  const { dr, dv } = relativeState(a, b, xb);
+  return {
+    tca: xb,
+    missDistance: Math.hypot(dr.x, dr.y, dr.z),
+    relativeVelocity: Math.hypot(dv.x, dv.y, dv.z),
+  };
+};
 
-  // Position in orbital plane
-  const x_orb = r * Math.cos(v);
-  const y_orb = r * Math.sin(v);
+// Position+velocity of every object at one instant: [x, y, z, vx, vy, vz] per object,
+// NaN where the object's model has no valid state
+const sampleAll = (objects: OrbitalObject[], t: number): Float64Array => {
+  const out = new Float64Array(objects.length * 6);
+  objects.forEach((obj, i) => {
+    const state = propagateChecked(obj, t);
+    if (!state) {
+      out.fill(NaN, i * 6, i * 6 + 6);
+      return;
+    }
+    const { position: p, velocity: v } = state;
+    out.set([p.x, p.y, p.z, v.x, v.y, v.z], i * 6);
+  });
+  return out;
+};
 
-  // Rotate to ECI coordinates
-  const x = x_orb * (Math.cos(O) * Math.cos(w + v) - Math.sin(O) * Math.sin(w + v) * Math.cos(i));
-  const y = x_orb * (Math.sin(O) * Math.cos(w + v) + Math.cos(O) * Math.sin(w + v) * Math.cos(i));
-  const z = x_orb * (Math.sin(i) * Math.sin(w + v));
+const screeningGrid = (options: ScreeningOptions) => {
+  const windowSeconds = options.windowSeconds ?? DEFAULT_SCREENING_WINDOW;
+  const step = options.stepSeconds ?? DEFAULT_SCREENING_STEP;
+  return {
+    step,
+    count: Math.ceil(windowSeconds / step) + 1,
+    thresholdKm: options.thresholdKm ?? DEFAULT_SCREENING_THRESHOLD,
+  };
+};
 
-  // Simplified 3D rotation for demo variance (Keplerian conversion usually more complex)
-  // We use a simplified spherical conversion for visual stability in the demo
-  const xx = r * (Math.cos(O) * Math.cos(w+v) - Math.sin(O) * Math.sin(w+v) * Math.cos(i));
-  const yy = r * (Math.sin(O) * Math.cos(w+v) + Math.cos(O) * Math.sin(w+v) * Math.cos(i));
-  const zz = r * (Math.sin(i) * Math.sin(w+v));
+// Builds the alert for a refined approach, or null when its Pc is below the reporting tier
+const assessApproach = (a: OrbitalObject, b: OrbitalObject, ca: ClosestApproach, time: number, includeLow: boolean): Conjunction | null => {
+  const { pc, riskLevel, geometry, stateA, stateB } = assessCollisionProbability(a, b, ca.tca);
+  if (riskLevel === RiskLevel.LOW && !includeLow) return null;
 
-  return { x: xx, y: yy, z: zz };
+  const tcaMs = Math.round(ca.tca * 1000);
+  return {
+      id: `${a.id}-${b.id}-${tcaMs}`,
+      objectA: a.id,
+      objectB: b.id,
+      nameA: a.name,
+      nameB: b.name,
+      tca: tcaMs,
+      timeToImpact: ca.tca - time,
+      probability: pc.foster,
+      pc,
+      hardBodyRadius: geometry.hardBodyRadius * 1000,
+      riskLevel,
+      missDistance: ca.missDistance,
+      relativeVelocity: ca.relativeVelocity,
+      source: 'SCREENING',
+      primary: { id: a.id, name: a.name, type: a.type, state: stateA, covariance: a.covariance ?? getPositionCovariance(a), ...conjunctionMetadata(a) },
+      secondary: { id: b.id, name: b.name, type: b.type, state: stateB, covariance: b.covariance ?? getPositionCovariance(b), ...conjunctionMetadata(b) }
+  };
 };
 
-// Mock ML Risk Assessment
-export const checkConjunctions = (objects: OrbitalObject[], time: number): Conjunction[] => {
+// Progress of a long screening run, 0..1
+export type ScreeningProgressCallback = (fraction: number) => void;
+
+export interface ScreeningExclusion {
+  id: string;
+  error: string; // Why its model had no valid state (e.g. SGP4 decay)
+}
+
+export interface ScreeningStats {
+  pairs: number; // Pairs in scope, including those cleared by the orbit filters
+  candidates: number; // Approaches bracketed within reach in a shared hash cell
+  refined: number; // Of those, approaches that passed the orbit filters and were refined to TCA
+  excluded: ScreeningExclusion[]; // Objects left out of the steps where they had no valid state
+}
+
+export interface ScreeningRun {
+  conjunctions: Conjunction[];
+  stats: ScreeningStats;
+}
+
+/**
+ * Time-stepped screening of every allowed pair. At each step the segment each
+ * object sweeps is boxed, in cell-sized pieces padded by half the threshold
+ * plus the arc's deviation from its chord, into a spatial hash. Pairs sharing
+ * a cell that switch from closing to opening inside the step, with chords
+ * passing within reach, are sieved by the orbit filters, then refined and
+ * assessed. Nothing is kept per pair between steps, so memory stays flat
+ * at catalog scale. Objects without a valid state at either end of a step
+ * are left out of that step and reported in the stats.
+ */
+const screenPairs = (
+  objects: OrbitalObject[], time: number, options: ScreeningOptions,
+  includePair: (i: number, j: number) => boolean,
+  pairs: number,
+  onProgress?: ScreeningProgressCallback,
+): ScreeningRun => {
+  const { step, count, thresholdKm } = screeningGrid(options);
+  const n = objects.length;
+  const windowSeconds = step * (count - 1);
+  const cellSize = Math.max(HASH_CELL_SIZE, thresholdKm + 2 * SAGITTA_MARGIN);
+  const hash = createSpatialHash(cellSize, n);
+  const sieve = createOrbitSieve(objects, thresholdKm, windowSeconds);
+  const stats: ScreeningStats = { pairs, candidates: 0, refined: 0, excluded: [] };
+  const excluded = new Set<number>();
+
   const conjunctions: Conjunction[] = [];
-  const sats = objects.filter(o => o.type === 'SATELLITE');
-  const debris = objects.filter(o => o.type === 'DEBRIS');
-
-  sats.forEach(sat => {
-    const posSat = getPositionAtTime(sat, time);
-    
-    debris.forEach(deb => {
-      const posDeb = getPositionAtTime(deb, time);
-      
-      // Euclidean distance
-      const dist = Math.sqrt(
-        Math.pow(posSat.x - posDeb.x, 2) + 
-        Math.pow(posSat.y - posDeb.y, 2) + 
-        Math.pow(posSat.z - posDeb.z, 2)
-      );
-
-      // Thresholds for demo (scaled up for visibility)
-      if (dist < 800) {
-        // Simulate ML Probability Output (closer = higher prob + noise)
-        const baseProb = Math.min(1, 500 / dist);
-        // Add "sensor noise"
-        const mlProb = Math.min(0.99, baseProb * (0.8 + Math.random() * 0.4));
-        
-        let risk = RiskLevel.LOW;
-        if (mlProb > 0.7) risk = RiskLevel.HIGH;
-        else if (mlProb > 0.3) risk = RiskLevel.MEDIUM;
-
-        if (risk !== RiskLevel.LOW) {
-            conjunctions.push({
-                id: `${sat.id}-${deb.id}-${time}`,
-                objectA: sat.name,
-                objectB: deb.name,
-                timeToImpact: 72 * 60 * 60 * Math.random(), // Random future time in 72h window
-                probability: mlProb,
-                riskLevel: risk,
-                missDistance: dist
-            });
+  let prev = sampleAll(objects, time);
+  // Largest distance (km) between each object's arc and its chord over the step
+  const deviation = new Float64Array(n);
+
+  for (let k = 1; k < count; k++) {
+    const t = time + k * step;
+    const cur = sampleAll(objects, t);
+
+    clearSpatialHash(hash);
+    for (let i = 0; i < n; i++) {
+      const o = i * 6;
+      if (Number.isNaN(prev[o]) || Number.isNaN(cur[o])) {
+        if (!excluded.has(i)) {
+          excluded.add(i);
+          const tFailed = Number.isNaN(prev[o]) ? t - step : t;
+          stats.excluded.push({ id: objects[i].id, error: propagationError(objects[i], tFailed) ?? 'no valid state' });
         }
+        continue;
+      }
+      const radius = Math.min(Math.hypot(prev[o], prev[o + 1], prev[o + 2]), Math.hypot(cur[o], cur[o + 1], cur[o + 2]));
+      // Gravity bends the path off the chord by at most g * step^2 / 8
+      deviation[i] = (MU_EARTH / (radius * radius)) * step * step / 8 + SAGITTA_MARGIN;
+      const pad = thresholdKm / 2 + deviation[i];
+      const dx = cur[o] - prev[o], dy = cur[o + 1] - prev[o + 1], dz = cur[o + 2] - prev[o + 2];
+      const pieces = Math.max(1, Math.ceil(Math.hypot(dx, dy, dz) / cellSize));
+      for (let p = 0; p < pieces; p++) {
+        const f0 = p / pieces, f1 = (p + 1) / pieces;
+        const x0 = prev[o] + dx * f0, y0 = prev[o + 1] + dy * f0, z0 = prev[o + 2] + dz * f0;
+        const x1 = prev[o] + dx * f1, y1 = prev[o + 1] + dy * f1, z1 = prev[o + 2] + dz * f1;
+        insertBox(hash, i,
+          Math.min(x0, x1) - pad, Math.min(y0, y1) - pad, Math.min(z0, z1) - pad,
+          Math.max(x0, x1) + pad, Math.max(y0, y1) + pad, Math.max(z0, z1) + pad,
+        );
       }
+    }
+
+    forEachPair(hash, (i, j) => {
+      if (!includePair(i, j)) return;
+
+      const oi = i * 6, oj = j * 6;
+      const rangeRate = (s: Float64Array) =>
+        (s[oj] - s[oi]) * (s[oj + 3] - s[oi + 3]) + (s[oj + 1] - s[oi + 1]) * (s[oj + 4] - s[oi + 4]) + (s[oj + 2] - s[oi + 2]) * (s[oj + 5] - s[oi + 5]);
+
+      // Closing -> opening between samples brackets a minimum of range
+      if (!(rangeRate(prev) < 0 && rangeRate(cur) >= 0)) return;
+      // Closest point of the relative chord; each true path lies within its deviation of its chord
+      const rx = prev[oj] - prev[oi], ry = prev[oj + 1] - prev[oi + 1], rz = prev[oj + 2] - prev[oi + 2];
+      const ux = cur[oj] - cur[oi] - rx, uy = cur[oj + 1] - cur[oi + 1] - ry, uz = cur[oj + 2] - cur[oi + 2] - rz;
+      const uu = ux * ux + uy * uy + uz * uz;
+      const f = uu > 0 ? Math.min(1, Math.max(0, -(rx * ux + ry * uy + rz * uz) / uu)) : 0;
+      if (Math.hypot(rx + ux * f, ry + uy * f, rz + uz * f) - deviation[i] - deviation[j] >= thresholdKm) return;
+      stats.candidates++;
+      if (!sievePair(sieve, i, j)) return;
+
+      // Operational assets are always the primary
+      const [a, b] = objects[j].type === 'SATELLITE' && objects[i].type !== 'SATELLITE'
+        ? [objects[j], objects[i]] : [objects[i], objects[j]];
+      const ca = refineClosestApproach(a, b, t - step, t);
+      stats.refined++;
+      if (ca.missDistance >= thresholdKm) return;
+      const conjunction = assessApproach(a, b, ca, time, options.includeLow ?? false);
+      if (conjunction) conjunctions.push(conjunction);
     });
-  });
 
-  return conjunctions.sort((a, b) => b.probability - a.probability).slice(0, 5);
+    prev = cur;
+    if (onProgress && (k % PROGRESS_INTERVAL === 0 || k === count - 1)) onProgress(k / (count - 1));
+  }
+
+  return { conjunctions: conjunctions.sort((a, b) => b.probability - a.probability), stats };
 };
 
-export const calculateManeuver = (conjunction: Conjunction): Maneuver => {
-  return {
-    targetId: conjunction.objectA,
-    thrustN: Number((1.2 + Math.random()).toFixed(2)),
-    vector: [
-        Number((Math.random() * 2 - 1).toFixed(2)), 
-        Number((Math.random() * 2 - 1).toFixed(2)), 
-        Number((Math.random() * 2 - 1).toFixed(2))
-    ],
-    duration: Math.floor(Math.random() * 10) + 5,
-    timestamp: new Date().toISOString()
-  };
+// Screens the whole catalog, all against all, over the look-ahead window and scores each approach by Pc
+export const checkConjunctions = (
+  objects: OrbitalObject[], time: number, options: ScreeningOptions = {}, onProgress?: ScreeningProgressCallback,
+): Conjunction[] => {
+  return screenCatalog(objects, time, options, onProgress).conjunctions;
 };
 
-// Create a modified orbital object to visualize the maneuver effect
-export const getPostManeuverObject = (obj: OrbitalObject, maneuver: Maneuver): OrbitalObject => {
-    // Deep copy the object
-    const newObj: OrbitalObject = JSON.parse(JSON.stringify(obj));
-    
-    // Mock physics: modify orbital elements based on the thrust vector
-    // This is a visual approximation, not a real impulsive burn propagation
-    
-    // Perturb Inclination based on Z vector
-    newObj.elements.i += maneuver.vector[2] * 0.15; 
-    
-    // Perturb Semi-major axis (altitude) based on X vector
-    newObj.elements.a += maneuver.vector[0] * 300; 
-    
-    // Perturb RAAN based on Y vector
-    newObj.elements.O += maneuver.vector[1] * 0.1;
+/**
+ * Re-screens only the pairs involving the given objects (after catalog updates)
+ * against the rest of the catalog. Objects the orbit filters clear against every
+ * affected object are never propagated.
+ */
+export const screenAffectedPairs = (
+  objects: OrbitalObject[], affectedIds: string[], time: number, options: ScreeningOptions = {}, onProgress?: ScreeningProgressCallback,
+): Conjunction[] => {
+  return screenCatalog(objects, time, options, onProgress, affectedIds).conjunctions;
+};
+
+/**
+ * Full or (with objectIds) incremental screening, with counts of the pairs
+ * considered at each stage.
+ */
+export const screenCatalog = (
+  objects: OrbitalObject[], time: number, options: ScreeningOptions = {}, onProgress?: ScreeningProgressCallback, objectIds?: string[],
+): ScreeningRun => {
+  const n = objects.length;
+  if (!objectIds) return screenPairs(objects, time, options, () => true, (n * (n - 1)) / 2, onProgress);
 
+  const { step, count, thresholdKm } = screeningGrid(options);
+  const sieve = createOrbitSieve(objects, thresholdKm, step * (count - 1));
+  const affected = new Set(objectIds);
+  const primaryIndices = objects.flatMap((o, i) => affected.has(o.id) ? [i] : []);
+  const primaries = primaryIndices.map(i => objects[i]);
+  const candidates = sieveAgainst(sieve, primaryIndices).map(i => objects[i]);
+  const k = primaries.length;
+  const pairs = k * (n - k) + (k * (k - 1)) / 2;
+  return screenPairs([...primaries, ...candidates], time, options, (i, j) => i < k || j < k, pairs, onProgress);
+};
+
+// Screens one object against every other object in the catalog (all reportable approaches)
+export const screenObject = (
+  primary: OrbitalObject, others: OrbitalObject[], time: number, options: ScreeningOptions = {},
+): Conjunction[] => {
+  const { step, count, thresholdKm } = screeningGrid(options);
+  // Sieve the catalog against the primary first so only plausible objects are propagated
+  const sieve = createOrbitSieve([primary, ...others], thresholdKm, step * (count - 1));
+  const candidates = sieveAgainst(sieve, [0]).map(i => others[i - 1]);
+  return screenPairs([primary, ...candidates], time, options, i => i === 0, others.length).conjunctions;
+};
+
+// Post-maneuver copy of an object: the burn is flown on top of its own propagation model
+export const getPostManeuverObject = (obj: OrbitalObject, maneuver: Maneuver, model: BurnModel = 'FINITE'): OrbitalObject => {
+  const burn: ManeuverBurn = {
+    deltaV: maneuver.deltaV,
+    burnEpoch: maneuver.burnEpoch,
+    duration: maneuver.duration,
+    model,
+  };
+  return {
+    ...obj,
     // Update ID to prevent key conflicts if rendered
-    newObj.id = `${obj.id}-PREDICTED`;
-    
-    return newObj;
-};
\ No newline at end of file
+    id: `${obj.id}-PREDICTED`,
+    burns: [...(obj.burns ?? []), burn],
+  };
+};
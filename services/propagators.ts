@@ -0,0 +1,564 @@
+import { OrbitalObject, StateVector, TleElements, PropagatorKind, ManeuverBurn } from '../types';
+import { sgp4Init, sgp4, Sgp4Satrec, Sgp4Error } from './sgp4';
+
+/**
+ * PROPAGATION MODELS
+ * Every consumer (scene, screening, maneuver prediction) asks for state through
+ * a Propagator, so the model can be chosen per object:
+ *  - KEPLER:    two-body analytic, fast, no perturbations
+ *  - SGP4:      SGP4/SDP4 from the source TLE (TEME frame)
+ *  - NUMERICAL: RK4 integration with J2-J4 zonal harmonics and exponential-atmosphere drag
+ * Planned burns (OrbitalObject.burns) are flown on top of whichever model is active.
+ */
+
+// Constants (WGS-84 / EGM-96)
+export const MU_EARTH = 398600.4418; // km^3/s^2
+export const EARTH_EQUATORIAL_RADIUS = 6378.137; // km
+const J2 = 1.08262668e-3;
+const J3 = -2.53265649e-6;
+const J4 = -1.61962159e-6;
+export const EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+
+// B* (1/earth radii) -> ballistic coefficient Cd*A/m (m^2/kg)
+const BSTAR_TO_BALLISTIC = 12.741621;
+const DRAG_COEFFICIENT = 2.2;
+const DEFAULT_BALLISTIC = 0.01; // m^2/kg, typical for small LEO payloads
+
+export interface Propagator {
+  kind: PropagatorKind;
+  label: string;
+  propagate: (obj: OrbitalObject, t: number) => StateVector; // t: seconds since Unix epoch (UTC)
+}
+
+// --- KEPLER ---
+
+// Two-body state dt seconds after the epoch the elements refer to
+const keplerianStateFromElements = (elements: OrbitalObject['elements'], dt: number): StateVector => {
+  const { a, e, i, w, O, M0, n } = elements;
+
+  // Mean Anomaly
+  const M = M0 + n * dt;
+
+  // Solve Kepler's Equation for Eccentric Anomaly (E) by Newton iteration
+  let E = e < 0.8 ? M : Math.PI;
+  for (let k = 0; k < 20; k++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-12) break;
+  }
+
+  const cosE = Math.cos(E);
+  const sinE = Math.sin(E);
+  const sqrt1me2 = Math.sqrt(1 - e * e);
+
+  // Position and velocity in the perifocal frame
+  const xp = a * (cosE - e);
+  const yp = a * sqrt1me2 * sinE;
+  const Edot = n / (1 - e * cosE);
+  const vxp = -a * sinE * Edot;
+  const vyp = a * sqrt1me2 * cosE * Edot;
+
+  // Perifocal -> ECI rotation (P and Q unit vectors)
+  const cO = Math.cos(O), sO = Math.sin(O);
+  const cw = Math.cos(w), sw = Math.sin(w);
+  const ci = Math.cos(i), si = Math.sin(i);
+  const P = { x: cO * cw - sO * sw * ci, y: sO * cw + cO * sw * ci, z: sw * si };
+  const Q = { x: -cO * sw - sO * cw * ci, y: -sO * sw + cO * cw * ci, z: cw * si };
+
+  return {
+    position: { x: xp * P.x + yp * Q.x, y: xp * P.y + yp * Q.y, z: xp * P.z + yp * Q.z },
+    velocity: { x: vxp * P.x + vyp * Q.x, y: vxp * P.y + vyp * Q.y, z: vxp * P.z + vyp * Q.z },
+  };
+};
+
+// Two-body Keplerian state at simulation time t (seconds since Unix epoch, UTC)
+export const getKeplerianState = (obj: OrbitalObject, t: number): StateVector => {
+  // Mean anomaly is relative to the object's own element epoch
+  return keplerianStateFromElements(obj.elements, t - obj.epoch / 1000);
+};
+
+export const keplerPropagator: Propagator = {
+  kind: 'KEPLER',
+  label: 'Two-Body Kepler',
+  propagate: getKeplerianState,
+};
+
+// --- SGP4 ---
+
+// SGP4 records are expensive to initialise, so keep one per element set
+const satrecCache = new WeakMap<TleElements, Sgp4Satrec>();
+
+const getSatrec = (tle: TleElements): Sgp4Satrec => {
+  let satrec = satrecCache.get(tle);
+  if (!satrec) {
+    satrec = sgp4Init(tle);
+    satrecCache.set(tle, satrec);
+  }
+  return satrec;
+};
+
+export const sgp4Propagator: Propagator = {
+  kind: 'SGP4',
+  label: 'SGP4/SDP4',
+  propagate: (obj, t) => {
+    if (obj.tle) {
+      const tsince = (t - obj.epoch / 1000) / 60; // minutes from element epoch
+      const state = sgp4(getSatrec(obj.tle), tsince);
+      // Decayed or invalid element sets fall back to two-body so the object stays drawable;
+      // the failure stays on the satrec for propagateChecked
+      if (state) return state;
+    }
+    return getKeplerianState(obj, t);
+  },
+};
+
+const SGP4_ERROR_TEXT: Record<Sgp4Error, string> = {
+  [Sgp4Error.NONE]: 'no error',
+  [Sgp4Error.ECCENTRICITY]: 'mean eccentricity out of range',
+  [Sgp4Error.MEAN_MOTION]: 'negative mean motion',
+  [Sgp4Error.PERTURBED_ECCENTRICITY]: 'perturbed eccentricity out of range',
+  [Sgp4Error.SEMI_LATUS_RECTUM]: 'negative semi-latus rectum',
+  [Sgp4Error.DECAYED]: 'decayed',
+};
+
+// --- NUMERICAL (RK4 + J2-J4 + DRAG) ---
+
+// Exponential atmosphere (Vallado, Table 8-4): base altitude (km), density (kg/m^3), scale height (km)
+const ATMOSPHERE: [number, number, number][] = [
+  [0, 1.225, 7.249], [25, 3.899e-2, 6.349], [30, 1.774e-2, 6.682], [40, 3.972e-3, 7.554],
+  [50, 1.057e-3, 8.382], [60, 3.206e-4, 7.714], [70, 8.77e-5, 6.549], [80, 1.905e-5, 5.799],
+  [90, 3.396e-6, 5.382], [100, 5.297e-7, 5.877], [110, 9.661e-8, 7.263], [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636], [140, 3.845e-9, 16.149], [150, 2.07e-9, 22.523], [180, 5.464e-10, 29.74],
+  [200, 2.789e-10, 37.105], [250, 7.248e-11, 45.546], [300, 2.418e-11, 53.628], [350, 9.518e-12, 53.298],
+  [400, 3.725e-12, 58.515], [450, 1.585e-12, 60.828], [500, 6.967e-13, 63.822], [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667], [800, 1.17e-14, 124.64], [900, 5.245e-15, 181.05], [1000, 3.019e-15, 268.0],
+];
+
+export const atmosphericDensity = (altitudeKm: number): number => {
+  const h = Math.max(0, altitudeKm);
+  let k = ATMOSPHERE.length - 1;
+  while (k > 0 && h < ATMOSPHERE[k][0]) k--;
+  const [h0, rho0, H] = ATMOSPHERE[k];
+  return rho0 * Math.exp(-(h - h0) / H);
+};
+
+const STEP_SIZE = 30; // s
+const CHECKPOINT_INTERVAL = 600; // s between cached states
+const REENTRY_ALTITUDE = 100; // km, integration stops below this
+
+// State layout: [x, y, z, vx, vy, vz] in km and km/s
+type State6 = Float64Array;
+
+const derivatives = (s: State6, ballistic: number): State6 => {
+  const [x, y, z, vx, vy, vz] = s;
+  const r2 = x * x + y * y + z * z;
+  const r = Math.sqrt(r2);
+  const r3 = r2 * r;
+  const zr2 = (z * z) / r2;
+  const Re = EARTH_EQUATORIAL_RADIUS;
+
+  // Central body
+  let ax = (-MU_EARTH * x) / r3;
+  let ay = (-MU_EARTH * y) / r3;
+  let az = (-MU_EARTH * z) / r3;
+
+  // J2
+  const k2 = (-1.5 * J2 * MU_EARTH * Re * Re) / (r3 * r2);
+  ax += k2 * x * (1 - 5 * zr2);
+  ay += k2 * y * (1 - 5 * zr2);
+  az += k2 * z * (3 - 5 * zr2);
+
+  // J3
+  const k3 = (-2.5 * J3 * MU_EARTH * Re * Re * Re) / (r3 * r2 * r2);
+  ax += k3 * x * (3 * z - (7 * z * z * z) / r2);
+  ay += k3 * y * (3 * z - (7 * z * z * z) / r2);
+  az += k3 * (6 * z * z - (7 * z * z * z * z) / r2 - 0.6 * r2);
+
+  // J4
+  const k4 = (1.875 * J4 * MU_EARTH * Re * Re * Re * Re) / (r3 * r2 * r2);
+  const j4xy = 1 - 14 * zr2 + 21 * zr2 * zr2;
+  ax += k4 * x * j4xy;
+  ay += k4 * y * j4xy;
+  az += k4 * z * (5 - (70 / 3) * zr2 + 21 * zr2 * zr2);
+
+  // Drag against the co-rotating atmosphere
+  const rho = atmosphericDensity(r - Re);
+  if (rho > 0 && ballistic > 0) {
+    const vrx = vx + EARTH_ROTATION_RATE * y;
+    const vry = vy - EARTH_ROTATION_RATE * x;
+    const vrz = vz;
+    const vrel = Math.sqrt(vrx * vrx + vry * vry + vrz * vrz);
+    // rho [kg/m^3] * B [m^2/kg] * v^2 [km^2/s^2] gives 1/m * km^2/s^2 -> x1000 for km/s^2
+    const kd = -0.5 * ballistic * rho * vrel * 1000;
+    ax += kd * vrx;
+    ay += kd * vry;
+    az += kd * vrz;
+  }
+
+  return new Float64Array([vx, vy, vz, ax, ay, az]);
+};
+
+const rk4Step = (s: State6, h: number, ballistic: number): State6 => {
+  const k1 = derivatives(s, ballistic);
+  const s2 = new Float64Array(6);
+  for (let j = 0; j < 6; j++) s2[j] = s[j] + 0.5 * h * k1[j];
+  const k2 = derivatives(s2, ballistic);
+  const s3 = new Float64Array(6);
+  for (let j = 0; j < 6; j++) s3[j] = s[j] + 0.5 * h * k2[j];
+  const k3 = derivatives(s3, ballistic);
+  const s4 = new Float64Array(6);
+  for (let j = 0; j < 6; j++) s4[j] = s[j] + h * k3[j];
+  const k4 = derivatives(s4, ballistic);
+  const out = new Float64Array(6);
+  for (let j = 0; j < 6; j++) out[j] = s[j] + (h / 6) * (k1[j] + 2 * k2[j] + 2 * k3[j] + k4[j]);
+  return out;
+};
+
+// Integrates over dt seconds in equal steps no larger than STEP_SIZE
+export const integrateState = (s: State6, dt: number, ballistic: number): State6 => {
+  const steps = Math.ceil(Math.abs(dt) / STEP_SIZE);
+  if (steps === 0) return s;
+  const h = dt / steps;
+  let state = s;
+  for (let k = 0; k < steps; k++) {
+    const r = Math.hypot(state[0], state[1], state[2]);
+    if (r - EARTH_EQUATORIAL_RADIUS < REENTRY_ALTITUDE) break; // Re-entered, hold last state
+    state = rk4Step(state, h, ballistic);
+  }
+  return state;
+};
+
+// Operator area-to-mass first, then the TLE's fitted B*
+export const ballisticCoefficient = (obj: OrbitalObject): number => {
+  if (obj.areaToMass !== undefined && obj.areaToMass > 0) return DRAG_COEFFICIENT * obj.areaToMass;
+  if (obj.bstar !== undefined && obj.bstar > 0) return obj.bstar * BSTAR_TO_BALLISTIC;
+  return DEFAULT_BALLISTIC;
+};
+
+// Initial state at the element epoch: SGP4 for catalog objects, otherwise Keplerian
+const epochState = (obj: OrbitalObject): State6 => {
+  const t0 = obj.epoch / 1000;
+  const { position: p, velocity: v } = obj.tle ? sgp4Propagator.propagate(obj, t0) : getKeplerianState(obj, t0);
+  return new Float64Array([p.x, p.y, p.z, v.x, v.y, v.z]);
+};
+
+// Cached checkpoints every CHECKPOINT_INTERVAL seconds after (forward) and before (backward) epoch
+interface Trajectory {
+  forward: State6[];
+  backward: State6[];
+}
+
+const trajectoryCache = new WeakMap<OrbitalObject, Trajectory>();
+
+export const numericalPropagator: Propagator = {
+  kind: 'NUMERICAL',
+  label: 'RK4 J2-J4 + Drag',
+  propagate: (obj, t) => {
+    let traj = trajectoryCache.get(obj);
+    if (!traj) {
+      const s0 = epochState(obj);
+      traj = { forward: [s0], backward: [s0] };
+      trajectoryCache.set(obj, traj);
+    }
+
+    const ballistic = ballisticCoefficient(obj);
+    const dt = t - obj.epoch / 1000;
+    const dir = dt >= 0 ? 1 : -1;
+    const checkpoints = dir > 0 ? traj.forward : traj.backward;
+    const k = Math.floor(Math.abs(dt) / CHECKPOINT_INTERVAL);
+
+    // Extend the checkpoint chain as far as needed
+    while (checkpoints.length <= k) {
+      const last = checkpoints[checkpoints.length - 1];
+      checkpoints.push(integrateState(last, dir * CHECKPOINT_INTERVAL, ballistic));
+    }
+
+    const s = integrateState(checkpoints[k], dt - dir * k * CHECKPOINT_INTERVAL, ballistic);
+    return {
+      position: { x: s[0], y: s[1], z: s[2] },
+      velocity: { x: s[3], y: s[4], z: s[5] },
+    };
+  },
+};
+
+// --- REGISTRY ---
+
+export const PROPAGATORS: Record<PropagatorKind, Propagator> = {
+  KEPLER: keplerPropagator,
+  SGP4: sgp4Propagator,
+  NUMERICAL: numericalPropagator,
+};
+
+// --- MANEUVERS ---
+
+/**
+ * Burns are flown as a state-vector offset on top of the base model: the
+ * difference between the burned and coasting arcs, both propagated two-body
+ * from the trajectory state at ignition. That keeps the base model (and its
+ * perturbations) intact while the burn's effect is exact to first order.
+ */
+
+// One burn resolved against a base model: state at ignition and both arcs at cutoff
+interface BurnArc {
+  ignition: number; // s since Unix epoch
+  cutoff: number; // s since Unix epoch
+  burn: ManeuverBurn;
+  pre: StateVector; // Trajectory state at ignition, including earlier burns
+  burned: StateVector; // At cutoff with the burn
+  coast: StateVector; // At cutoff without it
+}
+
+const FINITE_BURN_STEP = 1; // s
+
+const stateToArray = (s: StateVector): State6 => new Float64Array([
+  s.position.x, s.position.y, s.position.z, s.velocity.x, s.velocity.y, s.velocity.z,
+]);
+
+const arrayToState = (s: State6): StateVector => ({
+  position: { x: s[0], y: s[1], z: s[2] },
+  velocity: { x: s[3], y: s[4], z: s[5] },
+});
+
+// Rotates an RTN vector into the inertial frame of state s
+const rtnToInertialVector = (s: State6, v: [number, number, number]): number[] => {
+  const [x, y, z, vx, vy, vz] = s;
+  const r = Math.hypot(x, y, z);
+  const R = [x / r, y / r, z / r];
+  const h = [y * vz - z * vy, z * vx - x * vz, x * vy - y * vx];
+  const hm = Math.hypot(h[0], h[1], h[2]);
+  const N = [h[0] / hm, h[1] / hm, h[2] / hm];
+  const T = [N[1] * R[2] - N[2] * R[1], N[2] * R[0] - N[0] * R[2], N[0] * R[1] - N[1] * R[0]];
+  return [0, 1, 2].map(k => v[0] * R[k] + v[1] * T[k] + v[2] * N[k]);
+};
+
+// Two-body gravity plus thrust held fixed in the instantaneous RTN frame (acceleration in m/s^2)
+const thrustDerivatives = (s: State6, accel: [number, number, number]): State6 => {
+  const [x, y, z, vx, vy, vz] = s;
+  const r3 = Math.pow(Math.hypot(x, y, z), 3);
+  const thrust = rtnToInertialVector(s, accel);
+  return new Float64Array([
+    vx, vy, vz,
+    (-MU_EARTH * x) / r3 + thrust[0] / 1000,
+    (-MU_EARTH * y) / r3 + thrust[1] / 1000,
+    (-MU_EARTH * z) / r3 + thrust[2] / 1000,
+  ]);
+};
+
+// RK4 through a constant-magnitude burn for dt seconds
+const integrateBurn = (start: StateVector, burn: ManeuverBurn, dt: number): StateVector => {
+  const accel = burn.deltaV.map(dv => dv / burn.duration) as [number, number, number];
+  const steps = Math.ceil(dt / FINITE_BURN_STEP);
+  if (steps === 0) return start;
+  const h = dt / steps;
+  let s = stateToArray(start);
+  for (let k = 0; k < steps; k++) {
+    const k1 = thrustDerivatives(s, accel);
+    const k2 = thrustDerivatives(s.map((v, j) => v + 0.5 * h * k1[j]), accel);
+    const k3 = thrustDerivatives(s.map((v, j) => v + 0.5 * h * k2[j]), accel);
+    const k4 = thrustDerivatives(s.map((v, j) => v + h * k3[j]), accel);
+    s = s.map((v, j) => v + (h / 6) * (k1[j] + 2 * k2[j] + 2 * k3[j] + k4[j]));
+  }
+  return arrayToState(s);
+};
+
+// Adds an RTN delta-v (m/s) to a state
+const applyImpulse = (state: StateVector, deltaV: [number, number, number]): StateVector => {
+  const dv = rtnToInertialVector(stateToArray(state), deltaV);
+  return {
+    position: state.position,
+    velocity: {
+      x: state.velocity.x + dv[0] / 1000,
+      y: state.velocity.y + dv[1] / 1000,
+      z: state.velocity.z + dv[2] / 1000,
+    },
+  };
+};
+
+const subtract = (a: StateVector, b: StateVector): StateVector => ({
+  position: { x: a.position.x - b.position.x, y: a.position.y - b.position.y, z: a.position.z - b.position.z },
+  velocity: { x: a.velocity.x - b.velocity.x, y: a.velocity.y - b.velocity.y, z: a.velocity.z - b.velocity.z },
+});
+
+const addStates = (a: StateVector, b: StateVector): StateVector => ({
+  position: { x: a.position.x + b.position.x, y: a.position.y + b.position.y, z: a.position.z + b.position.z },
+  velocity: { x: a.velocity.x + b.velocity.x, y: a.velocity.y + b.velocity.y, z: a.velocity.z + b.velocity.z },
+});
+
+// State change caused by one burn at time t (zero before ignition)
+const burnOffset = (arc: BurnArc, t: number): StateVector | null => {
+  if (t <= arc.ignition) return null;
+  if (t < arc.cutoff) {
+    const dt = t - arc.ignition;
+    return subtract(integrateBurn(arc.pre, arc.burn, dt), propagateTwoBody(arc.pre, dt));
+  }
+  const dt = t - arc.cutoff;
+  return subtract(propagateTwoBody(arc.burned, dt), propagateTwoBody(arc.coast, dt));
+};
+
+const burnArcCache = new WeakMap<OrbitalObject, Map<PropagatorKind, BurnArc[]>>();
+
+const resolveBurnArcs = (base: Propagator, obj: OrbitalObject): BurnArc[] => {
+  let byKind = burnArcCache.get(obj);
+  if (!byKind) {
+    byKind = new Map();
+    burnArcCache.set(obj, byKind);
+  }
+  const cached = byKind.get(base.kind);
+  if (cached) return cached;
+
+  // Each arc starts from the state left by the earlier ones, so they resolve in ignition order
+  const arcs: BurnArc[] = [];
+  [...(obj.burns ?? [])].sort((a, b) => a.burnEpoch - b.burnEpoch).forEach(burn => {
+    const impulsive = burn.model === 'IMPULSIVE';
+    const ignition = burn.burnEpoch / 1000 + (impulsive ? burn.duration / 2 : 0);
+    const cutoff = impulsive ? ignition : ignition + burn.duration;
+
+    let pre = base.propagate(obj, ignition);
+    arcs.forEach(arc => {
+      const offset = burnOffset(arc, ignition);
+      if (offset) pre = addStates(pre, offset);
+    });
+
+    arcs.push({
+      ignition,
+      cutoff,
+      burn,
+      pre,
+      burned: impulsive ? applyImpulse(pre, burn.deltaV) : integrateBurn(pre, burn, burn.duration),
+      coast: impulsive ? pre : propagateTwoBody(pre, burn.duration),
+    });
+  });
+
+  byKind.set(base.kind, arcs);
+  return arcs;
+};
+
+// Wraps a base model so it flies the object's planned burns
+const withBurns = (base: Propagator): Propagator => ({
+  kind: base.kind,
+  label: base.label,
+  propagate: (obj, t) => {
+    // Arcs first, so the last SGP4 call (and its error) is the one at t
+    const arcs = resolveBurnArcs(base, obj);
+    let state = base.propagate(obj, t);
+    arcs.forEach(arc => {
+      const offset = burnOffset(arc, t);
+      if (offset) state = addStates(state, offset);
+    });
+    return state;
+  },
+});
+
+const MANEUVERED_PROPAGATORS: Record<PropagatorKind, Propagator> = {
+  KEPLER: withBurns(keplerPropagator),
+  SGP4: withBurns(sgp4Propagator),
+  NUMERICAL: withBurns(numericalPropagator),
+};
+
+// Models that can run for a given object (SGP4 needs a source TLE)
+export const availablePropagators = (obj: OrbitalObject): Propagator[] => {
+  const registry = obj.burns?.length ? MANEUVERED_PROPAGATORS : PROPAGATORS;
+  return Object.values(registry).filter(p => p.kind !== 'SGP4' || !!obj.tle);
+};
+
+// Explicit choice wins; otherwise catalog objects default to SGP4 and mock objects to Kepler
+export const getPropagator = (obj: OrbitalObject): Propagator => {
+  const registry = obj.burns?.length ? MANEUVERED_PROPAGATORS : PROPAGATORS;
+  if (obj.propagator && (obj.propagator !== 'SGP4' || obj.tle)) return registry[obj.propagator];
+  return obj.tle ? registry.SGP4 : registry.KEPLER;
+};
+
+/**
+ * State through the object's active model, or null when that model is SGP4
+ * and has no valid solution at t (decayed or invalid element set). Screening
+ * and the status panel use this; propagate() keeps a two-body fallback for display.
+ */
+export const propagateChecked = (obj: OrbitalObject, t: number): StateVector | null => {
+  const model = getPropagator(obj);
+  const state = model.propagate(obj, t);
+  return model.kind === 'SGP4' && getSatrec(obj.tle!).error !== Sgp4Error.NONE ? null : state;
+};
+
+// Why the active model has no valid state at t, or null
+export const propagationError = (obj: OrbitalObject, t: number): string | null =>
+  propagateChecked(obj, t) ? null : `SGP4: ${SGP4_ERROR_TEXT[getSatrec(obj.tle!).error]}`;
+
+export interface ModelComparison {
+  kind: PropagatorKind;
+  label: string;
+  state: StateVector;
+  deltaKm: number; // Position difference from the object's active model
+}
+
+// Runs every available model for the same object and epoch, relative to the active one
+export const compareModels = (obj: OrbitalObject, t: number): ModelComparison[] => {
+  const reference = getPropagator(obj).propagate(obj, t).position;
+  return availablePropagators(obj).map(p => {
+    const state = p.propagate(obj, t);
+    return {
+      kind: p.kind,
+      label: p.label,
+      state,
+      deltaKm: Math.hypot(
+        state.position.x - reference.x,
+        state.position.y - reference.y,
+        state.position.z - reference.z,
+      ),
+    };
+  });
+};
+
+// --- STATE CONVERSION ---
+
+/**
+ * Converts an inertial state vector to classical Keplerian elements (elliptic orbits).
+ * dtFromEpoch shifts the mean anomaly back so M0 refers to the object's element epoch.
+ */
+export const stateToElements = (state: StateVector, dtFromEpoch: number = 0): OrbitalObject['elements'] => {
+  const { position: r, velocity: v } = state;
+  const rmag = Math.hypot(r.x, r.y, r.z);
+  const v2 = v.x * v.x + v.y * v.y + v.z * v.z;
+  const rv = r.x * v.x + r.y * v.y + r.z * v.z;
+
+  // Angular momentum and node vectors
+  const h = { x: r.y * v.z - r.z * v.y, y: r.z * v.x - r.x * v.z, z: r.x * v.y - r.y * v.x };
+  const hmag = Math.hypot(h.x, h.y, h.z);
+  const node = { x: -h.y, y: h.x, z: 0 };
+  const nmag = Math.hypot(node.x, node.y);
+
+  // Eccentricity vector
+  const c1 = v2 / MU_EARTH - 1 / rmag;
+  const c2 = rv / MU_EARTH;
+  const ev = { x: c1 * r.x - c2 * v.x, y: c1 * r.y - c2 * v.y, z: c1 * r.z - c2 * v.z };
+  const e = Math.hypot(ev.x, ev.y, ev.z);
+
+  const a = 1 / (2 / rmag - v2 / MU_EARTH);
+  const i = Math.acos(Math.max(-1, Math.min(1, h.z / hmag)));
+
+  // Equatorial orbits measure from the x-axis instead of the (undefined) node
+  const nHat = nmag > 1e-10 ? { x: node.x / nmag, y: node.y / nmag, z: 0 } : { x: 1, y: 0, z: 0 };
+  const O = nmag > 1e-10 ? Math.atan2(nHat.y, nHat.x) : 0;
+  const hHat = { x: h.x / hmag, y: h.y / hmag, z: h.z / hmag };
+
+  // Signed angle from u to w about the orbit normal
+  const angle = (u: StateVector['position'], w: StateVector['position']): number => {
+    const cross = { x: u.y * w.z - u.z * w.y, y: u.z * w.x - u.x * w.z, z: u.x * w.y - u.y * w.x };
+    return Math.atan2(cross.x * hHat.x + cross.y * hHat.y + cross.z * hHat.z, u.x * w.x + u.y * w.y + u.z * w.z);
+  };
+
+  // Circular orbits measure from the node (argument of latitude)
+  const w = e > 1e-9 ? angle(nHat, ev) : 0;
+  const nu = e > 1e-9 ? angle(ev, r) : angle(nHat, r);
+
+  const E = 2 * Math.atan(Math.sqrt((1 - e) / (1 + e)) * Math.tan(nu / 2));
+  const M = E - e * Math.sin(E);
+  const n = Math.sqrt(MU_EARTH / (a * a * a));
+  const wrap = (x: number) => ((x % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+  return { a, e, i, w: wrap(w), O: wrap(O), M0: wrap(M - n * dtFromEpoch), n };
+};
+
+// Two-body propagation of an osculating state by dt seconds (negative dt runs backwards)
+export const propagateTwoBody = (state: StateVector, dt: number): StateVector => {
+  return keplerianStateFromElements(stateToElements(state), dt);
+};
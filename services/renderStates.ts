@@ -0,0 +1,179 @@
+import { OrbitalObject } from '../types';
+import { getStateAtTime } from './orbitalPhysics';
+import { MU_EARTH } from './propagators';
+
+/**
+ * RENDER STATES
+ * Frame-rate positions for catalog-sized object sets. Running each object's
+ * propagator on every frame does not fit a 16 ms budget at 30k objects, so each
+ * object keeps the osculating two-body orbit of its last propagated state and
+ * is advanced between refreshes by solving Kepler's equation on flat typed
+ * arrays. A time-budgeted round robin re-propagates a slice of the catalog each
+ * frame to pull in drag, J2 and burns; states older than the extrapolation
+ * limit (after a scrub or a jump in warp) are always refreshed first.
+ */
+
+// Two-body drift from the full model (mostly J2 node / apsis rotation) stays sub-pixel below this
+const MAX_EXTRAPOLATION = 3600; // s
+const KEPLER_ITERATIONS = 8;
+const KEPLER_TOLERANCE = 1e-9; // rad
+
+export interface StateBuffer {
+  objects: OrbitalObject[];
+  // Osculating ellipse of the last propagated state: r = (cos E - e) * major + sin E * minor
+  major: Float64Array; // a * P (km)
+  minor: Float64Array; // b * Q (km)
+  eccentricity: Float64Array;
+  rate: Float64Array; // Mean motion (rad/s)
+  anomaly: Float64Array; // Mean anomaly at epoch (rad)
+  // Straight-line fallback for open or degenerate orbits
+  position: Float64Array; // km
+  velocity: Float64Array; // km/s
+  epoch: Float64Array; // s since Unix epoch of each stored state (NaN: never propagated)
+  cursor: number; // Next object in the round robin
+}
+
+export const createStateBuffer = (objects: OrbitalObject[]): StateBuffer => ({
+  objects,
+  major: new Float64Array(objects.length * 3),
+  minor: new Float64Array(objects.length * 3),
+  eccentricity: new Float64Array(objects.length),
+  rate: new Float64Array(objects.length),
+  anomaly: new Float64Array(objects.length),
+  position: new Float64Array(objects.length * 3),
+  velocity: new Float64Array(objects.length * 3),
+  epoch: new Float64Array(objects.length).fill(NaN),
+  cursor: 0,
+});
+
+const refreshState = (buffer: StateBuffer, i: number, t: number) => {
+  const { position: r, velocity: v } = getStateAtTime(buffer.objects[i], t);
+  const o = i * 3;
+  buffer.position[o] = r.x; buffer.position[o + 1] = r.y; buffer.position[o + 2] = r.z;
+  buffer.velocity[o] = v.x; buffer.velocity[o + 1] = v.y; buffer.velocity[o + 2] = v.z;
+  buffer.epoch[i] = t;
+
+  const rm = Math.hypot(r.x, r.y, r.z);
+  const v2 = v.x * v.x + v.y * v.y + v.z * v.z;
+  const a = 1 / (2 / rm - v2 / MU_EARTH);
+  const hx = r.y * v.z - r.z * v.y, hy = r.z * v.x - r.x * v.z, hz = r.x * v.y - r.y * v.x;
+  const hm = Math.hypot(hx, hy, hz);
+  const rv = r.x * v.x + r.y * v.y + r.z * v.z;
+  // Eccentricity vector: ((v^2 - mu/r) r - (r.v) v) / mu
+  const k = v2 - MU_EARTH / rm;
+  const ex = (k * r.x - rv * v.x) / MU_EARTH, ey = (k * r.y - rv * v.y) / MU_EARTH, ez = (k * r.z - rv * v.z) / MU_EARTH;
+  const e = Math.hypot(ex, ey, ez);
+  if (!(a > 0) || e >= 1 || hm < 1e-9) {
+    buffer.rate[i] = 0; // Marks the straight-line fallback
+    return;
+  }
+
+  // Perifocal axes; for near-circular orbits measure from the current position
+  const circular = e < 1e-8;
+  const px = circular ? r.x / rm : ex / e, py = circular ? r.y / rm : ey / e, pz = circular ? r.z / rm : ez / e;
+  const qx = (hy * pz - hz * py) / hm, qy = (hz * px - hx * pz) / hm, qz = (hx * py - hy * px) / hm;
+  const b = a * Math.sqrt(1 - e * e);
+  buffer.major[o] = a * px; buffer.major[o + 1] = a * py; buffer.major[o + 2] = a * pz;
+  buffer.minor[o] = b * qx; buffer.minor[o + 1] = b * qy; buffer.minor[o + 2] = b * qz;
+
+  const E = circular ? 0 : Math.atan2(rv / Math.sqrt(MU_EARTH * a), 1 - rm / a);
+  buffer.eccentricity[i] = e;
+  buffer.rate[i] = Math.sqrt(MU_EARTH / (a * a * a));
+  buffer.anomaly[i] = E - e * Math.sin(E);
+};
+
+/**
+ * Re-propagates stale states, then as many further states as fit in budgetMs.
+ * Returns the number of objects propagated.
+ */
+export const refreshStates = (buffer: StateBuffer, t: number, budgetMs: number): number => {
+  const n = buffer.objects.length;
+  let refreshed = 0;
+  for (let i = 0; i < n; i++) {
+    if (!(Math.abs(t - buffer.epoch[i]) <= MAX_EXTRAPOLATION)) {
+      refreshState(buffer, i, t);
+      refreshed++;
+    }
+  }
+
+  const deadline = performance.now() + budgetMs;
+  for (let k = 0; k < n && performance.now() < deadline; k++) {
+    refreshState(buffer, buffer.cursor, t);
+    buffer.cursor = (buffer.cursor + 1) % n;
+    refreshed++;
+  }
+  return refreshed;
+};
+
+// Writes every object's position at t into out (xyz triplets) multiplied by scale
+export const writePositions = (buffer: StateBuffer, t: number, out: Float32Array, scale: number): void => {
+  const { major, minor, eccentricity, rate, anomaly, position, velocity, epoch } = buffer;
+  for (let i = 0; i < buffer.objects.length; i++) {
+    const o = i * 3;
+    const dt = t - epoch[i];
+    if (rate[i] === 0) {
+      out[o] = (position[o] + velocity[o] * dt) * scale;
+      out[o + 1] = (position[o + 1] + velocity[o + 1] * dt) * scale;
+      out[o + 2] = (position[o + 2] + velocity[o + 2] * dt) * scale;
+      continue;
+    }
+
+    const e = eccentricity[i];
+    const M = anomaly[i] + rate[i] * dt;
+    // Second-order starter; near-circular orbits converge in one or two Newton steps
+    const sinM = Math.sin(M);
+    let E = e < 0.8 ? M + e * sinM * (1 + e * Math.cos(M)) : Math.PI;
+    for (let k = 0; k < KEPLER_ITERATIONS; k++) {
+      const step = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+      E -= step;
+      if (Math.abs(step) < KEPLER_TOLERANCE) break;
+    }
+    const c = (Math.cos(E) - e) * scale;
+    const s = Math.sin(E) * scale;
+    out[o] = major[o] * c + minor[o] * s;
+    out[o + 1] = major[o + 1] * c + minor[o + 1] * s;
+    out[o + 2] = major[o + 2] * c + minor[o + 2] * s;
+  }
+};
+
+// --- CLUSTERING ---
+
+export interface PositionCluster {
+  center: [number, number, number];
+  count: number;
+  key: number; // Grid cell; stable while the cluster stays in the same cell
+}
+
+// Packs signed integer cell coordinates (+-511 per axis) into one key
+const cellKey = (x: number, y: number, z: number) => ((x + 512) * 1024 + (y + 512)) * 1024 + (z + 512);
+
+/**
+ * Bins xyz positions into a uniform grid and returns the centroids of the
+ * densest cells holding at least minCount points, largest first.
+ */
+export const clusterPositions = (
+  positions: Float32Array, count: number, cellSize: number, minCount: number, maxClusters: number,
+): PositionCluster[] => {
+  const cells = new Map<number, { x: number, y: number, z: number, count: number }>();
+  for (let i = 0; i < count; i++) {
+    const o = i * 3;
+    const key = cellKey(
+      Math.floor(positions[o] / cellSize), Math.floor(positions[o + 1] / cellSize), Math.floor(positions[o + 2] / cellSize),
+    );
+    const cell = cells.get(key);
+    if (cell) {
+      cell.x += positions[o]; cell.y += positions[o + 1]; cell.z += positions[o + 2];
+      cell.count++;
+    } else {
+      cells.set(key, { x: positions[o], y: positions[o + 1], z: positions[o + 2], count: 1 });
+    }
+  }
+
+  const clusters: PositionCluster[] = [];
+  cells.forEach((cell, key) => {
+    if (cell.count >= minCount) {
+      clusters.push({ center: [cell.x / cell.count, cell.y / cell.count, cell.z / cell.count], count: cell.count, key });
+    }
+  });
+  return clusters.sort((a, b) => b.count - a.count).slice(0, maxClusters);
+};
@@ -0,0 +1,63 @@
+import { Conjunction, RiskLevel } from '../types';
+import { DEFAULT_SCREENING_WINDOW } from './orbitalPhysics';
+
+/**
+ * RISK FORECAST
+ * Upcoming conjunctions of one asset or the whole fleet laid out by time to
+ * TCA, with the cumulative probability that at least one of them is a
+ * collision, taking the encounters as independent: 1 - prod(1 - Pc_i).
+ */
+
+export const FORECAST_HORIZON = DEFAULT_SCREENING_WINDOW; // s
+
+export interface ForecastPoint {
+  eventId: string;
+  hoursAhead: number; // Time from the forecast epoch to TCA (h)
+  tca: number; // ms since Unix epoch
+  probability: number;
+  missDistance: number; // km
+  riskLevel: RiskLevel;
+  nameA: string;
+  nameB: string;
+  cumulative: number; // Risk from all events up to and including this one
+}
+
+export interface RiskForecast {
+  points: ForecastPoint[]; // TCA order
+  cumulative: number; // Over the whole horizon
+  peak: ForecastPoint | null; // Highest single-event Pc
+}
+
+/**
+ * Forecast from epoch (s since Unix epoch) over the horizon. With an assetId
+ * only conjunctions involving that object are counted.
+ */
+export const buildRiskForecast = (
+  conjunctions: Conjunction[], epoch: number, assetId: string | null = null, horizon: number = FORECAST_HORIZON,
+): RiskForecast => {
+  const upcoming = conjunctions
+    .filter(c => !assetId || c.objectA === assetId || c.objectB === assetId)
+    .filter(c => c.tca / 1000 >= epoch && c.tca / 1000 <= epoch + horizon)
+    .sort((a, b) => a.tca - b.tca);
+
+  let survival = 1;
+  let peak: ForecastPoint | null = null;
+  const points = upcoming.map(c => {
+    survival *= 1 - Math.min(Math.max(c.probability, 0), 1);
+    const point: ForecastPoint = {
+      eventId: c.id,
+      hoursAhead: (c.tca / 1000 - epoch) / 3600,
+      tca: c.tca,
+      probability: c.probability,
+      missDistance: c.missDistance,
+      riskLevel: c.riskLevel,
+      nameA: c.nameA,
+      nameB: c.nameB,
+      cumulative: 1 - survival,
+    };
+    if (!peak || point.probability > peak.probability) peak = point;
+    return point;
+  });
+
+  return { points, cumulative: 1 - survival, peak };
+};
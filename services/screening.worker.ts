@@ -0,0 +1,46 @@
+import { BurnModel, Maneuver, OrbitalObject } from '../types';
+import { screenCatalog, ScreeningOptions, ScreeningRun } from './orbitalPhysics';
+import { screenManeuver, ManeuverScreening } from './maneuverPlanner';
+
+/**
+ * SCREENING WORKER
+ * Runs all-vs-all catalog screening, and the secondary screening of planned
+ * burns, off the UI thread. Each request carries an id that is echoed on
+ * every reply so the client can drop superseded jobs.
+ */
+
+export type ScreeningRequest =
+  | {
+    kind: 'CATALOG',
+    id: number,
+    objects: OrbitalObject[],
+    time: number, // s since Unix epoch (UTC)
+    options?: ScreeningOptions,
+    objectIds?: string[], // Only pairs involving these objects; all pairs when absent
+  }
+  | { kind: 'MANEUVER', id: number, objects: OrbitalObject[], maneuver: Maneuver, burnModel: BurnModel };
+
+export type ScreeningResponse =
+  | { id: number, progress: number }
+  | { id: number, run: ScreeningRun }
+  | { id: number, screening: ManeuverScreening }
+  | { id: number, error: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<ScreeningRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  const post = (response: ScreeningResponse) => ctx.postMessage(response);
+  const onProgress = (progress: number) => post({ id, progress });
+  try {
+    if (request.kind === 'MANEUVER') {
+      post({ id, screening: screenManeuver(request.objects, request.maneuver, request.burnModel) });
+      return;
+    }
+    const { objects, time, options, objectIds } = request;
+    post({ id, run: screenCatalog(objects, time, options, onProgress, objectIds) });
+  } catch (e) {
+    post({ id, error: (e as Error).message });
+  }
+};
@@ -0,0 +1,89 @@
+import { BurnModel, Maneuver, OrbitalObject } from '../types';
+import { screenCatalog, ScreeningOptions, ScreeningProgressCallback, ScreeningRun } from './orbitalPhysics';
+import { screenManeuver, ManeuverScreening } from './maneuverPlanner';
+import type { ScreeningRequest, ScreeningResponse } from './screening.worker';
+
+/**
+ * SCREENING CLIENT
+ * Promise wrapper around the screening Web Worker. A single worker is shared
+ * by the app; where workers are unavailable (tests, SSR) screening falls back
+ * to running synchronously on the calling thread.
+ */
+
+interface PendingJob {
+  resolve: (result: ScreeningRun | ManeuverScreening) => void;
+  reject: (error: Error) => void;
+  onProgress?: ScreeningProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingJob>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./screening.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<ScreeningResponse>) => {
+    const response = event.data;
+    const job = pending.get(response.id);
+    if (!job) return;
+    if ('progress' in response) {
+      job.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if ('error' in response) job.reject(new Error(response.error));
+    else job.resolve('run' in response ? response.run : response.screening);
+  };
+
+  // A crashed worker fails every outstanding job; the next request starts a fresh one
+  worker.onerror = (event: ErrorEvent) => {
+    pending.forEach(job => job.reject(new Error(event.message || 'Screening worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * All-vs-all screening of the catalog at time (s since Unix epoch) without
+ * blocking the UI thread; with objectIds only pairs involving those objects.
+ */
+export const screenConjunctionsAsync = (
+  objects: OrbitalObject[], time: number, options: ScreeningOptions = {}, onProgress?: ScreeningProgressCallback, objectIds?: string[],
+): Promise<ScreeningRun> => {
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(screenCatalog(objects, time, options, onProgress, objectIds));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve: run => resolve(run as ScreeningRun), reject, onProgress });
+    getWorker().postMessage({ kind: 'CATALOG', id, objects, time, options, objectIds } satisfies ScreeningRequest);
+  });
+};
+
+// Secondary screening of a planned burn against the catalog, off the UI thread like catalog screening
+export const screenManeuverAsync = (
+  objects: OrbitalObject[], maneuver: Maneuver, burnModel: BurnModel,
+): Promise<ManeuverScreening> => {
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve(screenManeuver(objects, maneuver, burnModel));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve: screening => resolve(screening as ManeuverScreening), reject });
+    getWorker().postMessage({ kind: 'MANEUVER', id, objects, maneuver, burnModel } satisfies ScreeningRequest);
+  });
+};
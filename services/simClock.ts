@@ -0,0 +1,33 @@
+/**
+ * SIMULATION CLOCK
+ * Simulation time is a UTC epoch (s since Unix epoch) advanced from real frame
+ * time scaled by a warp factor, so playback speed does not depend on frame rate.
+ */
+
+export const WARP_FACTORS = [1, 10, 60, 600, 3600];
+export const DEFAULT_WARP = 600;
+export const STEP_SECONDS = 60;
+// Longer frame gaps (tab in background, debugger) are not replayed in one jump
+const MAX_FRAME_DELTA = 0.25; // s (real time)
+
+// Simulation seconds covered by a real frame interval at the given warp
+export const advanceClock = (time: number, realDeltaS: number, warp: number): number => {
+  return time + Math.min(Math.max(realDeltaS, 0), MAX_FRAME_DELTA) * warp;
+};
+
+export const clampTime = (time: number, start: number, end: number): number => {
+  return Math.min(Math.max(time, start), end);
+};
+
+// ms since Unix epoch -> "YYYY-MM-DD HH:MM:SSZ"
+export const formatUtc = (ms: number) => `${new Date(ms).toISOString().replace('T', ' ').slice(0, 19)}Z`;
+
+// Signed offset in seconds -> "+1d 02:03:04" / "-00:10:00"
+export const formatOffset = (seconds: number) => {
+  const sign = seconds < 0 ? '-' : '+';
+  let s = Math.floor(Math.abs(seconds));
+  const d = Math.floor(s / 86400);
+  s -= d * 86400;
+  const hms = [Math.floor(s / 3600), Math.floor((s % 3600) / 60), s % 60].map(v => String(v).padStart(2, '0')).join(':');
+  return `${sign}${d > 0 ? `${d}d ` : ''}${hms}`;
+};
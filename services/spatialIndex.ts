@@ -0,0 +1,258 @@
+import { OrbitalObject } from '../types';
+
+/**
+ * SPATIAL INDEXING
+ * Pair sieves for catalog-scale screening. Two orbit-level filters drop pairs
+ * that can never meet (disjoint altitude bands, orbit paths that never come
+ * close), and a uniform hash grid over each time step's swept segments finds
+ * the remaining pairs that are actually near each other at that step.
+ */
+
+// Decay, osculating vs mean elements and model differences over a screening window
+const ALTITUDE_MARGIN = 20; // km
+// Upper bound on apsidal / nodal-line rotation (J2 in very low orbits)
+const MAX_LINE_ROTATION_RATE = 0.3 / 86400; // rad/s
+// Below this relative inclination the mutual node line is undefined
+const MIN_RELATIVE_INCLINATION = 1e-3; // rad
+
+type Vec3 = [number, number, number];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+// Objects with planned burns leave their element set; never filter them out
+const hasBurns = (obj: OrbitalObject) => !!obj.burns?.length;
+
+// --- ORBIT FILTERS ---
+
+// Altitude band (perigee..apogee radius, km) of an orbit
+const perigeeOf = (el: OrbitalObject['elements']) => el.a * (1 - el.e);
+const apogeeOf = (el: OrbitalObject['elements']) => el.a * (1 + el.e);
+
+const bandsOverlap = (perigeeA: number, apogeeA: number, perigeeB: number, apogeeB: number, padKm: number) =>
+  Math.max(perigeeA, perigeeB) - Math.min(apogeeA, apogeeB) <= padKm + ALTITUDE_MARGIN;
+
+// False when the altitude bands (perigee..apogee) are further apart than padKm
+export const perigeeApogeeFilter = (a: OrbitalObject, b: OrbitalObject, padKm: number): boolean => {
+  if (hasBurns(a) || hasBurns(b)) return true;
+  return bandsOverlap(perigeeOf(a.elements), apogeeOf(a.elements), perigeeOf(b.elements), apogeeOf(b.elements), padKm);
+};
+
+interface PerifocalFrame {
+  P: Vec3;
+  Q: Vec3;
+  W: Vec3;
+}
+
+// Perifocal axes (P towards perigee, Q 90 deg ahead) and orbit normal W
+const perifocalFrame = (el: OrbitalObject['elements']): PerifocalFrame => {
+  const cO = Math.cos(el.O), sO = Math.sin(el.O);
+  const cw = Math.cos(el.w), sw = Math.sin(el.w);
+  const ci = Math.cos(el.i), si = Math.sin(el.i);
+  const P: Vec3 = [cO * cw - sO * sw * ci, sO * cw + cO * sw * ci, sw * si];
+  const Q: Vec3 = [-cO * sw - sO * cw * ci, -sO * sw + cO * cw * ci, cw * si];
+  const W: Vec3 = [sO * si, -cO * si, ci];
+  return { P, Q, W };
+};
+
+// Orbit radius where the orbit passes through direction u (in its own plane)
+const radiusToward = (el: OrbitalObject['elements'], frame: PerifocalFrame, u: Vec3): number => {
+  const nu = Math.atan2(dot(u, frame.Q), dot(u, frame.P));
+  return (el.a * (1 - el.e * el.e)) / (1 + el.e * Math.cos(nu));
+};
+
+const pathsMeet = (
+  ea: OrbitalObject['elements'], fa: PerifocalFrame, eb: OrbitalObject['elements'], fb: PerifocalFrame,
+  padKm: number, windowSeconds: number,
+): boolean => {
+  const k = cross(fa.W, fb.W);
+  const sinRel = Math.hypot(k[0], k[1], k[2]);
+  if (sinRel < MIN_RELATIVE_INCLINATION) return true;
+  const node: Vec3 = [k[0] / sinRel, k[1] / sinRel, k[2] / sinRel];
+
+  const rotation = Math.min(Math.PI, MAX_LINE_ROTATION_RATE * windowSeconds);
+  const margin = padKm + ALTITUDE_MARGIN + (ea.a * ea.e + eb.a * eb.e) * rotation;
+
+  return [1, -1].some(sign => {
+    const u: Vec3 = [sign * node[0], sign * node[1], sign * node[2]];
+    return Math.abs(radiusToward(ea, fa, u) - radiusToward(eb, fb, u)) <= margin;
+  });
+};
+
+/**
+ * Hoots-style geometric filter: two non-coplanar orbits can only meet near their
+ * mutual node line, so compare the orbit radii at both crossings. The margin
+ * covers rotation of the apsidal and node lines over the window.
+ */
+export const orbitPathFilter = (a: OrbitalObject, b: OrbitalObject, padKm: number, windowSeconds: number): boolean => {
+  if (hasBurns(a) || hasBurns(b)) return true;
+  return pathsMeet(a.elements, perifocalFrame(a.elements), b.elements, perifocalFrame(b.elements), padKm, windowSeconds);
+};
+
+// Both orbit-level sieves
+export const orbitFiltersPass = (a: OrbitalObject, b: OrbitalObject, padKm: number, windowSeconds: number): boolean => {
+  return perigeeApogeeFilter(a, b, padKm) && orbitPathFilter(a, b, padKm, windowSeconds);
+};
+
+/**
+ * Both orbit filters with the per-object terms (altitude band, perifocal frame)
+ * computed once up front. A pair then costs two comparisons when the bands are
+ * apart and the node-line test only when they overlap, cheap enough to re-run
+ * on every time step instead of remembering per-pair results.
+ */
+export interface OrbitSieve {
+  objects: OrbitalObject[];
+  perigee: Float64Array; // km
+  apogee: Float64Array; // km
+  frames: PerifocalFrame[];
+  padKm: number;
+  windowSeconds: number;
+}
+
+export const createOrbitSieve = (objects: OrbitalObject[], padKm: number, windowSeconds: number): OrbitSieve => {
+  const perigee = new Float64Array(objects.length);
+  const apogee = new Float64Array(objects.length);
+  objects.forEach((obj, i) => {
+    // Burns move an object out of its band: give it one that overlaps everything
+    perigee[i] = hasBurns(obj) ? 0 : perigeeOf(obj.elements);
+    apogee[i] = hasBurns(obj) ? Infinity : apogeeOf(obj.elements);
+  });
+  return { objects, perigee, apogee, frames: objects.map(o => perifocalFrame(o.elements)), padKm, windowSeconds };
+};
+
+export const sievePair = (sieve: OrbitSieve, i: number, j: number): boolean => {
+  const { objects, perigee, apogee, frames, padKm, windowSeconds } = sieve;
+  if (!bandsOverlap(perigee[i], apogee[i], perigee[j], apogee[j], padKm)) return false;
+  if (hasBurns(objects[i]) || hasBurns(objects[j])) return true;
+  return pathsMeet(objects[i].elements, frames[i], objects[j].elements, frames[j], padKm, windowSeconds);
+};
+
+// Indices of the objects whose orbits can come within reach of any of the given ones
+export const sieveAgainst = (sieve: OrbitSieve, primaries: number[]): number[] => {
+  const result: number[] = [];
+  const primarySet = new Set(primaries);
+  for (let j = 0; j < sieve.objects.length; j++) {
+    if (!primarySet.has(j) && primaries.some(i => sievePair(sieve, i, j))) result.push(j);
+  }
+  return result;
+};
+
+// --- SPATIAL HASH ---
+
+// Integer cell coordinates are packed into one number; +-1023 cells per axis
+const CELL_OFFSET = 1024;
+const CELL_SPAN = 2048;
+
+/**
+ * Uniform grid stored as flat lists of (cell, item) entries. Pairs are found
+ * by counting-sorting the entries into per-cell buckets and per-item cell
+ * lists, so a time step costs time linear in the entries and pairs, with no
+ * sorting and no per-pair set.
+ */
+export interface SpatialHash {
+  cellSize: number; // km
+  itemCount: number;
+  cells: Float64Array; // Packed cell coordinates of each entry
+  items: Int32Array; // Item of each entry
+  size: number;
+}
+
+export const createSpatialHash = (cellSize: number, itemCount: number): SpatialHash => ({
+  cellSize,
+  itemCount,
+  cells: new Float64Array(Math.max(16, itemCount * 8)),
+  items: new Int32Array(Math.max(16, itemCount * 8)),
+  size: 0,
+});
+
+export const clearSpatialHash = (hash: SpatialHash): void => {
+  hash.size = 0;
+};
+
+const cellIndex = (hash: SpatialHash, x: number) => {
+  const c = Math.floor(x / hash.cellSize);
+  return Math.max(-CELL_OFFSET + 1, Math.min(CELL_OFFSET - 1, c)) + CELL_OFFSET;
+};
+
+// Registers an item in every cell its axis-aligned box touches
+export const insertBox = (
+  hash: SpatialHash, item: number,
+  minX: number, minY: number, minZ: number,
+  maxX: number, maxY: number, maxZ: number,
+): void => {
+  const x0 = cellIndex(hash, minX), x1 = cellIndex(hash, maxX);
+  const y0 = cellIndex(hash, minY), y1 = cellIndex(hash, maxY);
+  const z0 = cellIndex(hash, minZ), z1 = cellIndex(hash, maxZ);
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      for (let z = z0; z <= z1; z++) {
+        if (hash.size === hash.cells.length) {
+          const cells = new Float64Array(hash.cells.length * 2);
+          cells.set(hash.cells);
+          hash.cells = cells;
+          const items = new Int32Array(hash.items.length * 2);
+          items.set(hash.items);
+          hash.items = items;
+        }
+        hash.cells[hash.size] = (x * CELL_SPAN + y) * CELL_SPAN + z;
+        hash.items[hash.size++] = item;
+      }
+    }
+  }
+};
+
+// Groups entry indices 0..size-1 by key (0..keyCount-1): returns the start offsets and the grouped values
+const countingSort = (keys: Int32Array, values: Int32Array, size: number, keyCount: number) => {
+  const start = new Int32Array(keyCount + 1);
+  for (let e = 0; e < size; e++) start[keys[e] + 1]++;
+  for (let k = 0; k < keyCount; k++) start[k + 1] += start[k];
+  const fill = start.slice(0, keyCount);
+  const grouped = new Int32Array(size);
+  for (let e = 0; e < size; e++) grouped[fill[keys[e]]++] = values[e];
+  return { start, grouped };
+};
+
+/**
+ * Calls visit(i, j) once for every pair of items (i < j) sharing at least one
+ * cell. An item may have been boxed into the same cell more than once.
+ */
+export const forEachPair = (hash: SpatialHash, visit: (i: number, j: number) => void): void => {
+  const { size, itemCount: n } = hash;
+
+  // Dense bucket number for every occupied cell, through an open-addressing table on the packed cell
+  let capacity = 16;
+  while (capacity < size * 2) capacity *= 2;
+  const mask = capacity - 1;
+  const slotCell = new Float64Array(capacity);
+  const slotBucket = new Int32Array(capacity).fill(-1);
+  const bucketOf = new Int32Array(size);
+  let bucketCount = 0;
+  for (let e = 0; e < size; e++) {
+    const cell = hash.cells[e];
+    let slot = (Math.imul(cell | 0, 0x9e3779b1) ^ Math.imul((cell / 0x100000000) | 0, 0x85ebca6b)) & mask;
+    while (slotBucket[slot] !== -1 && slotCell[slot] !== cell) slot = (slot + 1) & mask;
+    if (slotBucket[slot] === -1) {
+      slotCell[slot] = cell;
+      slotBucket[slot] = bucketCount++;
+    }
+    bucketOf[e] = slotBucket[slot];
+  }
+
+  const buckets = countingSort(bucketOf, hash.items, size, bucketCount); // Items of each cell
+  const itemCells = countingSort(hash.items, bucketOf, size, n); // Cells of each item
+
+  // seen[j] === i once (i, j) has been visited from an earlier shared cell
+  const seen = new Int32Array(n).fill(-1);
+  for (let i = 0; i < n; i++) {
+    for (let c = itemCells.start[i]; c < itemCells.start[i + 1]; c++) {
+      const b = itemCells.grouped[c];
+      for (let e = buckets.start[b]; e < buckets.start[b + 1]; e++) {
+        const j = buckets.grouped[e];
+        if (j > i && seen[j] !== i) {
+          seen[j] = i;
+          visit(i, j);
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,151 @@
+import { HealthLevel, OrbitalObject, PropagatorKind, StatusIssue, SystemStatus } from '../types';
+import { ScreeningStats } from './orbitalPhysics';
+import { getPropagator } from './propagators';
+import { FeedStatus } from './catalogFeed';
+
+/**
+ * SYSTEM STATUS
+ * Health of the screening pipeline, assessed from the last screening run, the
+ * catalog's element-set ages, the live feed and workspace storage. Every
+ * finding is reported as an issue; the worst one sets the overall level.
+ */
+
+// Full screenings repeat at this interval while the clock runs
+export const SCREENING_POLL_INTERVAL = 5000; // ms
+// Element sets older than this (relative to sim time) are flagged as stale
+export const STALE_ELEMENT_AGE = 3 * 86400; // s
+// A screening still running after this many polls is reported as stalled
+const OVERDUE_POLLS = 3;
+
+export interface ScreeningRecord {
+  completedAt: number; // ms since Unix epoch (wall clock)
+  durationMs: number;
+  incremental: boolean;
+  stats: ScreeningStats;
+}
+
+// --- CATALOG ---
+
+export interface CatalogSummary {
+  activeSatellites: number;
+  trackedDebris: number;
+  oldestEpoch: number | null; // ms since Unix epoch
+  oldestId: string | null;
+  newestEpoch: number | null; // ms
+  propagators: Record<PropagatorKind, number>;
+}
+
+// Depends on the catalog only, so it can be memoized apart from the clock
+export const summarizeCatalog = (objects: OrbitalObject[]): CatalogSummary => {
+  const summary: CatalogSummary = {
+    activeSatellites: 0,
+    trackedDebris: 0,
+    oldestEpoch: null,
+    oldestId: null,
+    newestEpoch: null,
+    propagators: { KEPLER: 0, SGP4: 0, NUMERICAL: 0 },
+  };
+  objects.forEach(obj => {
+    if (obj.type === 'SATELLITE') summary.activeSatellites++;
+    else summary.trackedDebris++;
+    summary.propagators[getPropagator(obj).kind]++;
+    if (summary.oldestEpoch === null || obj.epoch < summary.oldestEpoch) {
+      summary.oldestEpoch = obj.epoch;
+      summary.oldestId = obj.id;
+    }
+    if (summary.newestEpoch === null || obj.epoch > summary.newestEpoch) summary.newestEpoch = obj.epoch;
+  });
+  return summary;
+};
+
+// --- ASSESSMENT ---
+
+export interface StatusInputs {
+  catalog: CatalogSummary;
+  catalogLoaded: boolean; // False while the stored workspace is still being read
+  time: number; // Sim time (s since Unix epoch)
+  now: number; // Wall clock (ms since Unix epoch)
+  screening: ScreeningRecord | null; // Last completed run
+  inFlightSince: number | null; // Start of the running screening or upload (ms, wall clock)
+  screenError: string | null;
+  feed: FeedStatus;
+  storageError: string | null;
+}
+
+const formatDays = (seconds: number) => `${(seconds / 86400).toFixed(1)} d`;
+
+export const assessSystemStatus = ({
+  catalog, catalogLoaded, time, now, screening, inFlightSince, screenError, feed, storageError,
+}: StatusInputs): SystemStatus => {
+  const issues: StatusIssue[] = [];
+  const total = catalog.activeSatellites + catalog.trackedDebris;
+
+  if (catalogLoaded && total === 0) issues.push({ level: 'FAILED', component: 'CATALOG', message: 'No objects in the catalog' });
+  if (screenError) issues.push({ level: 'FAILED', component: 'SCREENING', message: screenError });
+
+  const oldestElementAge = catalog.oldestEpoch !== null ? time - catalog.oldestEpoch / 1000 : null;
+  const newestElementAge = catalog.newestEpoch !== null ? time - catalog.newestEpoch / 1000 : null;
+  if (oldestElementAge !== null && oldestElementAge > STALE_ELEMENT_AGE) {
+    issues.push({
+      level: 'DEGRADED',
+      component: 'CATALOG',
+      message: `Stale element set: ${catalog.oldestId} is ${formatDays(oldestElementAge)} old`,
+    });
+  }
+
+  // Objects whose model failed (e.g. SGP4 decay) were not screened over part of the window
+  const excluded = screening?.stats.excluded ?? [];
+  if (excluded.length > 0) {
+    const listed = excluded.slice(0, 3).map(x => `${x.id} (${x.error})`).join(', ');
+    issues.push({
+      level: 'DEGRADED',
+      component: 'CATALOG',
+      message: `${excluded.length} object(s) excluded from screening: ${listed}${excluded.length > 3 ? ', ...' : ''}`,
+    });
+  }
+
+  if (inFlightSince !== null && now - inFlightSince > OVERDUE_POLLS * SCREENING_POLL_INTERVAL) {
+    issues.push({
+      level: 'DEGRADED',
+      component: 'SCREENING',
+      message: `Screening running for ${Math.round((now - inFlightSince) / 1000)} s`,
+    });
+  }
+
+  const workerLoad = screening ? screening.durationMs / SCREENING_POLL_INTERVAL : null;
+  if (workerLoad !== null && workerLoad > 1) {
+    issues.push({
+      level: 'DEGRADED',
+      component: 'WORKER',
+      message: `Screening takes ${(screening!.durationMs / 1000).toFixed(1)} s, longer than the ${SCREENING_POLL_INTERVAL / 1000} s poll`,
+    });
+  }
+
+  // A disabled feed is a configuration choice, not a fault
+  if (feed.state === 'RECONNECTING' || feed.state === 'CLOSED') {
+    issues.push({ level: 'DEGRADED', component: 'FEED', message: feed.error ?? `Catalog feed ${feed.state.toLowerCase()}` });
+  }
+
+  if (storageError) issues.push({ level: 'DEGRADED', component: 'STORAGE', message: storageError });
+
+  const health: HealthLevel = issues.some(i => i.level === 'FAILED')
+    ? 'FAILED'
+    : issues.length > 0 ? 'DEGRADED' : 'NOMINAL';
+
+  return {
+    health,
+    issues,
+    activeSatellites: catalog.activeSatellites,
+    trackedDebris: catalog.trackedDebris,
+    lastScan: screening?.completedAt ?? null,
+    scanDuration: screening?.durationMs ?? null,
+    incremental: screening?.incremental ?? false,
+    pairsScreened: screening?.stats.pairs ?? null,
+    candidatePairs: screening?.stats.candidates ?? null,
+    oldestElementAge,
+    oldestElementId: catalog.oldestId,
+    newestElementAge,
+    propagators: catalog.propagators,
+    workerLoad,
+  };
+};
@@ -0,0 +1,253 @@
+import { OrbitalObject, TleElements } from '../types';
+import { MU_EARTH } from './propagators';
+import { cosparFromTle, objectTypeForClass } from './objectMetadata';
+
+/**
+ * TLE / 3LE CATALOG INGESTION
+ * Parses NORAD two-line element sets (optionally preceded by a name line, as
+ * published by CelesTrak and Space-Track) into OrbitalObjects. Every line is
+ * validated independently so one corrupt entry does not reject a whole catalog.
+ */
+
+// Constants
+const DEG2RAD = Math.PI / 180;
+const TLE_LINE_LENGTH = 69;
+
+// Common catalog naming for non-payload objects
+const DEBRIS_NAME_PATTERN = /\b(DEB|R\/B|AKM|PKM|COOLANT|FRAG|PLATFORM)\b/i;
+const ROCKET_BODY_PATTERN = /\bR\/B\b/i;
+
+export interface TleParseError {
+  line: number; // 1-based line number in the input
+  message: string;
+}
+
+export interface TleParseResult {
+  objects: OrbitalObject[];
+  errors: TleParseError[];
+}
+
+// Standard TLE checksum: sum of digits, minus signs count as 1, modulo 10
+export const computeTleChecksum = (line: string): number => {
+  let sum = 0;
+  for (let k = 0; k < TLE_LINE_LENGTH - 1; k++) {
+    const c = line[k];
+    if (c >= '0' && c <= '9') sum += Number(c);
+    else if (c === '-') sum += 1;
+  }
+  return sum % 10;
+};
+
+// Catalog numbers above 99999 use the Alpha-5 scheme (A=10 ... Z=33, skipping I and O)
+const parseSatnum = (field: string): number => {
+  const trimmed = field.trim();
+  if (/^\d{1,5}$/.test(trimmed)) return Number(trimmed);
+  if (/^[A-HJ-NP-Z]\d{4}$/.test(trimmed)) {
+    const letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+    return (letters.indexOf(trimmed[0]) + 10) * 10000 + Number(trimmed.slice(1));
+  }
+  return NaN;
+};
+
+// Fields like " 28098-4" encode 0.28098e-4 with an implied leading decimal point
+const parseImpliedDecimal = (field: string): number => {
+  const trimmed = field.trim();
+  if (trimmed === '') return 0;
+  const match = /^([+-]?)(\d+)([+-]\d)$/.exec(trimmed);
+  if (!match) return NaN;
+  return Number(`${match[1]}0.${match[2]}`) * Math.pow(10, Number(match[3]));
+};
+
+const parseDecimal = (field: string): number => {
+  const trimmed = field.trim();
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(trimmed)) return NaN;
+  return Number(trimmed);
+};
+
+// Validates layout and checksum; returns a message or null when the line is well formed
+const checkLine = (line: string, lineNo: 1 | 2): string | null => {
+  if (line.length !== TLE_LINE_LENGTH) {
+    return `Line ${lineNo} must be ${TLE_LINE_LENGTH} characters (got ${line.length})`;
+  }
+  if (line[0] !== String(lineNo) || line[1] !== ' ') {
+    return `Line ${lineNo} must start with "${lineNo} "`;
+  }
+  const expected = Number(line[68]);
+  if (!/\d/.test(line[68])) {
+    return `Line ${lineNo} is missing its checksum digit`;
+  }
+  const actual = computeTleChecksum(line);
+  if (actual !== expected) {
+    return `Line ${lineNo} checksum mismatch (expected ${expected}, computed ${actual})`;
+  }
+  return null;
+};
+
+// Converts a TLE epoch (two-digit year + fractional day) to ms since Unix epoch
+export const tleEpochToDate = (epochYear: number, epochDay: number): number => {
+  return Date.UTC(epochYear, 0, 1) + (epochDay - 1) * 86400000;
+};
+
+/**
+ * Parses a validated line pair into TLE fields.
+ * Throws with a field-specific message if any column fails to parse.
+ */
+const parseElements = (line1: string, line2: string): TleElements => {
+  const field = (name: string, value: number): number => {
+    if (!Number.isFinite(value)) throw new Error(`Invalid ${name} field`);
+    return value;
+  };
+
+  const satnum = field('catalog number', parseSatnum(line1.substring(2, 7)));
+  const satnum2 = field('line 2 catalog number', parseSatnum(line2.substring(2, 7)));
+  if (satnum !== satnum2) {
+    throw new Error(`Catalog number mismatch between lines (${satnum} vs ${satnum2})`);
+  }
+
+  const yy = field('epoch year', parseDecimal(line1.substring(18, 20)));
+  const epochYear = yy < 57 ? 2000 + yy : 1900 + yy;
+  const epochDay = field('epoch day', parseDecimal(line1.substring(20, 32)));
+  if (epochDay < 1 || epochDay >= 367) throw new Error('Epoch day out of range');
+
+  const eccentricity = field('eccentricity', parseDecimal(`0.${line2.substring(26, 33).trim()}`));
+  const meanMotion = field('mean motion', parseDecimal(line2.substring(52, 63)));
+  if (meanMotion <= 0) throw new Error('Mean motion must be positive');
+
+  return {
+    line1,
+    line2,
+    satnum,
+    classification: line1[7],
+    intlDesignator: line1.substring(9, 17).trim(),
+    epochYear,
+    epochDay,
+    ndot: field('first derivative of mean motion', parseDecimal(line1.substring(33, 43))),
+    nddot: field('second derivative of mean motion', parseImpliedDecimal(line1.substring(44, 52))),
+    bstar: field('B*', parseImpliedDecimal(line1.substring(53, 61))),
+    inclination: field('inclination', parseDecimal(line2.substring(8, 16))),
+    raan: field('RAAN', parseDecimal(line2.substring(17, 25))),
+    eccentricity,
+    argPerigee: field('argument of perigee', parseDecimal(line2.substring(34, 42))),
+    meanAnomaly: field('mean anomaly', parseDecimal(line2.substring(43, 51))),
+    meanMotion,
+    revNumber: Number(line2.substring(63, 68).trim()) || 0,
+  };
+};
+
+// Builds an OrbitalObject from parsed TLE fields (osculating Keplerian approximation)
+export const tleToOrbitalObject = (tle: TleElements, name?: string): OrbitalObject => {
+  const n = (tle.meanMotion * 2 * Math.PI) / 86400; // rad/s
+  const displayName = name && name.length > 0 ? name : `NORAD ${tle.satnum}`;
+  const objectClass = ROCKET_BODY_PATTERN.test(displayName) ? 'ROCKET_BODY'
+    : DEBRIS_NAME_PATTERN.test(displayName) ? 'DEBRIS' : 'PAYLOAD';
+  const type = objectTypeForClass(objectClass);
+
+  return {
+    id: String(tle.satnum),
+    name: displayName,
+    type,
+    color: type === 'DEBRIS' ? '#ef4444' : '#06b6d4',
+    epoch: tleEpochToDate(tle.epochYear, tle.epochDay),
+    noradId: tle.satnum,
+    cosparId: cosparFromTle(tle.intlDesignator),
+    objectClass,
+    bstar: tle.bstar,
+    tle,
+    elements: {
+      a: Math.cbrt(MU_EARTH / (n * n)),
+      e: tle.eccentricity,
+      i: tle.inclination * DEG2RAD,
+      w: tle.argPerigee * DEG2RAD,
+      O: tle.raan * DEG2RAD,
+      M0: tle.meanAnomaly * DEG2RAD,
+      n,
+    },
+  };
+};
+
+/**
+ * Parses a block of 2LE/3LE text. Name lines may carry the "0 " prefix used by
+ * Space-Track 3LE output. Malformed entries are reported by line and skipped;
+ * repeated catalog numbers are reported and collapsed to the newest element set.
+ */
+export const parseTleCatalog = (text: string): TleParseResult => {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+$/, ''));
+  const objects: OrbitalObject[] = [];
+  const errors: TleParseError[] = [];
+  const seen = new Map<string, number>(); // Object ID -> index in objects
+  let pendingName: { name: string, line: number } | null = null;
+
+  let idx = 0;
+  while (idx < lines.length) {
+    const line = lines[idx];
+    const lineNo = idx + 1;
+
+    if (line.trim() === '') {
+      idx++;
+      continue;
+    }
+
+    if (line.startsWith('1 ')) {
+      const next = lines[idx + 1];
+      if (next === undefined || !next.startsWith('2 ')) {
+        errors.push({ line: lineNo, message: 'Line 1 is not followed by a matching line 2' });
+        pendingName = null;
+        idx++;
+        continue;
+      }
+
+      const err1 = checkLine(line, 1);
+      const err2 = checkLine(next, 2);
+      if (err1) errors.push({ line: lineNo, message: err1 });
+      if (err2) errors.push({ line: lineNo + 1, message: err2 });
+
+      if (!err1 && !err2) {
+        try {
+          const tle = parseElements(line, next);
+          const obj = tleToOrbitalObject(tle, pendingName?.name);
+          // Objects are keyed by catalog number; a repeated entry keeps the newest epoch
+          const existing = seen.get(obj.id);
+          if (existing === undefined) {
+            seen.set(obj.id, objects.length);
+            objects.push(obj);
+          } else {
+            errors.push({ line: lineNo, message: `Duplicate element set for NORAD ${tle.satnum}; keeping the newest epoch` });
+            if (obj.epoch > objects[existing].epoch) objects[existing] = obj;
+          }
+        } catch (e) {
+          errors.push({ line: lineNo, message: (e as Error).message });
+        }
+      }
+
+      pendingName = null;
+      idx += 2;
+      continue;
+    }
+
+    if (line.startsWith('2 ')) {
+      errors.push({ line: lineNo, message: 'Line 2 without a preceding line 1' });
+      pendingName = null;
+      idx++;
+      continue;
+    }
+
+    // Anything else is a name line for the next element set
+    if (pendingName) {
+      errors.push({ line: pendingName.line, message: `Name "${pendingName.name}" is not followed by an element set` });
+    }
+    pendingName = { name: line.replace(/^0 /, '').trim(), line: lineNo };
+    idx++;
+  }
+
+  if (pendingName) {
+    errors.push({ line: pendingName.line, message: `Name "${pendingName.name}" is not followed by an element set` });
+  }
+
+  return { objects, errors };
+};
+
+// Reads a local .tle/.txt file selected by the operator
+export const parseTleFile = async (file: File): Promise<TleParseResult> => {
+  const text = await file.text();
+  return parseTleCatalog(text);
+};
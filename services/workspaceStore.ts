@@ -0,0 +1,196 @@
+import { AlertRule, ConjunctionEvent, GroundStation, ManeuverDecision, NotificationChannel, OperatorNote, OrbitalObject } from '../types';
+import { DEFAULT_ALERT_RULES } from './alertRules';
+import { DEFAULT_CHANNELS } from './notifications';
+
+/**
+ * WORKSPACE PERSISTENCE
+ * The operator's workspace (catalog, conjunction events, maneuver decisions,
+ * notes, ground stations, alert rules and notification channels) kept in
+ * IndexedDB so a reload resumes where the shift left off, and exported /
+ * imported as a single JSON bundle for handover. Both the database and the bundle carry a schema version; older
+ * versions are upgraded step by step, newer ones are refused.
+ */
+
+export const WORKSPACE_SCHEMA_VERSION = 2;
+const DB_NAME = 'sentinel-workspace';
+const BUNDLE_FORMAT = 'sentinel-workspace';
+
+export interface Workspace {
+  objects: OrbitalObject[];
+  events: ConjunctionEvent[];
+  maneuvers: ManeuverDecision[];
+  notes: OperatorNote[];
+  stations: GroundStation[];
+  rules: AlertRule[];
+  channels: NotificationChannel[];
+}
+
+export type WorkspaceStore = keyof Workspace;
+
+const STORES: WorkspaceStore[] = ['objects', 'events', 'maneuvers', 'notes', 'stations', 'rules', 'channels'];
+
+// --- INDEXEDDB ---
+
+// UPGRADES[v] moves a database at version v to v + 1
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+  db => ['objects', 'events', 'maneuvers', 'notes', 'stations'].forEach(name => db.createObjectStore(name, { keyPath: 'id' })),
+  // v2: alerting configuration, seeded with the defaults
+  db => {
+    const rules = db.createObjectStore('rules', { keyPath: 'id' });
+    DEFAULT_ALERT_RULES.forEach(r => rules.put(r));
+    const channels = db.createObjectStore('channels', { keyPath: 'id' });
+    DEFAULT_CHANNELS.forEach(c => channels.put(c));
+  },
+];
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+  tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available; the workspace will not persist'));
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, WORKSPACE_SCHEMA_VERSION);
+      req.onupgradeneeded = e => {
+        for (let v = e.oldVersion; v < WORKSPACE_SCHEMA_VERSION; v++) UPGRADES[v](req.result);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error('Could not open the workspace database'));
+      req.onblocked = () => reject(new Error('Workspace database upgrade is blocked by another open tab'));
+    });
+    // A failed open may succeed later (e.g. once the other tab closes)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Reads the stored workspace. Resolves to null when nothing has been saved yet
+ * (no catalog), so the caller can fall back to a fresh scenario.
+ */
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES, 'readonly');
+  const [objects, events, maneuvers, notes, stations, rules, channels] = await Promise.all(
+    STORES.map(name => request(tx.objectStore(name).getAll())),
+  );
+  if (objects.length === 0) return null;
+  return { objects, events, maneuvers, notes, stations, rules, channels };
+};
+
+// Replaces the contents of one store
+export const saveWorkspaceStore = async <K extends WorkspaceStore>(name: K, records: Workspace[K]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  store.clear();
+  (records as { id: string }[]).forEach(r => store.put(r));
+  return transactionDone(tx);
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  await Promise.all(STORES.map(name => saveWorkspaceStore(name, workspace[name])));
+};
+
+// --- BUNDLE ---
+
+interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601
+  workspace: Workspace;
+}
+
+// BUNDLE_UPGRADES[v] converts a version v workspace to version v + 1
+const BUNDLE_UPGRADES: ((workspace: Record<string, unknown>) => Record<string, unknown>)[] = [
+  workspace => ({ ...workspace, rules: DEFAULT_ALERT_RULES, channels: DEFAULT_CHANNELS }),
+];
+
+export interface WorkspaceImportResult {
+  workspace: Workspace | null;
+  errors: string[];
+}
+
+export const exportWorkspace = (workspace: Workspace): string => {
+  const bundle: WorkspaceBundle = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace,
+  };
+  return JSON.stringify(bundle);
+};
+
+export const workspaceFileName = (date: Date = new Date()) =>
+  `sentinel-workspace-${date.toISOString().slice(0, 19).replace(/[:T]/g, '')}.json`;
+
+/**
+ * Parses and validates an exported bundle, upgrading older schema versions.
+ * Records without an id are dropped and reported.
+ */
+export const parseWorkspaceBundle = (text: string): WorkspaceImportResult => {
+  let bundle: Partial<WorkspaceBundle>;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    return { workspace: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.workspace !== 'object' || bundle.workspace === null) {
+    return { workspace: null, errors: ['Not a SENTINEL workspace bundle'] };
+  }
+  const version = bundle.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { workspace: null, errors: ['Workspace bundle has no valid schema version'] };
+  }
+  if (version > WORKSPACE_SCHEMA_VERSION) {
+    return { workspace: null, errors: [`Workspace schema v${version} is newer than this build (v${WORKSPACE_SCHEMA_VERSION})`] };
+  }
+
+  let raw = bundle.workspace as unknown as Record<string, unknown>;
+  for (let v = version; v < WORKSPACE_SCHEMA_VERSION; v++) raw = BUNDLE_UPGRADES[v - 1](raw);
+
+  const errors: string[] = [];
+  const records = <T>(name: WorkspaceStore): T[] => {
+    const list = raw[name];
+    if (!Array.isArray(list)) {
+      errors.push(`Missing ${name}; imported as empty`);
+      return [];
+    }
+    const valid = list.filter(r => typeof r === 'object' && r !== null && typeof r.id === 'string');
+    if (valid.length < list.length) errors.push(`${list.length - valid.length} ${name} record(s) without an id were skipped`);
+    return valid as T[];
+  };
+
+  const objects = records<OrbitalObject>('objects');
+  const propagatable = objects.filter(o => typeof o.elements === 'object' && o.elements !== null);
+  if (propagatable.length < objects.length) errors.push(`${objects.length - propagatable.length} object(s) without orbital elements were skipped`);
+
+  const workspace: Workspace = {
+    objects: propagatable,
+    events: records<ConjunctionEvent>('events'),
+    maneuvers: records<ManeuverDecision>('maneuvers'),
+    notes: records<OperatorNote>('notes'),
+    stations: records<GroundStation>('stations'),
+    rules: records<AlertRule>('rules'),
+    channels: records<NotificationChannel>('channels'),
+  };
+  if (workspace.objects.length === 0) {
+    return { workspace: null, errors: [...errors, 'Workspace bundle has no catalog objects'] };
+  }
+  return { workspace, errors };
+};
+
+export const parseWorkspaceFile = async (file: File): Promise<WorkspaceImportResult> => {
+  const text = await file.text();
+  return parseWorkspaceBundle(text);
+};
@@ -10,10 +10,75 @@ export interface Vector3 {
   z: number;
 }
 
-export interface OrbitalObject {
+export interface StateVector {
+  position: Vector3; // km
+  velocity: Vector3; // km/s
+}
+
+// Mean elements of a two-line element set, as published (degrees, rev/day)
+export interface TleElements {
+  line1: string;
+  line2: string;
+  satnum: number; // NORAD catalog number
+  classification: string;
+  intlDesignator: string;
+  epochYear: number; // Four-digit year
+  epochDay: number; // Fractional day of year (1.0 = Jan 1 00:00 UTC)
+  ndot: number; // First derivative of mean motion / 2 (rev/day^2)
+  nddot: number; // Second derivative of mean motion / 6 (rev/day^3)
+  bstar: number; // Drag term (1/earth radii)
+  inclination: number; // deg
+  raan: number; // deg
+  eccentricity: number;
+  argPerigee: number; // deg
+  meanAnomaly: number; // deg
+  meanMotion: number; // rev/day
+  revNumber: number;
+}
+
+export type PropagatorKind = 'KEPLER' | 'SGP4' | 'NUMERICAL';
+
+export type BurnModel = 'IMPULSIVE' | 'FINITE';
+
+// A burn flown on top of an object's propagated trajectory
+export interface ManeuverBurn {
+  deltaV: [number, number, number]; // Radial, transverse, normal (m/s)
+  burnEpoch: number; // Ignition (ms since Unix epoch, UTC)
+  duration: number; // s; an impulsive burn is applied at mid-duration
+  model: BurnModel;
+}
+
+// SATCAT object classes
+export type ObjectClass = 'PAYLOAD' | 'ROCKET_BODY' | 'DEBRIS' | 'UNKNOWN';
+
+// SATCAT radar cross-section bins: < 0.1 m^2, 0.1-1 m^2, > 1 m^2
+export type RcsSize = 'SMALL' | 'MEDIUM' | 'LARGE';
+
+// Physical and operational data of a catalog object; unset fields fall back to class defaults
+export interface AssetMetadata {
+  noradId?: number;
+  cosparId?: string; // International designator, e.g. 1998-067A
+  objectClass?: ObjectClass; // Defaults to PAYLOAD for satellites, DEBRIS otherwise
+  rcsSize?: RcsSize;
+  hardBodyRadius?: number; // m
+  massKg?: number;
+  areaToMass?: number; // m^2/kg, drag cross-section over mass
+  owner?: string; // Owner / operator
+  maneuverable?: boolean; // Defaults to true for payloads
+  thrustN?: number; // Available thrust for avoidance burns
+}
+
+export interface OrbitalObject extends AssetMetadata {
   id: string;
   name: string;
   type: 'SATELLITE' | 'DEBRIS';
+  epoch: number; // Element epoch (ms since Unix epoch, UTC)
+  bstar?: number; // Drag term (1/earth radii)
+  tle?: TleElements; // Source element set, when loaded from a catalog
+  propagator?: PropagatorKind; // Defaults to SGP4 for catalog objects, Kepler otherwise
+  covariance?: number[][]; // Position (3x3) or state (6x6) covariance in RTN (km^2, km^2/s)
+  mission?: string; // Mission or constellation, for per-mission alert rules
+  burns?: ManeuverBurn[]; // Planned burns, in ignition order
   // Simplified Keplerian elements for propagation
   elements: {
     a: number; // Semi-major axis (km)
@@ -27,27 +92,186 @@ export interface OrbitalObject {
   color: string;
 }
 
+// One change to the catalog from the live feed
+export type CatalogUpdate =
+  | { kind: 'OBJECT_ADDED', object: OrbitalObject } // Newly catalogued object
+  | { kind: 'ELEMENTS_UPDATED', object: OrbitalObject } // New element set for a known object
+  | { kind: 'DECAYED', objectId: string } // Re-entered; removed from the catalog
+  | { kind: 'MANEUVER', objectId: string, burn: ManeuverBurn }; // Burn notified by the owner
+
+// Probability of collision at TCA from each supported method
+export interface PcEstimates {
+  foster: number; // 2D integral over the hard-body circle
+  chan: number; // Chan series approximation
+  alfanoMax: number; // Maximum over covariance scaling
+}
+
+// State and uncertainty of one party to a conjunction at TCA (CDM OBJECT1 / OBJECT2)
+export interface ConjunctionObjectData {
+  id: string; // Object designator (catalog number where known)
+  name: string;
+  type: OrbitalObject['type'];
+  state: StateVector; // Inertial at TCA
+  covariance: number[][]; // RTN position (3x3) or state (6x6) covariance (km^2, km^2/s, km^2/s^2)
+  cosparId?: string;
+  objectClass?: ObjectClass;
+  owner?: string;
+  maneuverable?: boolean; // Unset when unknown (CDM MANEUVERABLE = N/A)
+}
+
+export type ConjunctionSource = 'SCREENING' | 'CDM';
+
 export interface Conjunction {
   id: string;
+  objectA: string; // Primary object ID (catalog number for catalog objects)
+  objectB: string; // Secondary object ID
+  nameA: string; // Display names; not unique across a catalog
+  nameB: string;
+  tca: number; // Time of closest approach (ms since Unix epoch, UTC)
+  timeToImpact: number; // seconds from screening time to TCA
+  probability: number; // 0-1 (Foster Pc)
+  pc: PcEstimates;
+  hardBodyRadius: number; // Combined hard-body radius (m)
+  riskLevel: RiskLevel; // From Pc thresholds, or the alert rule in ruleId
+  ruleId?: string; // Alert rule that set the tier
+  missDistance: number; // km at TCA
+  relativeVelocity: number; // km/s at TCA
+  source?: ConjunctionSource; // Defaults to SCREENING
+  messageId?: string; // CDM MESSAGE_ID when imported
+  primary?: ConjunctionObjectData; // objectA
+  secondary?: ConjunctionObjectData; // objectB
+}
+
+// NEW: first detection; UPDATED: re-detected at the same tier; ESCALATED: tier or Pc rose;
+// MITIGATED: no longer reportable before TCA after a burn of either object; DROPPED: no longer
+// reportable before TCA without one (e.g. fell below the alert tiers); CLOSED: TCA has passed
+export type ConjunctionEventStatus = 'NEW' | 'UPDATED' | 'ESCALATED' | 'MITIGATED' | 'DROPPED' | 'CLOSED';
+
+// One screening's (or CDM's) estimate of an event
+export interface ConjunctionEstimate {
+  epoch: number; // Screening or import time (ms since Unix epoch, UTC)
+  tca: number; // ms since Unix epoch
+  probability: number;
+  missDistance: number; // km
+  riskLevel: RiskLevel;
+  source: ConjunctionSource;
+}
+
+// An encounter of one object pair, followed across screenings
+export interface ConjunctionEvent {
+  id: string; // Stable for the life of the event; also the id of latest
   objectA: string;
   objectB: string;
-  timeToImpact: number; // seconds
-  probability: number; // 0-1
-  riskLevel: RiskLevel;
-  missDistance: number; // km
+  status: ConjunctionEventStatus;
+  latest: Conjunction; // Most recent estimate
+  history: ConjunctionEstimate[]; // Oldest first
+  firstSeen: number; // ms since Unix epoch
+  updatedAt: number; // ms; last estimate or status change
 }
 
 export interface Maneuver {
-  targetId: string;
+  targetId: string; // Maneuvering asset ID
+  conjunctionId: string; // Conjunction the burn mitigates
+  secondaryId: string; // Object of that conjunction the burn avoids
+  tca: number; // Its TCA (ms since Unix epoch, UTC)
+  deltaV: [number, number, number]; // Radial, transverse, normal (m/s)
+  burnEpoch: number; // Ignition (ms since Unix epoch, UTC)
+  duration: number; // Burn duration (s)
   thrustN: number;
-  vector: [number, number, number];
-  duration: number;
-  timestamp: string;
+  massKg: number;
+  predictedMissDistance: number; // km at TCA after the burn
+  predictedPc: number; // Foster Pc after the burn
+  targetMissDistance: number; // Miss distance the burn was sized to clear (km)
+  targetPc: number; // Pc the burn was sized to fall below
+  targetMet: boolean; // False when the delta-v limit was reached first
+  timestamp: string; // Plan creation (ISO 8601)
+}
+
+export type ManeuverDecisionStatus = 'PLANNED' | 'EXECUTED';
+
+// Operator decision on a planned burn, kept for the shift log
+export interface ManeuverDecision {
+  id: string;
+  maneuver: Maneuver;
+  burnModel: BurnModel;
+  status: ManeuverDecisionStatus;
+  decidedAt: number; // ms since Unix epoch (wall clock)
+}
+
+// Free-text operator note, optionally attached to a conjunction event
+export interface OperatorNote {
+  id: string;
+  eventId?: string;
+  text: string;
+  createdAt: number; // ms since Unix epoch (wall clock)
+}
+
+export type AlertRuleScope = 'ALL' | 'ASSET' | 'MISSION';
+
+// Every threshold that is set must hold for a rule to match
+export interface AlertThresholds {
+  pc?: number; // Foster Pc at or above
+  missDistance?: number; // km, at or below
+  radialMiss?: number; // km, |radial| miss in the primary's RTN frame at or below
+  timeToTca?: number; // s from the screening epoch to TCA, at or below
+}
+
+// Operator rule placing matching conjunctions in a tier; the highest matching tier wins
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scope: AlertRuleScope;
+  target?: string; // Object id (ASSET) or mission name (MISSION)
+  tier: RiskLevel;
+  thresholds: AlertThresholds;
+}
+
+export type NotificationChannelKind = 'BROWSER' | 'AUDIO' | 'WEBHOOK' | 'EMAIL';
+
+// Where escalations are announced
+export interface NotificationChannel {
+  id: string;
+  kind: NotificationChannelKind;
+  enabled: boolean;
+  url?: string; // Webhook endpoint, or the mail relay for EMAIL
+  recipient?: string; // EMAIL address
+}
+
+// Tracking / command site used for uplink planning
+export interface GroundStation {
+  id: string;
+  name: string;
+  latitude: number; // deg, geodetic
+  longitude: number; // deg, east positive
+  altitude: number; // km above the WGS-84 ellipsoid
+  minElevation: number; // deg; elevation mask for contact
+}
+
+export type HealthLevel = 'NOMINAL' | 'DEGRADED' | 'FAILED';
+
+export type StatusComponent = 'SCREENING' | 'CATALOG' | 'WORKER' | 'FEED' | 'STORAGE';
+
+export interface StatusIssue {
+  level: Exclude<HealthLevel, 'NOMINAL'>;
+  component: StatusComponent;
+  message: string;
 }
 
+// Live telemetry of the screening pipeline, assessed by the app
 export interface SystemStatus {
+  health: HealthLevel; // Worst level among the issues
+  issues: StatusIssue[];
   activeSatellites: number;
   trackedDebris: number;
-  systemHealth: number;
-  lastScan: string;
+  lastScan: number | null; // Completion of the last screening (ms since Unix epoch, wall clock)
+  scanDuration: number | null; // ms
+  incremental: boolean; // Last screening covered only changed objects
+  pairsScreened: number | null; // Pairs in scope of the last screening
+  candidatePairs: number | null; // Close approaches within reach found among them by the spatial hash
+  oldestElementAge: number | null; // s from the oldest element-set epoch to sim time
+  oldestElementId: string | null;
+  newestElementAge: number | null; // s
+  propagators: Record<PropagatorKind, number>; // Objects per active model
+  workerLoad: number | null; // Last screening duration over the polling interval
 }
\ No newline at end of file
@@ -1,18 +1,41 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Mock backend (vite --mode mock): serves server/mockApi.ts under /api from the dev server
+const mockApi = (): Plugin => ({
+  name: 'sentinel-mock-api',
+  configureServer(server) {
+    server.middlewares.use('/api', (req, res) => {
+      server.ssrLoadModule('/server/mockApi.ts')
+        .then(mod => mod.handleMockApiRequest(req, res))
+        .catch((e: Error) => {
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: e.message }));
+        });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const mock = mode === 'mock';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: mock ? [react(), mockApi()] : [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Backend base URL; empty runs screening and planning in the browser
+        'process.env.SENTINEL_API_URL': JSON.stringify(mock ? '/api' : env.SENTINEL_API_URL ?? ''),
+        // Live catalog feed (Server-Sent Events); empty disables it
+        'process.env.SENTINEL_FEED_URL': JSON.stringify(mock ? '/api/feed' : env.SENTINEL_FEED_URL ?? ''),
+        // Default webhook for escalation notifications; the mock server records what it receives
+        'process.env.SENTINEL_WEBHOOK_URL': JSON.stringify(mock ? '/api/notifications' : env.SENTINEL_WEBHOOK_URL ?? '')
       },
       resolve: {
         alias: {